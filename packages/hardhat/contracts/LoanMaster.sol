@@ -3,239 +3,899 @@ pragma solidity ^0.8.20;
 
 import { IERC20 } from "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import { SafeERC20 } from "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import { EIP712 } from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import { ECDSA } from "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import { Math } from "@openzeppelin/contracts/utils/math/Math.sol";
+import { AccessControlDefaultAdminRules } from "@openzeppelin/contracts/access/extensions/AccessControlDefaultAdminRules.sol";
 
     using SafeERC20 for IERC20;
 
+    // Overdue is also reported by the getters as soon as the due date passes, before anyone calls markOverdue
+    enum LoanState {
+        None,
+        Active,
+        Overdue,
+        Defaulted,
+        Repaid
+    }
+
+    // User actions that the guardian can pause one by one, stored as bits of the pool's pausedActions.
+    // Repay is never paused, loans keep running to their due date either way.
+    enum PoolAction {
+        Deposit,
+        Withdraw,
+        Borrow,
+        Repay
+    }
+
+    // Kinked utilization model, all rates are yearly and in basis points like the utilization and kink
+    struct InterestRateModel {
+        uint256 baseRate;
+        uint256 slope1;
+        uint256 slope2;
+        uint256 kink;
+        uint256 reserveFactor;
+    }
+
+    // Depositors own pool shares (ERC-4626 style), the pool's assets are its idle liquidity plus outstanding
+    // borrows minus the protocol reserves. Borrows grow with the pool's borrow index (Compound style).
     struct LiquidityPoolStruct {
         uint256 liquidity;
         address tokenAddress;
-        uint256 depositAPR;
-        uint256 borrowAPR;
-        mapping(address => uint256) deposits;
-        mapping(address => uint256) depositTimestamps;
+        InterestRateModel rateModel;
+        uint256 totalBorrows;
+        uint256 reserves;
+        uint256 borrowIndex;
+        uint256 lastAccrualTime;
+        uint256 totalShares;
+        uint256 loanTerm;
+        uint256 gracePeriod;
+        // lowest attested risk level (1-10, 10 is best) allowed to borrow from the pool
+        uint8 minRiskLevel;
+        // a paused pool only accepts repayments and emergency withdrawals
+        bool paused;
+        uint8 pausedActions;
+        // maximum total assets and total borrows, 0 means no cap
+        uint256 supplyCap;
+        uint256 borrowCap;
+        mapping(address => uint256) shares;
+        // principal at the last borrow, together with the borrow index at that time
         mapping(address => uint256) borrows;
+        mapping(address => uint256) userBorrowIndexes;
         mapping(address => uint256) borrowTimestamps;
+        mapping(address => uint256) dueDates;
+        mapping(address => LoanState) loanStates;
+        mapping(uint8 => uint256) tierBorrowCaps;
     }
 
+    // depositAPR and borrowAPR are the current rates for the pool's utilization
     struct LiquidityPoolSimpleStruct {
+        uint256 poolId;
         uint256 liquidity;
         address tokenAddress;
         uint256 depositAPR;
         uint256 borrowAPR;
+        uint256 totalBorrows;
+        uint256 totalShares;
+        uint256 reserves;
+        uint256 utilization;
+        InterestRateModel rateModel;
+        uint8 minRiskLevel;
+        bool paused;
+        uint8 pausedActions;
+        uint256 supplyCap;
+        uint256 borrowCap;
     }
 
-contract LoanMaster {
-    // array of liquidity pools
-    LiquidityPoolStruct[] private liquidityPools;
-    address private owner;
+    // Reputation score signed off-chain by the trusted signer (EIP-712)
+    struct ScoreAttestation {
+        address borrower;
+        uint256 score;
+        uint8 riskLevel;
+        uint256 expiry;
+        uint256 nonce;
+    }
 
-    event LiquidityAdded(address indexed user, uint256 indexed poolIndex, uint256 amount);
-    event LiquidityRemoved(address indexed user, uint256 indexed poolIndex, uint256 amount, uint256 interest);
-    event Borrowed(address indexed user, uint256 indexed poolIndex, uint256 amount);
-    event BorrowRepaid(address indexed user, uint256 indexed poolIndex, uint256 principal);
-    event PoolCreated(uint256 indexed poolIndex, address indexed tokenAddress, uint256 depositAPR, uint256 borrowAPR);
+// The default admin (two-step transfer) manages roles, signer and reserves, pool managers configure pools and
+// guardians pause them. Only the admin can unpause.
+contract LoanMaster is EIP712, AccessControlDefaultAdminRules {
+    bytes32 private constant SCORE_ATTESTATION_TYPEHASH =
+        keccak256("ScoreAttestation(address borrower,uint256 score,uint8 riskLevel,uint256 expiry,uint256 nonce)");
+    bytes32 public constant POOL_MANAGER_ROLE = keccak256("POOL_MANAGER_ROLE");
+    bytes32 public constant GUARDIAN_ROLE = keccak256("GUARDIAN_ROLE");
+    uint8 public constant MAX_RISK_LEVEL = 10;
+    uint256 public constant DEFAULT_LOAN_TERM = 30 days;
+    uint256 public constant DEFAULT_GRACE_PERIOD = 7 days;
+    uint256 private constant BASIS_POINTS = 10000;
+    uint256 private constant INDEX_SCALE = 1e18;
+    // 1000% yearly, keeps a misconfigured model from overflowing the index
+    uint256 public constant MAX_BORROW_RATE = 100000;
+
+    // array of liquidity pools, a pool's id is its index
+    LiquidityPoolStruct[] private liquidityPools;
+    // ids of every pool lending a token, a token can have one pool per risk tier
+    mapping(address => uint256[]) private poolIdsByToken;
+    address private trustedSigner;
+    // attestation digests that were already used for a borrow
+    mapping(bytes32 => bool) private usedAttestations;
+
+    event LiquidityAdded(address indexed user, uint256 indexed poolId, uint256 assets, uint256 shares);
+    event LiquidityRemoved(address indexed user, uint256 indexed poolId, uint256 assets, uint256 shares);
+    event Borrowed(address indexed user, uint256 indexed poolId, uint256 amount);
+    event BorrowRepaid(address indexed user, uint256 indexed poolId, uint256 principal, uint256 interest);
+    event PoolCreated(uint256 indexed poolId, address indexed tokenAddress, uint8 minRiskLevel);
+    event RateModelUpdated(uint256 indexed poolId, InterestRateModel model);
+    event ReservesWithdrawn(uint256 indexed poolId, address indexed to, uint256 amount);
+    event TrustedSignerUpdated(address indexed previousSigner, address indexed newSigner);
+    event TierBorrowCapUpdated(uint256 indexed poolId, uint8 indexed riskLevel, uint256 cap);
+    event LoanTermsUpdated(uint256 indexed poolId, uint256 loanTerm, uint256 gracePeriod);
+    event LoanStateChanged(address indexed user, uint256 indexed poolId, LoanState from, LoanState to);
+    event PoolPauseUpdated(uint256 indexed poolId, bool paused);
+    event ActionPauseUpdated(uint256 indexed poolId, PoolAction indexed action, bool paused);
+    event PoolCapsUpdated(uint256 indexed poolId, uint256 supplyCap, uint256 borrowCap);
+    event EmergencyWithdrawn(address indexed user, uint256 indexed poolId, uint256 assets, uint256 shares);
 
     // Add custom errors for better debugging
     error PoolNotFound(address tokenAddress);
     error NoBorrowToRepay(address user);
     error InsufficientLiquidity(uint256 required, uint256 available);
-
-    modifier onlyOwner() {
-        require(msg.sender == owner, "Not the contract owner");
+    error InsufficientShares(uint256 required, uint256 available);
+    error InvalidRiskLevel(uint8 riskLevel);
+    error AttestationBorrowerMismatch(address borrower, address caller);
+    error AttestationExpired(uint256 expiry);
+    error AttestationAlreadyUsed(bytes32 digest);
+    error InvalidAttestationSigner(address recovered);
+    error BorrowCapExceeded(uint256 requested, uint256 cap);
+    error RiskLevelTooLow(uint8 riskLevel, uint8 minRiskLevel);
+    error InvalidLoanState(address borrower, LoanState state);
+    error LoanNotOverdue(address borrower, uint256 dueDate);
+    error GracePeriodNotOver(address borrower, uint256 graceEndsAt);
+    error InsufficientReserves(uint256 requested, uint256 available);
+    error PoolPaused(uint256 poolId);
+    error PoolNotPaused(uint256 poolId);
+    error ActionPaused(uint256 poolId, PoolAction action);
+    error RepayNotPausable(uint256 poolId);
+    error SupplyCapExceeded(uint256 requested, uint256 cap);
+    error PoolBorrowCapExceeded(uint256 requested, uint256 cap);
+
+    modifier whenActive(uint256 poolId, PoolAction action) {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+        _requireNotPaused(poolId, action);
         _;
     }
 
-    constructor() {
-        owner = msg.sender;
+    // The deployer starts out with every role and can hand them out afterwards
+    constructor(address initialSigner) EIP712("LoanMaster", "1") AccessControlDefaultAdminRules(0, msg.sender) {
+        _grantRole(POOL_MANAGER_ROLE, msg.sender);
+        _grantRole(GUARDIAN_ROLE, msg.sender);
+        trustedSigner = initialSigner;
+        emit TrustedSignerUpdated(address(0), initialSigner);
+    }
+
+    function setTrustedSigner(address newSigner) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(newSigner != address(0), "Invalid signer");
+        emit TrustedSignerUpdated(trustedSigner, newSigner);
+        trustedSigner = newSigner;
+    }
+
+    // Maximum outstanding borrow (in pool token units) for borrowers attested at `riskLevel`
+    function setTierBorrowCap(uint256 poolId, uint8 riskLevel, uint256 cap) external onlyRole(POOL_MANAGER_ROLE) {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+        if (riskLevel == 0 || riskLevel > MAX_RISK_LEVEL) {
+            revert InvalidRiskLevel(riskLevel);
+        }
+
+        liquidityPools[poolId].tierBorrowCaps[riskLevel] = cap;
+        emit TierBorrowCapUpdated(poolId, riskLevel, cap);
+    }
+
+    // New borrows must be repaid within `loanTerm`, after `gracePeriod` more the loan can be marked as defaulted
+    function setLoanTerms(
+        uint256 poolId,
+        uint256 loanTerm,
+        uint256 gracePeriod
+    ) external onlyRole(POOL_MANAGER_ROLE) {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+        require(loanTerm > 0, "Loan term must be greater than 0");
+
+        liquidityPools[poolId].loanTerm = loanTerm;
+        liquidityPools[poolId].gracePeriod = gracePeriod;
+        emit LoanTermsUpdated(poolId, loanTerm, gracePeriod);
+    }
+
+    function setRateModel(uint256 poolId, InterestRateModel calldata model) external onlyRole(POOL_MANAGER_ROLE) {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+        _validateRateModel(model);
+
+        // Interest up to now is charged at the old rates
+        _accrueInterest(liquidityPools[poolId]);
+        liquidityPools[poolId].rateModel = model;
+        emit RateModelUpdated(poolId, model);
+    }
+
+    // Pool-wide limits on total assets and total borrows, 0 removes the cap
+    function setPoolCaps(uint256 poolId, uint256 supplyCap, uint256 borrowCap) external onlyRole(POOL_MANAGER_ROLE) {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+
+        liquidityPools[poolId].supplyCap = supplyCap;
+        liquidityPools[poolId].borrowCap = borrowCap;
+        emit PoolCapsUpdated(poolId, supplyCap, borrowCap);
+    }
+
+    // Guardians can pause, only the admin can unpause
+    function setPoolPaused(uint256 poolId, bool paused) external onlyRole(paused ? GUARDIAN_ROLE : DEFAULT_ADMIN_ROLE) {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+
+        liquidityPools[poolId].paused = paused;
+        emit PoolPauseUpdated(poolId, paused);
+    }
+
+    function setActionPaused(
+        uint256 poolId,
+        PoolAction action,
+        bool paused
+    ) external onlyRole(paused ? GUARDIAN_ROLE : DEFAULT_ADMIN_ROLE) {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+        if (action == PoolAction.Repay) {
+            revert RepayNotPausable(poolId);
+        }
+        LiquidityPoolStruct storage pool = liquidityPools[poolId];
+
+        if (paused) {
+            pool.pausedActions |= uint8(1 << uint8(action));
+        } else {
+            pool.pausedActions &= ~uint8(1 << uint8(action));
+        }
+        emit ActionPauseUpdated(poolId, action, paused);
+    }
+
+    function withdrawReserves(uint256 poolId, uint256 amount, address to) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+        LiquidityPoolStruct storage pool = liquidityPools[poolId];
+
+        _accrueInterest(pool);
+        if (amount > pool.reserves) {
+            revert InsufficientReserves(amount, pool.reserves);
+        }
+        if (amount > pool.liquidity) {
+            revert InsufficientLiquidity(amount, pool.liquidity);
+        }
+
+        pool.reserves -= amount;
+        pool.liquidity -= amount;
+
+        IERC20(pool.tokenAddress).safeTransfer(to, amount);
+        emit ReservesWithdrawn(poolId, to, amount);
     }
 
     // Initialize pools with actual token addresses after deployment
-    function initializePools(address usdcToken, address wethToken, address wbtcToken) external onlyOwner {
+    function initializePools(
+        address usdcToken,
+        address wethToken,
+        address wbtcToken
+    ) external onlyRole(POOL_MANAGER_ROLE) {
         require(liquidityPools.length == 0, "Pools already initialized");
 
-        // USDC pool
-        LiquidityPoolStruct storage usdcPool = liquidityPools.push();
-        usdcPool.tokenAddress = usdcToken;
-        usdcPool.depositAPR = 500; // 5% (kept for display purposes)
-        usdcPool.borrowAPR = 0; // 0% - no interest on borrowing
-        emit PoolCreated(0, usdcToken, 500, 0);
-
-        // WETH pool
-        LiquidityPoolStruct storage wethPool = liquidityPools.push();
-        wethPool.tokenAddress = wethToken;
-        wethPool.depositAPR = 300; // 3% (kept for display purposes)
-        wethPool.borrowAPR = 0; // 0% - no interest on borrowing
-        emit PoolCreated(1, wethToken, 300, 0);
-
-        // WBTC pool
-        LiquidityPoolStruct storage wbtcPool = liquidityPools.push();
-        wbtcPool.tokenAddress = wbtcToken;
-        wbtcPool.depositAPR = 400; // 4% (kept for display purposes)
-        wbtcPool.borrowAPR = 0; // 0% - no interest on borrowing
-        emit PoolCreated(2, wbtcToken, 400, 0);
-    }
-
-    function createLiquidityPool(address tokenAddress, uint256 depositAPR, uint256 borrowAPR) external onlyOwner {
-        LiquidityPoolStruct storage newPool = liquidityPools.push();
-        newPool.tokenAddress = tokenAddress;
-        newPool.depositAPR = depositAPR;
-        newPool.borrowAPR = borrowAPR;
+        // USDC pool: 2% at 0%, 10% at the 80% kink, 85% fully utilized
+        _createPool(
+            usdcToken,
+            InterestRateModel({ baseRate: 200, slope1: 800, slope2: 7500, kink: 8000, reserveFactor: 1000 }),
+            1
+        );
+
+        // WETH pool: 1% at 0%, 8% at the 80% kink, 88% fully utilized
+        _createPool(
+            wethToken,
+            InterestRateModel({ baseRate: 100, slope1: 700, slope2: 8000, kink: 8000, reserveFactor: 1000 }),
+            1
+        );
+
+        // WBTC pool: 1% at 0%, 9% at the 70% kink, 109% fully utilized
+        _createPool(
+            wbtcToken,
+            InterestRateModel({ baseRate: 100, slope1: 800, slope2: 10000, kink: 7000, reserveFactor: 1500 }),
+            1
+        );
+    }
 
-        emit PoolCreated(liquidityPools.length - 1, tokenAddress, depositAPR, borrowAPR);
+    // Adds another pool, tokens can have several pools open to different risk levels
+    function createLiquidityPool(
+        address tokenAddress,
+        InterestRateModel calldata model,
+        uint8 minRiskLevel
+    ) external onlyRole(POOL_MANAGER_ROLE) {
+        _createPool(tokenAddress, model, minRiskLevel);
     }
 
-    function addLiquidity(uint256 poolIndex, uint256 amount) external {
-        require(poolIndex < liquidityPools.length, "Invalid pool index");
-        LiquidityPoolStruct storage pool = liquidityPools[poolIndex];
+    // Deposits `assets` and mints the matching pool shares (rounded down)
+    function deposit(
+        uint256 poolId,
+        uint256 assets
+    ) external whenActive(poolId, PoolAction.Deposit) returns (uint256 shares) {
+        LiquidityPoolStruct storage pool = liquidityPools[poolId];
 
-        require(amount > 0, "Amount must be greater than 0");
-        require(pool.deposits[msg.sender] == 0, "Must withdraw existing deposit first");
+        require(assets > 0, "Amount must be greater than 0");
+        _accrueInterest(pool);
+        shares = _convertToShares(pool, assets, Math.Rounding.Floor);
+        require(shares > 0, "Deposit too small");
+
+        _deposit(pool, poolId, assets, shares);
+    }
+
+    // Mints exactly `shares`, pulling the matching assets (rounded up)
+    function mint(
+        uint256 poolId,
+        uint256 shares
+    ) external whenActive(poolId, PoolAction.Deposit) returns (uint256 assets) {
+        LiquidityPoolStruct storage pool = liquidityPools[poolId];
 
-        IERC20(pool.tokenAddress).safeTransferFrom(msg.sender, address(this), amount);
-        pool.liquidity += amount;
-        pool.deposits[msg.sender] = amount;
-        pool.depositTimestamps[msg.sender] = block.timestamp;
+        require(shares > 0, "Shares must be greater than 0");
+        _accrueInterest(pool);
+        assets = _convertToAssets(pool, shares, Math.Rounding.Ceil);
 
-        emit LiquidityAdded(msg.sender, poolIndex, amount);
+        _deposit(pool, poolId, assets, shares);
     }
 
-    function removeLiquidity(uint256 poolIndex) external {
-        require(poolIndex < liquidityPools.length, "Invalid pool index");
-        LiquidityPoolStruct storage pool = liquidityPools[poolIndex];
+    // Withdraws exactly `assets`, burning the matching shares (rounded up)
+    function withdraw(
+        uint256 poolId,
+        uint256 assets
+    ) external whenActive(poolId, PoolAction.Withdraw) returns (uint256 shares) {
+        LiquidityPoolStruct storage pool = liquidityPools[poolId];
 
-        uint256 depositAmount = pool.deposits[msg.sender];
-        require(depositAmount > 0, "No deposit to withdraw");
+        require(assets > 0, "Amount must be greater than 0");
+        _accrueInterest(pool);
+        shares = _convertToShares(pool, assets, Math.Rounding.Ceil);
 
-        uint256 depositTime = pool.depositTimestamps[msg.sender];
-        uint256 timeElapsedInSeconds = block.timestamp - depositTime;
-        uint256 secondsInYear = 365 days;
+        _withdraw(pool, poolId, assets, shares);
+    }
 
-        // Calculate interest for deposits (deposits still earn interest)
-        uint256 interest = (depositAmount * pool.depositAPR * timeElapsedInSeconds) / (10000 * secondsInYear);
+    // Burns `shares` and withdraws the matching assets (rounded down)
+    function redeem(
+        uint256 poolId,
+        uint256 shares
+    ) external whenActive(poolId, PoolAction.Withdraw) returns (uint256 assets) {
+        LiquidityPoolStruct storage pool = liquidityPools[poolId];
 
-        uint256 totalAmount = depositAmount + interest;
-        require(pool.liquidity >= totalAmount, "Insufficient liquidity in the pool");
+        require(shares > 0, "Shares must be greater than 0");
+        _accrueInterest(pool);
+        assets = _convertToAssets(pool, shares, Math.Rounding.Floor);
+        require(assets > 0, "Redeem too small");
 
-        delete pool.deposits[msg.sender];
-        delete pool.depositTimestamps[msg.sender];
-        pool.liquidity -= totalAmount;
+        _withdraw(pool, poolId, assets, shares);
+    }
+
+    // Lets depositors of a paused pool take out as much of their position as the idle liquidity allows
+    function emergencyWithdraw(uint256 poolId) external returns (uint256 assets, uint256 shares) {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+        LiquidityPoolStruct storage pool = liquidityPools[poolId];
+        if (!pool.paused) {
+            revert PoolNotPaused(poolId);
+        }
+
+        _accrueInterest(pool);
+        shares = Math.min(pool.shares[msg.sender], _convertToShares(pool, pool.liquidity, Math.Rounding.Floor));
+        assets = _convertToAssets(pool, shares, Math.Rounding.Floor);
+        require(assets > 0, "Nothing to withdraw");
 
-        IERC20(pool.tokenAddress).safeTransfer(msg.sender, totalAmount);
-        emit LiquidityRemoved(msg.sender, poolIndex, depositAmount, interest);
+        pool.shares[msg.sender] -= shares;
+        pool.totalShares -= shares;
+        pool.liquidity -= assets;
+
+        IERC20(pool.tokenAddress).safeTransfer(msg.sender, assets);
+        emit EmergencyWithdrawn(msg.sender, poolId, assets, shares);
     }
 
-    function borrow(uint256 poolIndex, uint256 amount) external {
-        require(poolIndex < liquidityPools.length, "Invalid pool index");
-        LiquidityPoolStruct storage pool = liquidityPools[poolIndex];
+    function borrow(
+        uint256 poolId,
+        uint256 amount,
+        ScoreAttestation calldata attestation,
+        bytes calldata signature
+    ) external whenActive(poolId, PoolAction.Borrow) {
+        LiquidityPoolStruct storage pool = liquidityPools[poolId];
 
         require(amount > 0, "Amount must be greater than 0");
         require(pool.liquidity >= amount, "Insufficient liquidity in the pool");
 
-        pool.borrows[msg.sender] += amount;
-        pool.borrowTimestamps[msg.sender] = block.timestamp;
-        pool.liquidity -= amount;
+        _accrueInterest(pool);
 
-        IERC20(pool.tokenAddress).safeTransfer(msg.sender, amount);
-        emit Borrowed(msg.sender, poolIndex, amount);
-    }
+        // Top-ups are only allowed while the loan is within its term, the due date stays the same
+        LoanState state = _loanState(pool, msg.sender);
+        if (state == LoanState.Overdue || state == LoanState.Defaulted) {
+            revert InvalidLoanState(msg.sender, state);
+        }
 
-    function repayBorrow(address tokenId) external {
-        uint256 poolIndex = type(uint256).max;
+        _useAttestation(attestation, signature);
+        if (attestation.riskLevel < pool.minRiskLevel) {
+            revert RiskLevelTooLow(attestation.riskLevel, pool.minRiskLevel);
+        }
 
-        // Find the pool with the matching token address
-        for (uint256 i = 0; i < liquidityPools.length; i++) {
-            if (liquidityPools[i].tokenAddress == tokenId) {
-                poolIndex = i;
-                break;
-            }
+        // Interest accrued on an existing borrow is added to the principal before the index snapshot resets
+        uint256 newBorrow = _borrowBalance(pool, msg.sender, pool.borrowIndex) + amount;
+        uint256 cap = pool.tierBorrowCaps[attestation.riskLevel];
+        if (newBorrow > cap) {
+            revert BorrowCapExceeded(newBorrow, cap);
+        }
+        if (pool.borrowCap != 0 && pool.totalBorrows + amount > pool.borrowCap) {
+            revert PoolBorrowCapExceeded(pool.totalBorrows + amount, pool.borrowCap);
         }
 
-        if (poolIndex == type(uint256).max) {
-            revert PoolNotFound(tokenId);
+        pool.totalBorrows += amount;
+        pool.borrows[msg.sender] = newBorrow;
+        pool.userBorrowIndexes[msg.sender] = pool.borrowIndex;
+        pool.borrowTimestamps[msg.sender] = block.timestamp;
+        pool.liquidity -= amount;
+
+        if (state != LoanState.Active) {
+            pool.dueDates[msg.sender] = block.timestamp + pool.loanTerm;
+            _setLoanState(pool, poolId, msg.sender, LoanState.Active);
         }
 
-        LiquidityPoolStruct storage pool = liquidityPools[poolIndex];
+        IERC20(pool.tokenAddress).safeTransfer(msg.sender, amount);
+        emit Borrowed(msg.sender, poolId, amount);
+    }
+
+    function repayBorrow(uint256 poolId) external whenActive(poolId, PoolAction.Repay) {
+        LiquidityPoolStruct storage pool = liquidityPools[poolId];
 
         uint256 borrowedAmount = pool.borrows[msg.sender];
         if (borrowedAmount == 0) {
             revert NoBorrowToRepay(msg.sender);
         }
 
-        // No interest calculation - just repay the principal amount
-        uint256 totalRepayAmount = borrowedAmount;
+        _accrueInterest(pool);
+        uint256 totalRepayAmount = _borrowBalance(pool, msg.sender, pool.borrowIndex);
+        uint256 interest = totalRepayAmount - borrowedAmount;
+
+        // Record the overdue transition first so late repayments can be told apart from on-time ones
+        if (pool.loanStates[msg.sender] == LoanState.Active && _loanState(pool, msg.sender) == LoanState.Overdue) {
+            _setLoanState(pool, poolId, msg.sender, LoanState.Overdue);
+        }
+        // A defaulted borrow was already written off the pool's assets
+        if (pool.loanStates[msg.sender] != LoanState.Defaulted) {
+            _reduceTotalBorrows(pool, totalRepayAmount);
+        }
 
         // Clear the borrow before external calls
         delete pool.borrows[msg.sender];
+        delete pool.userBorrowIndexes[msg.sender];
         delete pool.borrowTimestamps[msg.sender];
+        delete pool.dueDates[msg.sender];
+        _setLoanState(pool, poolId, msg.sender, LoanState.Repaid);
 
-        // Add back the principal to liquidity
-        pool.liquidity += borrowedAmount;
+        // Principal and interest go back to the pool, the interest raises the value of every share
+        pool.liquidity += totalRepayAmount;
 
-        // Transfer only the borrowed amount (no interest)
-        IERC20(tokenId).safeTransferFrom(msg.sender, address(this), totalRepayAmount);
+        IERC20(pool.tokenAddress).safeTransferFrom(msg.sender, address(this), totalRepayAmount);
 
-        // Updated event - no interest parameter
-        emit BorrowRepaid(msg.sender, poolIndex, borrowedAmount);
+        emit BorrowRepaid(msg.sender, poolId, borrowedAmount, interest);
     }
 
-    // Getters
-    function getLiquidityPoolCount() external view returns (uint256) {
-        return liquidityPools.length;
+    function _deposit(LiquidityPoolStruct storage pool, uint256 poolId, uint256 assets, uint256 shares) private {
+        uint256 newTotalAssets = _totalAssets(pool) + assets;
+        if (pool.supplyCap != 0 && newTotalAssets > pool.supplyCap) {
+            revert SupplyCapExceeded(newTotalAssets, pool.supplyCap);
+        }
+
+        IERC20(pool.tokenAddress).safeTransferFrom(msg.sender, address(this), assets);
+        pool.liquidity += assets;
+        pool.totalShares += shares;
+        pool.shares[msg.sender] += shares;
+
+        emit LiquidityAdded(msg.sender, poolId, assets, shares);
     }
 
-    function getLiquidityPoolByToken(address tokenId) external view returns (LiquidityPoolSimpleStruct memory) {
-        for (uint256 i = 0; i < liquidityPools.length; i++) {
-            if (liquidityPools[i].tokenAddress == tokenId) {
-                return
-                    LiquidityPoolSimpleStruct({
-                    liquidity: liquidityPools[i].liquidity,
-                    tokenAddress: liquidityPools[i].tokenAddress,
-                    depositAPR: liquidityPools[i].depositAPR,
-                    borrowAPR: liquidityPools[i].borrowAPR
-                });
-            }
+    function _withdraw(LiquidityPoolStruct storage pool, uint256 poolId, uint256 assets, uint256 shares) private {
+        if (shares > pool.shares[msg.sender]) {
+            revert InsufficientShares(shares, pool.shares[msg.sender]);
+        }
+        // Only idle liquidity can leave the pool, borrowed assets come back on repayment
+        if (assets > pool.liquidity) {
+            revert InsufficientLiquidity(assets, pool.liquidity);
         }
-        revert("Pool not found for token address");
+
+        pool.shares[msg.sender] -= shares;
+        pool.totalShares -= shares;
+        pool.liquidity -= assets;
+
+        IERC20(pool.tokenAddress).safeTransfer(msg.sender, assets);
+        emit LiquidityRemoved(msg.sender, poolId, assets, shares);
     }
 
-    function getUserDeposit(address tokenId, address user) external view returns (uint256) {
-        for (uint256 i = 0; i < liquidityPools.length; i++) {
-            if (liquidityPools[i].tokenAddress == tokenId) {
-                return liquidityPools[i].deposits[user];
-            }
+    function _createPool(address tokenAddress, InterestRateModel memory model, uint8 minRiskLevel) private {
+        require(tokenAddress != address(0), "Invalid token address");
+        if (minRiskLevel == 0 || minRiskLevel > MAX_RISK_LEVEL) {
+            revert InvalidRiskLevel(minRiskLevel);
         }
-        revert("Pool not found for token address");
+        _validateRateModel(model);
+
+        uint256 poolId = liquidityPools.length;
+        LiquidityPoolStruct storage newPool = liquidityPools.push();
+        newPool.tokenAddress = tokenAddress;
+        newPool.rateModel = model;
+        newPool.borrowIndex = INDEX_SCALE;
+        newPool.lastAccrualTime = block.timestamp;
+        newPool.loanTerm = DEFAULT_LOAN_TERM;
+        newPool.gracePeriod = DEFAULT_GRACE_PERIOD;
+        newPool.minRiskLevel = minRiskLevel;
+        poolIdsByToken[tokenAddress].push(poolId);
+
+        emit PoolCreated(poolId, tokenAddress, minRiskLevel);
+        emit RateModelUpdated(poolId, model);
     }
 
-    function getUserBorrow(address tokenId, address user) external view returns (uint256) {
-        for (uint256 i = 0; i < liquidityPools.length; i++) {
-            if (liquidityPools[i].tokenAddress == tokenId) {
-                return liquidityPools[i].borrows[user];
-            }
+    // Repayments stay open while the pool is paused and can't be paused on their own, so borrowers can always
+    // close their loans before they go overdue or default
+    function _requireNotPaused(uint256 poolId, PoolAction action) private view {
+        LiquidityPoolStruct storage pool = liquidityPools[poolId];
+        if (pool.paused && action != PoolAction.Repay) {
+            revert PoolPaused(poolId);
+        }
+        if (pool.pausedActions & (1 << uint8(action)) != 0) {
+            revert ActionPaused(poolId, action);
         }
-        revert("Pool not found for token address");
     }
 
-    function getTotalLiquidity(address tokenId) external view returns (uint256) {
-        for (uint256 i = 0; i < liquidityPools.length; i++) {
-            if (liquidityPools[i].tokenAddress == tokenId) {
-                return liquidityPools[i].liquidity;
-            }
+    function _validateRateModel(InterestRateModel memory model) private pure {
+        require(model.kink > 0 && model.kink < BASIS_POINTS, "Invalid kink");
+        require(model.reserveFactor <= BASIS_POINTS, "Invalid reserve factor");
+        require(model.baseRate + model.slope1 + model.slope2 <= MAX_BORROW_RATE, "Borrow rate too high");
+    }
+
+    function _utilization(uint256 liquidity, uint256 totalBorrows, uint256 reserves) private pure returns (uint256) {
+        if (totalBorrows == 0 || liquidity + totalBorrows <= reserves) {
+            return 0;
         }
-        revert("Pool not found for token address");
+        return Math.min((totalBorrows * BASIS_POINTS) / (liquidity + totalBorrows - reserves), BASIS_POINTS);
     }
 
-    function getOwner() external view returns (address) {
-        return owner;
+    function _borrowRate(InterestRateModel memory model, uint256 utilization) private pure returns (uint256) {
+        if (utilization <= model.kink) {
+            return model.baseRate + (model.slope1 * utilization) / model.kink;
+        }
+        return
+            model.baseRate +
+            model.slope1 +
+            (model.slope2 * (utilization - model.kink)) / (BASIS_POINTS - model.kink);
+    }
+
+    // What depositors earn: the borrow rate spread over all assets, minus the reserve cut
+    function _supplyRate(InterestRateModel memory model, uint256 utilization) private pure returns (uint256) {
+        return
+            (_borrowRate(model, utilization) * utilization * (BASIS_POINTS - model.reserveFactor)) /
+            (BASIS_POINTS * BASIS_POINTS);
+    }
+
+    // Pool totals with interest accrued up to the current block, without writing them
+    function _accruedTotals(
+        LiquidityPoolStruct storage pool
+    ) private view returns (uint256 totalBorrows, uint256 reserves, uint256 borrowIndex) {
+        totalBorrows = pool.totalBorrows;
+        reserves = pool.reserves;
+        borrowIndex = pool.borrowIndex;
+
+        uint256 timeElapsedInSeconds = block.timestamp - pool.lastAccrualTime;
+        if (timeElapsedInSeconds == 0) {
+            return (totalBorrows, reserves, borrowIndex);
+        }
+
+        uint256 rate = _borrowRate(pool.rateModel, _utilization(pool.liquidity, totalBorrows, reserves));
+        uint256 interest = (totalBorrows * rate * timeElapsedInSeconds) / (BASIS_POINTS * 365 days);
+
+        totalBorrows += interest;
+        reserves += (interest * pool.rateModel.reserveFactor) / BASIS_POINTS;
+        borrowIndex += (borrowIndex * rate * timeElapsedInSeconds) / (BASIS_POINTS * 365 days);
+    }
+
+    // Must run before anything that reads or changes the pool's borrows, shares or liquidity
+    function _accrueInterest(LiquidityPoolStruct storage pool) private {
+        (pool.totalBorrows, pool.reserves, pool.borrowIndex) = _accruedTotals(pool);
+        pool.lastAccrualTime = block.timestamp;
     }
 
-    // New function to get exact repayment amount (same as borrowed amount)
-    function getRepaymentAmount(address tokenId, address user) external view returns (uint256) {
-        for (uint256 i = 0; i < liquidityPools.length; i++) {
-            if (liquidityPools[i].tokenAddress == tokenId) {
-                return liquidityPools[i].borrows[user]; // No interest, just return borrowed amount
-            }
+    // Rounded up so the pool never collects less than it is owed
+    function _borrowBalance(
+        LiquidityPoolStruct storage pool,
+        address user,
+        uint256 borrowIndex
+    ) private view returns (uint256) {
+        uint256 principal = pool.borrows[user];
+        if (principal == 0) {
+            return 0;
         }
-        revert("Pool not found for token address");
+        return Math.mulDiv(principal, borrowIndex, pool.userBorrowIndexes[user], Math.Rounding.Ceil);
+    }
+
+    // Individual balances round up, so their sum can exceed the pool total by a few units
+    function _reduceTotalBorrows(LiquidityPoolStruct storage pool, uint256 amount) private {
+        pool.totalBorrows -= Math.min(amount, pool.totalBorrows);
+    }
+
+    function _totalAssets(LiquidityPoolStruct storage pool) private view returns (uint256) {
+        (uint256 totalBorrows, uint256 reserves, ) = _accruedTotals(pool);
+        return pool.liquidity + totalBorrows - reserves;
+    }
+
+    // The virtual share and asset (+1) keep the first depositor from inflating the share price
+    function _convertToShares(
+        LiquidityPoolStruct storage pool,
+        uint256 assets,
+        Math.Rounding rounding
+    ) private view returns (uint256) {
+        return Math.mulDiv(assets, pool.totalShares + 1, _totalAssets(pool) + 1, rounding);
+    }
+
+    function _convertToAssets(
+        LiquidityPoolStruct storage pool,
+        uint256 shares,
+        Math.Rounding rounding
+    ) private view returns (uint256) {
+        return Math.mulDiv(shares, _totalAssets(pool) + 1, pool.totalShares + 1, rounding);
+    }
+
+    // Anyone can flag a loan that is past its due date
+    function markOverdue(uint256 poolId, address borrower) external {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+        LiquidityPoolStruct storage pool = liquidityPools[poolId];
+
+        if (pool.loanStates[borrower] != LoanState.Active) {
+            revert InvalidLoanState(borrower, pool.loanStates[borrower]);
+        }
+        if (block.timestamp <= pool.dueDates[borrower]) {
+            revert LoanNotOverdue(borrower, pool.dueDates[borrower]);
+        }
+
+        _setLoanState(pool, poolId, borrower, LoanState.Overdue);
+    }
+
+    // Anyone can default a loan once the grace period is over, the debt is written off the pool's assets
+    function markDefaulted(uint256 poolId, address borrower) external {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+        LiquidityPoolStruct storage pool = liquidityPools[poolId];
+
+        LoanState state = _loanState(pool, borrower);
+        if (state != LoanState.Overdue) {
+            revert InvalidLoanState(borrower, state);
+        }
+        uint256 graceEndsAt = pool.dueDates[borrower] + pool.gracePeriod;
+        if (block.timestamp <= graceEndsAt) {
+            revert GracePeriodNotOver(borrower, graceEndsAt);
+        }
+
+        if (pool.loanStates[borrower] == LoanState.Active) {
+            _setLoanState(pool, poolId, borrower, LoanState.Overdue);
+        }
+        _setLoanState(pool, poolId, borrower, LoanState.Defaulted);
+
+        // The debt stays on record so a late repayment still goes back to the depositors
+        _accrueInterest(pool);
+        _reduceTotalBorrows(pool, _borrowBalance(pool, borrower, pool.borrowIndex));
+    }
+
+    function _setLoanState(LiquidityPoolStruct storage pool, uint256 poolId, address user, LoanState to) private {
+        emit LoanStateChanged(user, poolId, pool.loanStates[user], to);
+        pool.loanStates[user] = to;
+    }
+
+    // Stored state, with active loans past their due date reported as overdue
+    function _loanState(LiquidityPoolStruct storage pool, address user) private view returns (LoanState) {
+        LoanState state = pool.loanStates[user];
+        if (state == LoanState.Active && block.timestamp > pool.dueDates[user]) {
+            return LoanState.Overdue;
+        }
+        return state;
+    }
+
+    // Verifies the attestation was issued by the trusted signer for the caller and marks it as used
+    function _useAttestation(ScoreAttestation calldata attestation, bytes calldata signature) private {
+        if (attestation.borrower != msg.sender) {
+            revert AttestationBorrowerMismatch(attestation.borrower, msg.sender);
+        }
+        if (attestation.expiry < block.timestamp) {
+            revert AttestationExpired(attestation.expiry);
+        }
+        if (attestation.riskLevel == 0 || attestation.riskLevel > MAX_RISK_LEVEL) {
+            revert InvalidRiskLevel(attestation.riskLevel);
+        }
+
+        bytes32 digest = hashScoreAttestation(attestation);
+        if (usedAttestations[digest]) {
+            revert AttestationAlreadyUsed(digest);
+        }
+
+        address recovered = ECDSA.recover(digest, signature);
+        if (recovered != trustedSigner) {
+            revert InvalidAttestationSigner(recovered);
+        }
+
+        usedAttestations[digest] = true;
+    }
+
+    // Getters
+    function hashScoreAttestation(ScoreAttestation calldata attestation) public view returns (bytes32) {
+        return
+            _hashTypedDataV4(
+                keccak256(
+                    abi.encode(
+                        SCORE_ATTESTATION_TYPEHASH,
+                        attestation.borrower,
+                        attestation.score,
+                        attestation.riskLevel,
+                        attestation.expiry,
+                        attestation.nonce
+                    )
+                )
+            );
+    }
+
+    function isAttestationUsed(bytes32 digest) external view returns (bool) {
+        return usedAttestations[digest];
+    }
+
+    function getTrustedSigner() external view returns (address) {
+        return trustedSigner;
+    }
+
+    function getTierBorrowCap(uint256 poolId, uint8 riskLevel) external view returns (uint256) {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+        return liquidityPools[poolId].tierBorrowCaps[riskLevel];
+    }
+
+    function totalAssets(uint256 poolId) external view returns (uint256) {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+        return _totalAssets(liquidityPools[poolId]);
+    }
+
+    function convertToShares(uint256 poolId, uint256 assets) external view returns (uint256) {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+        return _convertToShares(liquidityPools[poolId], assets, Math.Rounding.Floor);
+    }
+
+    function convertToAssets(uint256 poolId, uint256 shares) external view returns (uint256) {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+        return _convertToAssets(liquidityPools[poolId], shares, Math.Rounding.Floor);
+    }
+
+    function previewDeposit(uint256 poolId, uint256 assets) external view returns (uint256) {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+        return _convertToShares(liquidityPools[poolId], assets, Math.Rounding.Floor);
+    }
+
+    function previewMint(uint256 poolId, uint256 shares) external view returns (uint256) {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+        return _convertToAssets(liquidityPools[poolId], shares, Math.Rounding.Ceil);
+    }
+
+    function previewWithdraw(uint256 poolId, uint256 assets) external view returns (uint256) {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+        return _convertToShares(liquidityPools[poolId], assets, Math.Rounding.Ceil);
+    }
+
+    function previewRedeem(uint256 poolId, uint256 shares) external view returns (uint256) {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+        return _convertToAssets(liquidityPools[poolId], shares, Math.Rounding.Floor);
+    }
+
+    // Assets the user can withdraw right now, limited by the pool's idle liquidity
+    function maxWithdraw(uint256 poolId, address user) external view returns (uint256) {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+        LiquidityPoolStruct storage pool = liquidityPools[poolId];
+        return Math.min(_convertToAssets(pool, pool.shares[user], Math.Rounding.Floor), pool.liquidity);
+    }
+
+    // Shares the user can redeem right now, limited by the pool's idle liquidity
+    function maxRedeem(uint256 poolId, address user) external view returns (uint256) {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+        LiquidityPoolStruct storage pool = liquidityPools[poolId];
+        return Math.min(pool.shares[user], _convertToShares(pool, pool.liquidity, Math.Rounding.Floor));
+    }
+
+    function getUserShares(uint256 poolId, address user) external view returns (uint256) {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+        return liquidityPools[poolId].shares[user];
+    }
+
+    function getRateModel(uint256 poolId) external view returns (InterestRateModel memory) {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+        return liquidityPools[poolId].rateModel;
+    }
+
+    // Borrow balances grow by the ratio of this index to the index at the time of the borrow
+    function getBorrowIndex(uint256 poolId) external view returns (uint256) {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+        (, , uint256 borrowIndex) = _accruedTotals(liquidityPools[poolId]);
+        return borrowIndex;
+    }
+
+    function getLiquidityPoolCount() external view returns (uint256) {
+        return liquidityPools.length;
+    }
+
+    // Every pool lending `tokenAddress`, in creation order
+    function getPoolIdsByToken(address tokenAddress) external view returns (uint256[] memory) {
+        if (poolIdsByToken[tokenAddress].length == 0) {
+            revert PoolNotFound(tokenAddress);
+        }
+        return poolIdsByToken[tokenAddress];
+    }
+
+    function getLiquidityPool(uint256 poolId) external view returns (LiquidityPoolSimpleStruct memory) {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+        LiquidityPoolStruct storage pool = liquidityPools[poolId];
+        (uint256 totalBorrows, uint256 reserves, ) = _accruedTotals(pool);
+        uint256 utilization = _utilization(pool.liquidity, totalBorrows, reserves);
+
+        return
+            LiquidityPoolSimpleStruct({
+                poolId: poolId,
+                liquidity: pool.liquidity,
+                tokenAddress: pool.tokenAddress,
+                depositAPR: _supplyRate(pool.rateModel, utilization),
+                borrowAPR: _borrowRate(pool.rateModel, utilization),
+                totalBorrows: totalBorrows,
+                totalShares: pool.totalShares,
+                reserves: reserves,
+                utilization: utilization,
+                rateModel: pool.rateModel,
+                minRiskLevel: pool.minRiskLevel,
+                paused: pool.paused,
+                pausedActions: pool.pausedActions,
+                supplyCap: pool.supplyCap,
+                borrowCap: pool.borrowCap
+            });
+    }
+
+    // Current asset value of the user's shares
+    function getUserDeposit(uint256 poolId, address user) external view returns (uint256) {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+        LiquidityPoolStruct storage pool = liquidityPools[poolId];
+        return _convertToAssets(pool, pool.shares[user], Math.Rounding.Floor);
+    }
+
+    function getUserBorrow(uint256 poolId, address user) external view returns (uint256) {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+        return liquidityPools[poolId].borrows[user];
+    }
+
+    function getTotalLiquidity(uint256 poolId) external view returns (uint256) {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+        return liquidityPools[poolId].liquidity;
+    }
+
+    function getOwner() external view returns (address) {
+        return owner();
+    }
+
+    function isActionPaused(uint256 poolId, PoolAction action) external view returns (bool) {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+        LiquidityPoolStruct storage pool = liquidityPools[poolId];
+        return (pool.paused && action != PoolAction.Repay) || pool.pausedActions & (1 << uint8(action)) != 0;
+    }
+
+    function getLoanState(uint256 poolId, address user) external view returns (LoanState) {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+        return _loanState(liquidityPools[poolId], user);
+    }
+
+    function getDueDate(uint256 poolId, address user) external view returns (uint256) {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+        return liquidityPools[poolId].dueDates[user];
+    }
+
+    function getLoanTerms(uint256 poolId) external view returns (uint256 loanTerm, uint256 gracePeriod) {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+        return (liquidityPools[poolId].loanTerm, liquidityPools[poolId].gracePeriod);
+    }
+
+    function getBorrowTimestamp(uint256 poolId, address user) external view returns (uint256) {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+        return liquidityPools[poolId].borrowTimestamps[user];
+    }
+
+    // Principal plus interest accrued up to the current block
+    function getRepaymentAmount(uint256 poolId, address user) external view returns (uint256) {
+        require(poolId < liquidityPools.length, "Invalid pool id");
+        (, , uint256 borrowIndex) = _accruedTotals(liquidityPools[poolId]);
+        return _borrowBalance(liquidityPools[poolId], user, borrowIndex);
     }
-}
\ No newline at end of file
+}
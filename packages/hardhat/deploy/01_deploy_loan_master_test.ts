@@ -1,6 +1,15 @@
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 import { DeployFunction } from "hardhat-deploy/types";
 
+// Alpha borrowing cap (~$1.50) per pool at the top risk level, in token units. Lower levels get a
+// proportional share of it, level 1 can borrow a tenth of what level 10 can.
+const ALPHA_TIER_CAPS = {
+  usdc: 1_500_000n, // 1.5 USDC
+  weth: 600_000_000_000_000n, // 0.0006 WETH
+  wbtc: 1_500n, // 0.000015 WBTC
+};
+const MAX_RISK_LEVEL = 10;
+
 /**
  * Deploys the LoanMaster contract, deploys (or references) tokens,
  * adds initial liquidity, and funds all user accounts on local networks.
@@ -15,9 +24,12 @@ const deployLoanMaster: DeployFunction = async function (hre: HardhatRuntimeEnvi
   // ──────────────────────────────────────────────────────
   // 1. Deploy LoanMaster
   // ──────────────────────────────────────────────────────
+  // Address whose EIP-712 score attestations are accepted (the reputation API signer)
+  const attestationSigner = process.env.ATTESTATION_SIGNER_ADDRESS || deployer;
+
   const loanMaster = await deploy("LoanMaster", {
     from: deployer,
-    args: [],
+    args: [attestationSigner],
     log: true,
     autoMine: true,
   });
@@ -85,6 +97,15 @@ const deployLoanMaster: DeployFunction = async function (hre: HardhatRuntimeEnvi
   await (await loanMasterInstance.initializePools(usdcAddress, wethAddress, wbtcAddress)).wait();
   console.log("✅ Liquidity pools initialised!");
 
+  console.log("\n📡 Setting borrow caps per risk level...");
+  for (let riskLevel = 1; riskLevel <= MAX_RISK_LEVEL; riskLevel++) {
+    const share = (cap: bigint) => (cap * BigInt(riskLevel)) / BigInt(MAX_RISK_LEVEL);
+    await (await loanMasterInstance.setTierBorrowCap(0, riskLevel, share(ALPHA_TIER_CAPS.usdc))).wait();
+    await (await loanMasterInstance.setTierBorrowCap(1, riskLevel, share(ALPHA_TIER_CAPS.weth))).wait();
+    await (await loanMasterInstance.setTierBorrowCap(2, riskLevel, share(ALPHA_TIER_CAPS.wbtc))).wait();
+  }
+  console.log(`✅ Borrow caps set, attestation signer: ${attestationSigner}`);
+
   // ──────────────────────────────────────────────────────
   // 4. Local mint & liquidity
   // ──────────────────────────────────────────────────────
@@ -104,16 +125,16 @@ const deployLoanMaster: DeployFunction = async function (hre: HardhatRuntimeEnvi
     await (await wethContract.approve(loanMaster.address, "500000000000000000000")).wait(); // 500
     await (await wbtcContract.approve(loanMaster.address, "500000000")).wait(); // 5
 
-    await (await loanMasterInstance.addLiquidity(0, "500000000000")).wait(); // USDC
-    await (await loanMasterInstance.addLiquidity(1, "500000000000000000000")).wait(); // WETH
-    await (await loanMasterInstance.addLiquidity(2, "500000000")).wait(); // WBTC
+    await (await loanMasterInstance.deposit(0, "500000000000")).wait(); // USDC
+    await (await loanMasterInstance.deposit(1, "500000000000000000000")).wait(); // WETH
+    await (await loanMasterInstance.deposit(2, "500000000")).wait(); // WBTC
     console.log("✅ Liquidity added!");
 
     // Display pool balances
     const format = ethers.formatUnits;
-    const usdcBal = await loanMasterInstance.getTotalLiquidity(usdcAddress);
-    const wethBal = await loanMasterInstance.getTotalLiquidity(wethAddress);
-    const wbtcBal = await loanMasterInstance.getTotalLiquidity(wbtcAddress);
+    const usdcBal = await loanMasterInstance.getTotalLiquidity(0);
+    const wethBal = await loanMasterInstance.getTotalLiquidity(1);
+    const wbtcBal = await loanMasterInstance.getTotalLiquidity(2);
 
     console.log("\n📊 Pool liquidity:");
     console.log(`   • USDC: ${format(usdcBal, 6)} (${usdcBal})`);
@@ -1,12 +1,37 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { LoanMaster } from "../typechain-types";
+import { ScoreAttestationStruct } from "../typechain-types/contracts/LoanMaster";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
 
+const MAX_RISK_LEVEL = 10;
+const DAY = 24 * 60 * 60;
+
+const SECONDS_IN_YEAR = 365n * 24n * 60n * 60n;
+
+// Mirrors the LoanState enum in LoanMaster.sol
+const LoanState = { None: 0, Active: 1, Overdue: 2, Defaulted: 3, Repaid: 4 };
+
+// Rate models set by initializePools, in basis points
+const USDC_RATE_MODEL = { baseRate: 200n, slope1: 800n, slope2: 7500n, kink: 8000n, reserveFactor: 1000n };
+const WETH_RATE_MODEL = { baseRate: 100n, slope1: 700n, slope2: 8000n, kink: 8000n, reserveFactor: 1000n };
+const WBTC_RATE_MODEL = { baseRate: 100n, slope1: 800n, slope2: 10000n, kink: 7000n, reserveFactor: 1500n };
+
+// Same math and rounding as LoanMaster
+const borrowRate = (model: typeof USDC_RATE_MODEL, utilization: bigint) =>
+  utilization <= model.kink
+    ? model.baseRate + (model.slope1 * utilization) / model.kink
+    : model.baseRate + model.slope1 + (model.slope2 * (utilization - model.kink)) / (10000n - model.kink);
+const growIndex = (index: bigint, rate: bigint, seconds: bigint) =>
+  index + (index * rate * seconds) / (10000n * SECONDS_IN_YEAR);
+const borrowBalance = (principal: bigint, index: bigint, userIndex: bigint) =>
+  (principal * index + userIndex - 1n) / userIndex;
+
 describe("LoanMaster", function () {
   let loanMaster: LoanMaster;
   let owner: HardhatEthersSigner;
   let user: HardhatEthersSigner;
+  let attester: HardhatEthersSigner;
   let mockUSDC: any; // Will be implemented as ERC20 token
   let mockWETH: any;
   let mockWBTC: any;
@@ -14,14 +39,47 @@ describe("LoanMaster", function () {
   let wethAddress: string;
   let wbtcAddress: string;
 
+  // Signs an EIP-712 score attestation the same way the reputation API does
+  const signAttestation = async (
+    signer: HardhatEthersSigner,
+    overrides: Partial<ScoreAttestationStruct> = {},
+  ): Promise<[ScoreAttestationStruct, string]> => {
+    const latestBlock = await ethers.provider.getBlock("latest");
+    const attestation: ScoreAttestationStruct = {
+      borrower: await user.getAddress(),
+      score: 62,
+      riskLevel: 6,
+      expiry: BigInt(latestBlock!.timestamp + 600),
+      nonce: ethers.toBigInt(ethers.randomBytes(32)),
+      ...overrides,
+    };
+    const domain = {
+      name: "LoanMaster",
+      version: "1",
+      chainId: (await ethers.provider.getNetwork()).chainId,
+      verifyingContract: await loanMaster.getAddress(),
+    };
+    const types = {
+      ScoreAttestation: [
+        { name: "borrower", type: "address" },
+        { name: "score", type: "uint256" },
+        { name: "riskLevel", type: "uint8" },
+        { name: "expiry", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+      ],
+    };
+    const signature = await signer.signTypedData(domain, types, attestation);
+    return [attestation, signature];
+  };
+
   beforeEach(async () => {
-    [owner, user] = await ethers.getSigners();
+    [owner, user, , attester] = await ethers.getSigners();
 
     // Deploy mock ERC20 tokens
     const MockERC20Factory = await ethers.getContractFactory("MockERC20");
-    mockUSDC = await MockERC20Factory.deploy("Mock USDC", "USDC", 6, 1000000);
-    mockWETH = await MockERC20Factory.deploy("Mock WETH", "WETH", 18, 1000);
-    mockWBTC = await MockERC20Factory.deploy("Mock WBTC", "WBTC", 8, 100);
+    mockUSDC = await MockERC20Factory.deploy("Mock USDC", "USDC", 6);
+    mockWETH = await MockERC20Factory.deploy("Mock WETH", "WETH", 18);
+    mockWBTC = await MockERC20Factory.deploy("Mock WBTC", "WBTC", 8);
 
     usdcAddress = await mockUSDC.getAddress();
     wethAddress = await mockWETH.getAddress();
@@ -29,13 +87,18 @@ describe("LoanMaster", function () {
 
     // Deploy LoanMaster contract
     const LoanMasterFactory = await ethers.getContractFactory("LoanMaster");
-    loanMaster = (await LoanMasterFactory.deploy()) as LoanMaster;
+    loanMaster = (await LoanMasterFactory.deploy(await attester.getAddress())) as LoanMaster;
 
     // Initialize pools
     await loanMaster.initializePools(usdcAddress, wethAddress, wbtcAddress);
 
-    // Create an additional pool for testing
-    await loanMaster.createLiquidityPool(usdcAddress, 500, 1000);
+    // Allow up to 1000 USDC of outstanding borrows for every risk level in the USDC pool
+    for (let riskLevel = 1; riskLevel <= MAX_RISK_LEVEL; riskLevel++) {
+      await loanMaster.setTierBorrowCap(0, riskLevel, ethers.parseUnits("1000", 6));
+    }
+
+    // Create a second USDC pool for the best rated borrowers
+    await loanMaster.createLiquidityPool(usdcAddress, USDC_RATE_MODEL, 8);
   });
 
   describe("Deployment", function () {
@@ -43,19 +106,24 @@ describe("LoanMaster", function () {
       expect(await loanMaster.getLiquidityPoolCount()).to.equal(4);
     });
 
-    it("Should have proper APR settings for each pool", async function () {
-      const usdcPool = await loanMaster.getLiquidityPoolByToken(usdcAddress);
-      const wethPool = await loanMaster.getLiquidityPoolByToken(wethAddress);
-      const wbtcPool = await loanMaster.getLiquidityPoolByToken(wbtcAddress);
+    it("Should have proper rate models for each pool", async function () {
+      const usdcPool = await loanMaster.getLiquidityPool(0);
+      const wethPool = await loanMaster.getLiquidityPool(1);
+      const wbtcPool = await loanMaster.getLiquidityPool(2);
+
+      expect(await loanMaster.getRateModel(0)).to.deep.equal(Object.values(USDC_RATE_MODEL));
+      expect(await loanMaster.getRateModel(1)).to.deep.equal(Object.values(WETH_RATE_MODEL));
+      expect(await loanMaster.getRateModel(2)).to.deep.equal(Object.values(WBTC_RATE_MODEL));
 
-      expect(usdcPool.depositAPR).to.equal(500);
-      expect(usdcPool.borrowAPR).to.equal(1000);
+      // Unused pools charge the base rate and pay depositors nothing
+      expect(usdcPool.borrowAPR).to.equal(200);
+      expect(usdcPool.depositAPR).to.equal(0);
 
-      expect(wethPool.depositAPR).to.equal(300);
-      expect(wethPool.borrowAPR).to.equal(800);
+      expect(wethPool.borrowAPR).to.equal(100);
+      expect(wethPool.depositAPR).to.equal(0);
 
-      expect(wbtcPool.depositAPR).to.equal(400);
-      expect(wbtcPool.borrowAPR).to.equal(900);
+      expect(wbtcPool.borrowAPR).to.equal(100);
+      expect(wbtcPool.depositAPR).to.equal(0);
     });
   });
 
@@ -68,13 +136,13 @@ describe("LoanMaster", function () {
       await mockUSDC.connect(user).approve(await loanMaster.getAddress(), depositAmount);
 
       // Make the deposit (using pool index 0 for USDC)
-      await loanMaster.connect(user).addLiquidity(0, depositAmount);
+      await loanMaster.connect(user).deposit(0, depositAmount);
 
       // Check user's deposit was recorded
-      expect(await loanMaster.getUserDeposit(usdcAddress, await user.getAddress())).to.equal(depositAmount);
+      expect(await loanMaster.getUserDeposit(0, await user.getAddress())).to.equal(depositAmount);
 
       // Check pool liquidity increased
-      const pool = await loanMaster.getLiquidityPoolByToken(usdcAddress);
+      const pool = await loanMaster.getLiquidityPool(0);
       expect(pool.liquidity).to.equal(depositAmount);
     });
 
@@ -89,26 +157,131 @@ describe("LoanMaster", function () {
       // Approve and deposit for both users
       await mockUSDC.connect(user).approve(await loanMaster.getAddress(), depositAmount);
       await mockUSDC.connect(user2).approve(await loanMaster.getAddress(), depositAmount);
-      await loanMaster.connect(user).addLiquidity(0, depositAmount);
-      await loanMaster.connect(user2).addLiquidity(0, depositAmount);
+      await loanMaster.connect(user).deposit(0, depositAmount);
+      await loanMaster.connect(user2).deposit(0, depositAmount);
+
+      // A borrower pays interest into the pool
+      const borrower = owner;
+      const borrowAmount = ethers.parseUnits("100", 6);
+      const [attestation, signature] = await signAttestation(attester, { borrower: await borrower.getAddress() });
+      await loanMaster.connect(borrower).borrow(0, borrowAmount, attestation, signature);
 
       // Fast forward time to accrue interest
       await ethers.provider.send("evm_increaseTime", [30 * 24 * 60 * 60]);
       await ethers.provider.send("evm_mine", []);
 
+      await mockUSDC.mint(await borrower.getAddress(), borrowAmount);
+      await mockUSDC.connect(borrower).approve(await loanMaster.getAddress(), borrowAmount * 2n);
+      await loanMaster.connect(borrower).repayBorrow(0);
+
       // Check user1's balance before withdrawal
       const balanceBefore = await mockUSDC.balanceOf(await user.getAddress());
 
-      // User1 withdraws liquidity
-      await loanMaster.connect(user).removeLiquidity(0);
+      // User1 redeems all of their shares
+      const shares = await loanMaster.getUserShares(0, await user.getAddress());
+      await loanMaster.connect(user).redeem(0, shares);
 
-      // Verify user1's withdrawal
+      // Verify user1's withdrawal includes their half of the interest
       const balanceAfter = await mockUSDC.balanceOf(await user.getAddress());
-      expect(balanceAfter).to.be.gt(balanceBefore);
-      expect(await loanMaster.getUserDeposit(usdcAddress, await user.getAddress())).to.equal(0);
+      expect(balanceAfter - balanceBefore).to.be.gt(depositAmount);
+      expect(await loanMaster.getUserDeposit(0, await user.getAddress())).to.equal(0);
+
+      // Verify user2 still has their deposit, now worth more than they put in
+      expect(await loanMaster.getUserDeposit(0, await user2.getAddress())).to.be.gt(depositAmount);
+    });
+  });
+
+  describe("Share Accounting", function () {
+    const depositAmount = ethers.parseUnits("100", 6); // 100 USDC
+
+    beforeEach(async () => {
+      await mockUSDC.mint(await user.getAddress(), depositAmount * 10n);
+      await mockUSDC.connect(user).approve(await loanMaster.getAddress(), depositAmount * 10n);
+    });
+
+    it("Should let users top up an existing position", async function () {
+      await loanMaster.connect(user).deposit(0, depositAmount);
+      await loanMaster.connect(user).deposit(0, depositAmount);
+
+      expect(await loanMaster.getUserShares(0, await user.getAddress())).to.equal(depositAmount * 2n);
+      expect(await loanMaster.getUserDeposit(0, await user.getAddress())).to.equal(depositAmount * 2n);
+      expect(await loanMaster.totalAssets(0)).to.equal(depositAmount * 2n);
+    });
+
+    it("Should allow partial withdrawals", async function () {
+      await loanMaster.connect(user).deposit(0, depositAmount);
+
+      const withdrawAmount = ethers.parseUnits("40", 6);
+      const expectedShares = await loanMaster.previewWithdraw(0, withdrawAmount);
+      await expect(loanMaster.connect(user).withdraw(0, withdrawAmount))
+        .to.emit(loanMaster, "LiquidityRemoved")
+        .withArgs(await user.getAddress(), 0, withdrawAmount, expectedShares);
+
+      expect(await loanMaster.getUserDeposit(0, await user.getAddress())).to.equal(depositAmount - withdrawAmount);
+    });
+
+    it("Should match the previews for deposit, mint, withdraw and redeem", async function () {
+      await loanMaster.connect(user).deposit(0, depositAmount);
+
+      // Raise the share price with repaid interest so conversions need rounding
+      const [attestation, signature] = await signAttestation(attester);
+      await loanMaster.connect(user).borrow(0, ethers.parseUnits("33", 6), attestation, signature);
+      await ethers.provider.send("evm_increaseTime", [17 * 24 * 60 * 60]);
+      await loanMaster.connect(user).repayBorrow(0);
+      expect(await loanMaster.convertToAssets(0, 1_000_000n)).to.be.gt(1_000_000n);
+
+      const userAddress = await user.getAddress();
+
+      const depositShares = await loanMaster.previewDeposit(0, ethers.parseUnits("10", 6));
+      await expect(loanMaster.connect(user).deposit(0, ethers.parseUnits("10", 6)))
+        .to.emit(loanMaster, "LiquidityAdded")
+        .withArgs(userAddress, 0, ethers.parseUnits("10", 6), depositShares);
+
+      const mintAssets = await loanMaster.previewMint(0, 7_777_777n);
+      await expect(loanMaster.connect(user).mint(0, 7_777_777n))
+        .to.emit(loanMaster, "LiquidityAdded")
+        .withArgs(userAddress, 0, mintAssets, 7_777_777n);
+
+      const withdrawShares = await loanMaster.previewWithdraw(0, 3_333_333n);
+      await expect(loanMaster.connect(user).withdraw(0, 3_333_333n))
+        .to.emit(loanMaster, "LiquidityRemoved")
+        .withArgs(userAddress, 0, 3_333_333n, withdrawShares);
+
+      const redeemAssets = await loanMaster.previewRedeem(0, 5_555_555n);
+      await expect(loanMaster.connect(user).redeem(0, 5_555_555n))
+        .to.emit(loanMaster, "LiquidityRemoved")
+        .withArgs(userAddress, 0, redeemAssets, 5_555_555n);
+
+      // Rounding always favours the pool
+      expect(mintAssets).to.be.gte(await loanMaster.convertToAssets(0, 7_777_777n));
+      expect(withdrawShares).to.be.gte(await loanMaster.convertToShares(0, 3_333_333n));
+    });
 
-      // Verify user2 still has their deposit
-      expect(await loanMaster.getUserDeposit(usdcAddress, await user2.getAddress())).to.equal(depositAmount);
+    it("Should reject withdrawals above the user's shares", async function () {
+      await loanMaster.connect(user).deposit(0, depositAmount);
+      const shares = await loanMaster.getUserShares(0, await user.getAddress());
+
+      await expect(loanMaster.connect(user).redeem(0, shares + 1n))
+        .to.be.revertedWithCustomError(loanMaster, "InsufficientShares")
+        .withArgs(shares + 1n, shares);
+    });
+
+    it("Should cap withdrawals at the idle liquidity", async function () {
+      await loanMaster.connect(user).deposit(0, depositAmount);
+
+      const borrowAmount = ethers.parseUnits("60", 6);
+      const [attestation, signature] = await signAttestation(attester, { borrower: await owner.getAddress() });
+      await loanMaster.connect(owner).borrow(0, borrowAmount, attestation, signature);
+
+      const available = depositAmount - borrowAmount;
+      expect(await loanMaster.maxWithdraw(0, await user.getAddress())).to.equal(available);
+      await expect(loanMaster.connect(user).withdraw(0, depositAmount))
+        .to.be.revertedWithCustomError(loanMaster, "InsufficientLiquidity")
+        .withArgs(depositAmount, available);
+
+      const maxShares = await loanMaster.maxRedeem(0, await user.getAddress());
+      await loanMaster.connect(user).redeem(0, maxShares);
+      expect(await loanMaster.getTotalLiquidity(0)).to.be.lt(10n);
     });
   });
 
@@ -118,19 +291,20 @@ describe("LoanMaster", function () {
       const liquidityAmount = ethers.parseUnits("1000", 6); // 1000 USDC
       await mockUSDC.mint(await owner.getAddress(), liquidityAmount);
       await mockUSDC.connect(owner).approve(await loanMaster.getAddress(), liquidityAmount);
-      await loanMaster.connect(owner).addLiquidity(0, liquidityAmount);
+      await loanMaster.connect(owner).deposit(0, liquidityAmount);
 
       // Now borrow some tokens
       const borrowAmount = ethers.parseUnits("500", 6); // 500 USDC
       const balanceBefore = await mockUSDC.balanceOf(await user.getAddress());
 
-      await loanMaster.connect(user).borrow(0, borrowAmount);
+      const [attestation, signature] = await signAttestation(attester);
+      await loanMaster.connect(user).borrow(0, borrowAmount, attestation, signature);
 
       const balanceAfter = await mockUSDC.balanceOf(await user.getAddress());
       expect(balanceAfter - balanceBefore).to.equal(borrowAmount);
 
       // Check borrow was recorded
-      expect(await loanMaster.getUserBorrow(usdcAddress, await user.getAddress())).to.equal(borrowAmount);
+      expect(await loanMaster.getUserBorrow(0, await user.getAddress())).to.equal(borrowAmount);
     });
 
     it("Should allow users to repay borrowed tokens with interest", async function () {
@@ -138,34 +312,540 @@ describe("LoanMaster", function () {
       const liquidityAmount = ethers.parseUnits("1000", 6); // 1000 USDC
       await mockUSDC.mint(await owner.getAddress(), liquidityAmount);
       await mockUSDC.connect(owner).approve(await loanMaster.getAddress(), liquidityAmount);
-      await loanMaster.connect(owner).addLiquidity(0, liquidityAmount);
+      await loanMaster.connect(owner).deposit(0, liquidityAmount);
 
       // Borrow tokens first
       const initialBorrowAmount = ethers.parseUnits("500", 6); // 500 USDC
-      await loanMaster.connect(user).borrow(0, initialBorrowAmount);
+      const [attestation, signature] = await signAttestation(attester);
+      await loanMaster.connect(user).borrow(0, initialBorrowAmount, attestation, signature);
+
+      // 500 of 1000 USDC lent out: 50% utilization
+      const rate = borrowRate(USDC_RATE_MODEL, 5000n);
+      expect(rate).to.equal(700n);
+      expect((await loanMaster.getLiquidityPool(0)).borrowAPR).to.equal(rate);
+      const borrowIndex = await loanMaster.getBorrowIndex(0);
 
       // Fast forward time to accrue some interest (1 month)
       await ethers.provider.send("evm_increaseTime", [30 * 24 * 60 * 60]);
       await ethers.provider.send("evm_mine", []);
 
-      const borrowAmount = await loanMaster.getUserBorrow(usdcAddress, await user.getAddress());
+      const borrowAmount = await loanMaster.getUserBorrow(0, await user.getAddress());
+      const borrowTimestamp = await loanMaster.getBorrowTimestamp(0, await user.getAddress());
 
-      // Calculate approximate interest manually for verification
-      const secondsElapsed = BigInt(30 * 24 * 60 * 60);
-      const borrowAPR = BigInt(1000); // 10%
-      const secondsInYear = BigInt(365 * 24 * 60 * 60);
-      const expectedInterest = (BigInt(borrowAmount) * borrowAPR * secondsElapsed) / (BigInt(100) * secondsInYear);
-      const expectedRepayment = BigInt(borrowAmount) + expectedInterest;
+      // The view includes the interest accrued so far
+      const viewSecondsElapsed = BigInt((await ethers.provider.getBlock("latest"))!.timestamp) - borrowTimestamp;
+      expect(await loanMaster.getRepaymentAmount(0, await user.getAddress())).to.equal(
+        borrowBalance(borrowAmount, growIndex(borrowIndex, rate, viewSecondsElapsed), borrowIndex),
+      );
 
       // Mint extra tokens to user for interest payment
-      await mockUSDC.mint(await user.getAddress(), expectedInterest * BigInt(2)); // Extra buffer
+      await mockUSDC.mint(await user.getAddress(), borrowAmount);
+      await mockUSDC.connect(user).approve(await loanMaster.getAddress(), borrowAmount * 2n);
 
-      // Approve and repay
-      await mockUSDC.connect(user).approve(await loanMaster.getAddress(), expectedRepayment * 2n);
-      await loanMaster.connect(user).repayBorrow(0);
+      const balanceBefore = await mockUSDC.balanceOf(await user.getAddress());
+      const repayTx = await loanMaster.connect(user).repayBorrow(0);
+      const repayBlock = await ethers.provider.getBlock((await repayTx.wait())!.blockNumber);
+
+      // Calculate interest manually for verification
+      const secondsElapsed = BigInt(repayBlock!.timestamp) - borrowTimestamp;
+      const expectedInterest =
+        borrowBalance(borrowAmount, growIndex(borrowIndex, rate, secondsElapsed), borrowIndex) - borrowAmount;
+
+      await expect(repayTx)
+        .to.emit(loanMaster, "BorrowRepaid")
+        .withArgs(await user.getAddress(), 0, borrowAmount, expectedInterest);
+      expect(expectedInterest).to.be.gt(0n);
+      expect(balanceBefore - (await mockUSDC.balanceOf(await user.getAddress()))).to.equal(
+        borrowAmount + expectedInterest,
+      );
 
       // Check borrow was cleared
-      expect(await loanMaster.getUserBorrow(usdcAddress, await user.getAddress())).to.equal(0n);
+      expect(await loanMaster.getUserBorrow(0, await user.getAddress())).to.equal(0n);
+      expect(await loanMaster.getRepaymentAmount(0, await user.getAddress())).to.equal(0n);
+    });
+
+    it("Should roll accrued interest into the principal on additional borrows", async function () {
+      const liquidityAmount = ethers.parseUnits("1000", 6); // 1000 USDC
+      await mockUSDC.mint(await owner.getAddress(), liquidityAmount);
+      await mockUSDC.connect(owner).approve(await loanMaster.getAddress(), liquidityAmount);
+      await loanMaster.connect(owner).deposit(0, liquidityAmount);
+
+      const borrowAmount = ethers.parseUnits("200", 6); // 200 USDC
+      const [first, firstSignature] = await signAttestation(attester);
+      await loanMaster.connect(user).borrow(0, borrowAmount, first, firstSignature);
+      const firstIndex = await loanMaster.getBorrowIndex(0);
+
+      await ethers.provider.send("evm_increaseTime", [20 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+
+      const [second, secondSignature] = await signAttestation(attester);
+      await loanMaster.connect(user).borrow(0, borrowAmount, second, secondSignature);
+      const secondIndex = await loanMaster.getBorrowIndex(0);
+
+      const accruedInterest = borrowBalance(borrowAmount, secondIndex, firstIndex) - borrowAmount;
+      expect(accruedInterest).to.be.gt(0n);
+      expect(await loanMaster.getUserBorrow(0, await user.getAddress())).to.equal(borrowAmount * 2n + accruedInterest);
+    });
+  });
+
+  describe("Score Attestations", function () {
+    const borrowAmount = ethers.parseUnits("100", 6); // 100 USDC
+
+    beforeEach(async () => {
+      const liquidityAmount = ethers.parseUnits("1000", 6); // 1000 USDC
+      await mockUSDC.mint(await owner.getAddress(), liquidityAmount);
+      await mockUSDC.connect(owner).approve(await loanMaster.getAddress(), liquidityAmount);
+      await loanMaster.connect(owner).deposit(0, liquidityAmount);
+    });
+
+    it("Should reject borrows with an expired attestation", async function () {
+      const latestBlock = await ethers.provider.getBlock("latest");
+      const [attestation, signature] = await signAttestation(attester, {
+        expiry: BigInt(latestBlock!.timestamp - 1),
+      });
+
+      await expect(loanMaster.connect(user).borrow(0, borrowAmount, attestation, signature))
+        .to.be.revertedWithCustomError(loanMaster, "AttestationExpired")
+        .withArgs(attestation.expiry);
+    });
+
+    it("Should reject attestations signed by an untrusted signer", async function () {
+      const [attestation, signature] = await signAttestation(user);
+
+      await expect(
+        loanMaster.connect(user).borrow(0, borrowAmount, attestation, signature),
+      ).to.be.revertedWithCustomError(loanMaster, "InvalidAttestationSigner");
+    });
+
+    it("Should reject attestations whose fields were tampered with", async function () {
+      const [attestation, signature] = await signAttestation(attester, { riskLevel: 2 });
+      const forged = { ...attestation, riskLevel: 10 };
+
+      await expect(loanMaster.connect(user).borrow(0, borrowAmount, forged, signature)).to.be.revertedWithCustomError(
+        loanMaster,
+        "InvalidAttestationSigner",
+      );
+    });
+
+    it("Should reject attestations issued for another borrower", async function () {
+      const [attestation, signature] = await signAttestation(attester, { borrower: await owner.getAddress() });
+
+      await expect(loanMaster.connect(user).borrow(0, borrowAmount, attestation, signature))
+        .to.be.revertedWithCustomError(loanMaster, "AttestationBorrowerMismatch")
+        .withArgs(await owner.getAddress(), await user.getAddress());
+    });
+
+    it("Should reject a replayed attestation", async function () {
+      const [attestation, signature] = await signAttestation(attester);
+      await loanMaster.connect(user).borrow(0, borrowAmount, attestation, signature);
+
+      const digest = await loanMaster.hashScoreAttestation(attestation);
+      expect(await loanMaster.isAttestationUsed(digest)).to.equal(true);
+
+      await expect(loanMaster.connect(user).borrow(0, borrowAmount, attestation, signature))
+        .to.be.revertedWithCustomError(loanMaster, "AttestationAlreadyUsed")
+        .withArgs(digest);
+    });
+
+    it("Should enforce the borrow cap of the attested risk level", async function () {
+      await loanMaster.setTierBorrowCap(0, 3, ethers.parseUnits("150", 6));
+
+      const [first, firstSignature] = await signAttestation(attester, { riskLevel: 3 });
+      await loanMaster.connect(user).borrow(0, borrowAmount, first, firstSignature);
+
+      const [second, secondSignature] = await signAttestation(attester, { riskLevel: 3 });
+      await expect(loanMaster.connect(user).borrow(0, borrowAmount, second, secondSignature))
+        .to.be.revertedWithCustomError(loanMaster, "BorrowCapExceeded")
+        .withArgs((requested: bigint) => requested >= borrowAmount * 2n, ethers.parseUnits("150", 6));
+    });
+
+    it("Should only let the admin rotate the trusted signer", async function () {
+      await expect(loanMaster.connect(user).setTrustedSigner(await user.getAddress()))
+        .to.be.revertedWithCustomError(loanMaster, "AccessControlUnauthorizedAccount")
+        .withArgs(await user.getAddress(), ethers.ZeroHash);
+
+      await expect(loanMaster.setTrustedSigner(await user.getAddress()))
+        .to.emit(loanMaster, "TrustedSignerUpdated")
+        .withArgs(await attester.getAddress(), await user.getAddress());
+
+      const [attestation, signature] = await signAttestation(user);
+      await loanMaster.connect(user).borrow(0, borrowAmount, attestation, signature);
+      expect(await loanMaster.getUserBorrow(0, await user.getAddress())).to.equal(borrowAmount);
+    });
+  });
+
+  describe("Loan Lifecycle", function () {
+    const borrowAmount = ethers.parseUnits("100", 6); // 100 USDC
+    const loanTerm = 30 * DAY;
+    const gracePeriod = 7 * DAY;
+
+    const increaseTime = async (seconds: number) => {
+      await ethers.provider.send("evm_increaseTime", [seconds]);
+      await ethers.provider.send("evm_mine", []);
+    };
+
+    beforeEach(async () => {
+      const liquidityAmount = ethers.parseUnits("1000", 6); // 1000 USDC
+      await mockUSDC.mint(await owner.getAddress(), liquidityAmount);
+      await mockUSDC.connect(owner).approve(await loanMaster.getAddress(), liquidityAmount);
+      await loanMaster.connect(owner).deposit(0, liquidityAmount);
+
+      // Enough for principal and interest
+      await mockUSDC.mint(await user.getAddress(), borrowAmount);
+      await mockUSDC.connect(user).approve(await loanMaster.getAddress(), borrowAmount * 3n);
+    });
+
+    it("Should start an active loan with a due date one term away", async function () {
+      const [attestation, signature] = await signAttestation(attester);
+      const tx = await loanMaster.connect(user).borrow(0, borrowAmount, attestation, signature);
+      const block = await ethers.provider.getBlock((await tx.wait())!.blockNumber);
+
+      await expect(tx)
+        .to.emit(loanMaster, "LoanStateChanged")
+        .withArgs(await user.getAddress(), 0, LoanState.None, LoanState.Active);
+      expect(await loanMaster.getLoanState(0, await user.getAddress())).to.equal(LoanState.Active);
+      expect(await loanMaster.getDueDate(0, await user.getAddress())).to.equal(block!.timestamp + loanTerm);
+      expect(await loanMaster.getLoanTerms(0)).to.deep.equal([BigInt(loanTerm), BigInt(gracePeriod)]);
+    });
+
+    it("Should keep the original due date when topping up a borrow", async function () {
+      const [first, firstSignature] = await signAttestation(attester);
+      await loanMaster.connect(user).borrow(0, borrowAmount, first, firstSignature);
+      const dueDate = await loanMaster.getDueDate(0, await user.getAddress());
+
+      await increaseTime(10 * DAY);
+      const [second, secondSignature] = await signAttestation(attester);
+      await expect(loanMaster.connect(user).borrow(0, borrowAmount, second, secondSignature)).not.to.emit(
+        loanMaster,
+        "LoanStateChanged",
+      );
+      expect(await loanMaster.getDueDate(0, await user.getAddress())).to.equal(dueDate);
+    });
+
+    it("Should report a loan as overdue after its due date and block new borrows", async function () {
+      const [attestation, signature] = await signAttestation(attester);
+      await loanMaster.connect(user).borrow(0, borrowAmount, attestation, signature);
+      const dueDate = await loanMaster.getDueDate(0, await user.getAddress());
+
+      await expect(loanMaster.markOverdue(0, await user.getAddress()))
+        .to.be.revertedWithCustomError(loanMaster, "LoanNotOverdue")
+        .withArgs(await user.getAddress(), dueDate);
+
+      await increaseTime(loanTerm + 1);
+      expect(await loanMaster.getLoanState(0, await user.getAddress())).to.equal(LoanState.Overdue);
+
+      await expect(loanMaster.markOverdue(0, await user.getAddress()))
+        .to.emit(loanMaster, "LoanStateChanged")
+        .withArgs(await user.getAddress(), 0, LoanState.Active, LoanState.Overdue);
+
+      const [next, nextSignature] = await signAttestation(attester);
+      await expect(loanMaster.connect(user).borrow(0, borrowAmount, next, nextSignature))
+        .to.be.revertedWithCustomError(loanMaster, "InvalidLoanState")
+        .withArgs(await user.getAddress(), LoanState.Overdue);
+    });
+
+    it("Should only default a loan after the grace period and write the debt off", async function () {
+      const [attestation, signature] = await signAttestation(attester);
+      await loanMaster.connect(user).borrow(0, borrowAmount, attestation, signature);
+      const dueDate = await loanMaster.getDueDate(0, await user.getAddress());
+
+      await increaseTime(loanTerm + 1);
+      await expect(loanMaster.markDefaulted(0, await user.getAddress()))
+        .to.be.revertedWithCustomError(loanMaster, "GracePeriodNotOver")
+        .withArgs(await user.getAddress(), dueDate + BigInt(gracePeriod));
+
+      await increaseTime(gracePeriod);
+      const assetsBefore = await loanMaster.totalAssets(0);
+
+      // Anyone can trigger the default, both transitions are emitted
+      const keeper = (await ethers.getSigners())[2];
+      await expect(loanMaster.connect(keeper).markDefaulted(0, await user.getAddress()))
+        .to.emit(loanMaster, "LoanStateChanged")
+        .withArgs(await user.getAddress(), 0, LoanState.Active, LoanState.Overdue)
+        .and.to.emit(loanMaster, "LoanStateChanged")
+        .withArgs(await user.getAddress(), 0, LoanState.Overdue, LoanState.Defaulted);
+
+      // Only the idle liquidity, minus the protocol's cut of the interest accrued so far, is left
+      const pool = await loanMaster.getLiquidityPool(0);
+      expect(pool.totalBorrows).to.equal(0n);
+      expect(await loanMaster.totalAssets(0)).to.equal(pool.liquidity - pool.reserves);
+      expect(await loanMaster.totalAssets(0)).to.be.lt(assetsBefore - borrowAmount);
+      expect(await loanMaster.getLoanState(0, await user.getAddress())).to.equal(LoanState.Defaulted);
+
+      await expect(loanMaster.markDefaulted(0, await user.getAddress()))
+        .to.be.revertedWithCustomError(loanMaster, "InvalidLoanState")
+        .withArgs(await user.getAddress(), LoanState.Defaulted);
+    });
+
+    it("Should return a late repayment of a defaulted loan to the pool", async function () {
+      const [attestation, signature] = await signAttestation(attester);
+      await loanMaster.connect(user).borrow(0, borrowAmount, attestation, signature);
+
+      await increaseTime(loanTerm + gracePeriod + 1);
+      await loanMaster.markDefaulted(0, await user.getAddress());
+      const assetsBefore = await loanMaster.totalAssets(0);
+
+      const repayTx = await loanMaster.connect(user).repayBorrow(0);
+      await expect(repayTx)
+        .to.emit(loanMaster, "LoanStateChanged")
+        .withArgs(await user.getAddress(), 0, LoanState.Defaulted, LoanState.Repaid);
+
+      expect(await loanMaster.totalAssets(0)).to.be.gt(assetsBefore + borrowAmount);
+      expect(await loanMaster.getLoanState(0, await user.getAddress())).to.equal(LoanState.Repaid);
+    });
+
+    it("Should tell on-time and late repayments apart", async function () {
+      const [first, firstSignature] = await signAttestation(attester);
+      await loanMaster.connect(user).borrow(0, borrowAmount, first, firstSignature);
+
+      await expect(loanMaster.connect(user).repayBorrow(0))
+        .to.emit(loanMaster, "LoanStateChanged")
+        .withArgs(await user.getAddress(), 0, LoanState.Active, LoanState.Repaid);
+
+      // A new borrow after repaying starts a fresh loan
+      const [second, secondSignature] = await signAttestation(attester);
+      await expect(loanMaster.connect(user).borrow(0, borrowAmount, second, secondSignature))
+        .to.emit(loanMaster, "LoanStateChanged")
+        .withArgs(await user.getAddress(), 0, LoanState.Repaid, LoanState.Active);
+
+      await increaseTime(loanTerm + 1);
+      await expect(loanMaster.connect(user).repayBorrow(0))
+        .to.emit(loanMaster, "LoanStateChanged")
+        .withArgs(await user.getAddress(), 0, LoanState.Active, LoanState.Overdue)
+        .and.to.emit(loanMaster, "LoanStateChanged")
+        .withArgs(await user.getAddress(), 0, LoanState.Overdue, LoanState.Repaid);
+    });
+
+    it("Should only let pool managers change loan terms", async function () {
+      await expect(loanMaster.connect(user).setLoanTerms(0, 14 * DAY, DAY))
+        .to.be.revertedWithCustomError(loanMaster, "AccessControlUnauthorizedAccount")
+        .withArgs(await user.getAddress(), await loanMaster.POOL_MANAGER_ROLE());
+
+      await expect(loanMaster.setLoanTerms(0, 14 * DAY, DAY))
+        .to.emit(loanMaster, "LoanTermsUpdated")
+        .withArgs(0, 14 * DAY, DAY);
+    });
+  });
+
+  describe("Pool IDs", function () {
+    const borrowAmount = ethers.parseUnits("100", 6); // 100 USDC
+    const liquidityAmount = ethers.parseUnits("1000", 6); // 1000 USDC
+
+    beforeEach(async () => {
+      // Fund both USDC pools, the second one only lends to risk levels 8 and up
+      await mockUSDC.mint(await owner.getAddress(), liquidityAmount * 2n);
+      await mockUSDC.connect(owner).approve(await loanMaster.getAddress(), liquidityAmount * 2n);
+      await loanMaster.connect(owner).deposit(0, liquidityAmount);
+      await loanMaster.connect(owner).deposit(3, liquidityAmount);
+
+      for (let riskLevel = 8; riskLevel <= MAX_RISK_LEVEL; riskLevel++) {
+        await loanMaster.setTierBorrowCap(3, riskLevel, ethers.parseUnits("500", 6));
+      }
+    });
+
+    it("Should list every pool of a token", async function () {
+      expect(await loanMaster.getPoolIdsByToken(usdcAddress)).to.deep.equal([0n, 3n]);
+      expect(await loanMaster.getPoolIdsByToken(wethAddress)).to.deep.equal([1n]);
+
+      await expect(loanMaster.getPoolIdsByToken(await user.getAddress()))
+        .to.be.revertedWithCustomError(loanMaster, "PoolNotFound")
+        .withArgs(await user.getAddress());
+
+      const pool = await loanMaster.getLiquidityPool(3);
+      expect(pool.poolId).to.equal(3);
+      expect(pool.tokenAddress).to.equal(usdcAddress);
+      expect(pool.minRiskLevel).to.equal(8);
+      expect(pool.liquidity).to.equal(liquidityAmount);
+
+      await expect(loanMaster.getLiquidityPool(4)).to.be.revertedWith("Invalid pool id");
+    });
+
+    it("Should keep borrows and repayments of pools sharing a token apart", async function () {
+      const [attestation, signature] = await signAttestation(attester, { riskLevel: 9 });
+      await loanMaster.connect(user).borrow(3, borrowAmount, attestation, signature);
+
+      expect(await loanMaster.getUserBorrow(3, await user.getAddress())).to.equal(borrowAmount);
+      expect(await loanMaster.getUserBorrow(0, await user.getAddress())).to.equal(0);
+      expect(await loanMaster.getTotalLiquidity(3)).to.equal(liquidityAmount - borrowAmount);
+      expect(await loanMaster.getTotalLiquidity(0)).to.equal(liquidityAmount);
+
+      await expect(loanMaster.connect(user).repayBorrow(0))
+        .to.be.revertedWithCustomError(loanMaster, "NoBorrowToRepay")
+        .withArgs(await user.getAddress());
+
+      await mockUSDC.mint(await user.getAddress(), borrowAmount);
+      await mockUSDC.connect(user).approve(await loanMaster.getAddress(), borrowAmount * 2n);
+      await expect(loanMaster.connect(user).repayBorrow(3)).to.emit(loanMaster, "BorrowRepaid");
+
+      expect(await loanMaster.getUserBorrow(3, await user.getAddress())).to.equal(0);
+      expect(await loanMaster.getLoanState(3, await user.getAddress())).to.equal(LoanState.Repaid);
+      expect(await loanMaster.getLoanState(0, await user.getAddress())).to.equal(LoanState.None);
+    });
+
+    it("Should reject borrowers below the pool's risk tier", async function () {
+      const [attestation, signature] = await signAttestation(attester, { riskLevel: 6 });
+
+      await expect(loanMaster.connect(user).borrow(3, borrowAmount, attestation, signature))
+        .to.be.revertedWithCustomError(loanMaster, "RiskLevelTooLow")
+        .withArgs(6, 8);
+    });
+
+    it("Should only create pools with a valid risk tier", async function () {
+      await expect(loanMaster.createLiquidityPool(usdcAddress, USDC_RATE_MODEL, 0))
+        .to.be.revertedWithCustomError(loanMaster, "InvalidRiskLevel")
+        .withArgs(0);
+
+      await expect(loanMaster.createLiquidityPool(wethAddress, WETH_RATE_MODEL, MAX_RISK_LEVEL))
+        .to.emit(loanMaster, "PoolCreated")
+        .withArgs(4, wethAddress, MAX_RISK_LEVEL);
+      expect(await loanMaster.getPoolIdsByToken(wethAddress)).to.deep.equal([1n, 4n]);
+    });
+  });
+
+  describe("Roles and Emergency Controls", function () {
+    const PoolAction = { Deposit: 0, Withdraw: 1, Borrow: 2, Repay: 3 };
+    const depositAmount = ethers.parseUnits("1000", 6); // 1000 USDC
+    const borrowAmount = ethers.parseUnits("100", 6); // 100 USDC
+    let guardian: HardhatEthersSigner;
+
+    beforeEach(async () => {
+      guardian = (await ethers.getSigners())[4];
+      await loanMaster.grantRole(await loanMaster.GUARDIAN_ROLE(), await guardian.getAddress());
+
+      await mockUSDC.mint(await owner.getAddress(), depositAmount * 2n);
+      await mockUSDC.connect(owner).approve(await loanMaster.getAddress(), depositAmount * 2n);
+      await loanMaster.connect(owner).deposit(0, depositAmount);
+
+      // Enough for principal and interest
+      await mockUSDC.mint(await user.getAddress(), borrowAmount);
+      await mockUSDC.connect(user).approve(await loanMaster.getAddress(), borrowAmount * 3n);
+    });
+
+    it("Should give the deployer every role and restrict pool management", async function () {
+      const ownerAddress = await owner.getAddress();
+      expect(await loanMaster.hasRole(ethers.ZeroHash, ownerAddress)).to.equal(true);
+      expect(await loanMaster.hasRole(await loanMaster.POOL_MANAGER_ROLE(), ownerAddress)).to.equal(true);
+      expect(await loanMaster.hasRole(await loanMaster.GUARDIAN_ROLE(), ownerAddress)).to.equal(true);
+
+      await expect(loanMaster.connect(guardian).createLiquidityPool(usdcAddress, USDC_RATE_MODEL, 1))
+        .to.be.revertedWithCustomError(loanMaster, "AccessControlUnauthorizedAccount")
+        .withArgs(await guardian.getAddress(), await loanMaster.POOL_MANAGER_ROLE());
+    });
+
+    it("Should transfer the admin role in two steps", async function () {
+      await loanMaster.beginDefaultAdminTransfer(await user.getAddress());
+      expect(await loanMaster.getOwner()).to.equal(await owner.getAddress());
+
+      await expect(loanMaster.connect(guardian).acceptDefaultAdminTransfer())
+        .to.be.revertedWithCustomError(loanMaster, "AccessControlInvalidDefaultAdmin")
+        .withArgs(await guardian.getAddress());
+
+      await loanMaster.connect(user).acceptDefaultAdminTransfer();
+      expect(await loanMaster.getOwner()).to.equal(await user.getAddress());
+      expect(await loanMaster.hasRole(ethers.ZeroHash, await owner.getAddress())).to.equal(false);
+    });
+
+    it("Should let guardians pause a pool and only the admin unpause it", async function () {
+      await expect(loanMaster.connect(guardian).setPoolPaused(0, true))
+        .to.emit(loanMaster, "PoolPauseUpdated")
+        .withArgs(0, true);
+
+      const [attestation, signature] = await signAttestation(attester);
+      await expect(loanMaster.connect(user).borrow(0, borrowAmount, attestation, signature))
+        .to.be.revertedWithCustomError(loanMaster, "PoolPaused")
+        .withArgs(0);
+      await expect(loanMaster.connect(owner).deposit(0, depositAmount))
+        .to.be.revertedWithCustomError(loanMaster, "PoolPaused")
+        .withArgs(0);
+      expect(await loanMaster.isActionPaused(0, PoolAction.Withdraw)).to.equal(true);
+      expect(await loanMaster.isActionPaused(0, PoolAction.Repay)).to.equal(false);
+
+      await expect(loanMaster.connect(guardian).setPoolPaused(0, false))
+        .to.be.revertedWithCustomError(loanMaster, "AccessControlUnauthorizedAccount")
+        .withArgs(await guardian.getAddress(), ethers.ZeroHash);
+
+      await loanMaster.setPoolPaused(0, false);
+      await loanMaster.connect(user).borrow(0, borrowAmount, attestation, signature);
+    });
+
+    it("Should keep repayments open while a pool is paused", async function () {
+      const [attestation, signature] = await signAttestation(attester);
+      await loanMaster.connect(user).borrow(0, borrowAmount, attestation, signature);
+
+      await loanMaster.connect(guardian).setPoolPaused(0, true);
+      await expect(loanMaster.connect(user).repayBorrow(0)).to.emit(loanMaster, "BorrowRepaid");
+    });
+
+    it("Should not let repayments be paused while loans can still go overdue", async function () {
+      await expect(loanMaster.connect(guardian).setActionPaused(0, PoolAction.Repay, true))
+        .to.be.revertedWithCustomError(loanMaster, "RepayNotPausable")
+        .withArgs(0);
+      expect(await loanMaster.isActionPaused(0, PoolAction.Repay)).to.equal(false);
+
+      const [attestation, signature] = await signAttestation(attester);
+      await loanMaster.connect(user).borrow(0, borrowAmount, attestation, signature);
+      await expect(loanMaster.connect(user).repayBorrow(0)).to.emit(loanMaster, "BorrowRepaid");
+    });
+
+    it("Should pause single actions", async function () {
+      await expect(loanMaster.connect(guardian).setActionPaused(0, PoolAction.Borrow, true))
+        .to.emit(loanMaster, "ActionPauseUpdated")
+        .withArgs(0, PoolAction.Borrow, true);
+
+      const [attestation, signature] = await signAttestation(attester);
+      await expect(loanMaster.connect(user).borrow(0, borrowAmount, attestation, signature))
+        .to.be.revertedWithCustomError(loanMaster, "ActionPaused")
+        .withArgs(0, PoolAction.Borrow);
+      expect((await loanMaster.getLiquidityPool(0)).pausedActions).to.equal(1 << PoolAction.Borrow);
+
+      // Other actions and pools are unaffected
+      await loanMaster.connect(owner).deposit(0, depositAmount);
+      expect(await loanMaster.isActionPaused(3, PoolAction.Borrow)).to.equal(false);
+
+      await loanMaster.setActionPaused(0, PoolAction.Borrow, false);
+      await loanMaster.connect(user).borrow(0, borrowAmount, attestation, signature);
+    });
+
+    it("Should enforce the pool supply and borrow caps", async function () {
+      await expect(loanMaster.setPoolCaps(0, depositAmount + 1n, borrowAmount))
+        .to.emit(loanMaster, "PoolCapsUpdated")
+        .withArgs(0, depositAmount + 1n, borrowAmount);
+
+      await expect(loanMaster.connect(owner).deposit(0, 2n))
+        .to.be.revertedWithCustomError(loanMaster, "SupplyCapExceeded")
+        .withArgs(depositAmount + 2n, depositAmount + 1n);
+
+      const [first, firstSignature] = await signAttestation(attester);
+      await loanMaster.connect(user).borrow(0, borrowAmount, first, firstSignature);
+
+      const [second, secondSignature] = await signAttestation(attester);
+      await expect(loanMaster.connect(user).borrow(0, 1n, second, secondSignature))
+        .to.be.revertedWithCustomError(loanMaster, "PoolBorrowCapExceeded")
+        .withArgs(borrowAmount + 1n, borrowAmount);
+
+      // A cap of 0 means no cap
+      await loanMaster.setPoolCaps(0, 0, 0);
+      await loanMaster.connect(user).borrow(0, 1n, second, secondSignature);
+    });
+
+    it("Should let depositors withdraw the idle liquidity of a paused pool", async function () {
+      await expect(loanMaster.connect(owner).emergencyWithdraw(0))
+        .to.be.revertedWithCustomError(loanMaster, "PoolNotPaused")
+        .withArgs(0);
+
+      const [attestation, signature] = await signAttestation(attester);
+      await loanMaster.connect(user).borrow(0, borrowAmount, attestation, signature);
+      await loanMaster.connect(guardian).setPoolPaused(0, true);
+
+      const balanceBefore = await mockUSDC.balanceOf(await owner.getAddress());
+      await expect(loanMaster.connect(owner).emergencyWithdraw(0)).to.emit(loanMaster, "EmergencyWithdrawn");
+
+      // Only the borrowed part of the position stays in the pool
+      const withdrawn = (await mockUSDC.balanceOf(await owner.getAddress())) - balanceBefore;
+      expect(withdrawn).to.be.lte(depositAmount - borrowAmount);
+      expect(withdrawn).to.be.gt(depositAmount - borrowAmount - 10n);
+      expect(await loanMaster.getUserShares(0, await owner.getAddress())).to.be.gt(0);
+      expect(await loanMaster.getTotalLiquidity(0)).to.be.lt(10n);
     });
   });
 });
@@ -0,0 +1,185 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Address as AddressType, formatUnits } from "viem";
+import { usePublicClient } from "wagmi";
+import { Address } from "~~/components/scaffold-eth";
+import { LOAN_STATES, LoanState, Pool, getPoolName } from "~~/hooks/custom/useLoanMaster";
+import { useDeployedContractInfo, useScaffoldEventHistory } from "~~/hooks/scaffold-eth";
+
+interface ActiveLoan {
+  user: AddressType;
+  poolId: bigint;
+  principal: bigint;
+  repaymentAmount: bigint;
+  loanState: LoanState;
+  dueDate: bigint;
+}
+
+const loanKey = (user: string, poolId: bigint) => `${user.toLowerCase()}-${poolId}`;
+
+const LOAN_STATE_BADGES: Record<LoanState, string> = {
+  None: "badge-ghost",
+  Active: "badge-success",
+  Overdue: "badge-warning",
+  Defaulted: "badge-error",
+  Repaid: "badge-ghost",
+};
+
+type LoanEvent = { user: AddressType; poolId: bigint; blockNumber: bigint; logIndex: number; isBorrow: boolean };
+
+export const ActiveBorrowersTable = ({ pools }: { pools: Pool[] }) => {
+  const publicClient = usePublicClient();
+  const { data: loanMasterContractData } = useDeployedContractInfo({ contractName: "LoanMaster" });
+  const [loans, setLoans] = useState<ActiveLoan[]>([]);
+  const [isLoadingLoans, setIsLoadingLoans] = useState(false);
+
+  // Nothing is emitted before LoanMaster was deployed, no need to scan the chain from genesis
+  const fromBlock = BigInt(loanMasterContractData?.deployedOnBlock ?? 0);
+
+  const { data: borrowedEvents, isLoading: isLoadingBorrowed } = useScaffoldEventHistory({
+    contractName: "LoanMaster",
+    eventName: "Borrowed",
+    fromBlock,
+    watch: true,
+  });
+
+  const { data: repaidEvents, isLoading: isLoadingRepaid } = useScaffoldEventHistory({
+    contractName: "LoanMaster",
+    eventName: "BorrowRepaid",
+    fromBlock,
+    watch: true,
+  });
+
+  // Replay borrows and repayments in chain order, a loan is open from its Borrowed event until the next BorrowRepaid
+  const openLoanKeys = useMemo(() => {
+    const events: LoanEvent[] = [];
+    borrowedEvents?.forEach(event => {
+      if (event.args.user === undefined || event.args.poolId === undefined) return;
+      events.push({
+        user: event.args.user,
+        poolId: event.args.poolId,
+        blockNumber: event.blockNumber,
+        logIndex: event.logIndex,
+        isBorrow: true,
+      });
+    });
+    repaidEvents?.forEach(event => {
+      if (event.args.user === undefined || event.args.poolId === undefined) return;
+      events.push({
+        user: event.args.user,
+        poolId: event.args.poolId,
+        blockNumber: event.blockNumber,
+        logIndex: event.logIndex,
+        isBorrow: false,
+      });
+    });
+
+    events.sort((a, b) =>
+      a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1,
+    );
+
+    const open = new Map<string, { user: AddressType; poolId: bigint }>();
+    for (const event of events) {
+      const key = loanKey(event.user, event.poolId);
+      if (event.isBorrow) {
+        open.set(key, { user: event.user, poolId: event.poolId });
+      } else {
+        open.delete(key);
+      }
+    }
+    return Array.from(open.values());
+  }, [borrowedEvents, repaidEvents]);
+
+  useEffect(() => {
+    if (!publicClient || !loanMasterContractData) return;
+
+    const fetchLoans = async () => {
+      setIsLoadingLoans(true);
+      try {
+        const results = await Promise.all(
+          openLoanKeys.map(async ({ user, poolId }) => {
+            const read = (functionName: "getUserBorrow" | "getRepaymentAmount" | "getLoanState" | "getDueDate") =>
+              publicClient.readContract({
+                address: loanMasterContractData.address,
+                abi: loanMasterContractData.abi,
+                functionName,
+                args: [poolId, user],
+              });
+
+            const [principal, repaymentAmount, loanState, dueDate] = await Promise.all([
+              read("getUserBorrow") as Promise<bigint>,
+              read("getRepaymentAmount") as Promise<bigint>,
+              read("getLoanState") as Promise<number>,
+              read("getDueDate") as Promise<bigint>,
+            ]);
+
+            return { user, poolId, principal, repaymentAmount, loanState: LOAN_STATES[loanState], dueDate };
+          }),
+        );
+        setLoans(results.filter(loan => loan.principal > 0n));
+      } catch (error) {
+        console.error("[AdminConsole] Loading active loans failed:", error);
+      } finally {
+        setIsLoadingLoans(false);
+      }
+    };
+
+    fetchLoans();
+  }, [openLoanKeys, publicClient, loanMasterContractData]);
+
+  const isLoading = isLoadingBorrowed || isLoadingRepaid || isLoadingLoans;
+
+  return (
+    <div className="bg-base-100 rounded-xl shadow-md p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold">Active Borrowers</h2>
+        {isLoading && <span className="loading loading-spinner loading-sm"></span>}
+      </div>
+      {loans.length === 0 ? (
+        <p className="text-gray-500">{isLoading ? "Loading loans…" : "No active loans."}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="table table-zebra w-full table-sm">
+            <thead>
+              <tr>
+                <th>Borrower</th>
+                <th>Pool</th>
+                <th className="text-end">Principal</th>
+                <th className="text-end">Owed</th>
+                <th>Due</th>
+                <th>State</th>
+              </tr>
+            </thead>
+            <tbody>
+              {loans.map(loan => {
+                const pool = pools.find(p => p.poolId === loan.poolId);
+                const { symbol, decimals } = pool ? pool.token : { symbol: "", decimals: 18 };
+                const format = (amount: bigint) => parseFloat(formatUnits(amount, decimals)).toLocaleString();
+
+                return (
+                  <tr key={loanKey(loan.user, loan.poolId)}>
+                    <td>
+                      <Address address={loan.user} />
+                    </td>
+                    <td>{pool ? getPoolName(pool) : `#${loan.poolId}`}</td>
+                    <td className="text-end">
+                      {format(loan.principal)} {symbol}
+                    </td>
+                    <td className="text-end">
+                      {format(loan.repaymentAmount)} {symbol}
+                    </td>
+                    <td>{new Date(Number(loan.dueDate) * 1000).toLocaleDateString()}</td>
+                    <td>
+                      <span className={`badge badge-sm ${LOAN_STATE_BADGES[loan.loanState]}`}>{loan.loanState}</span>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
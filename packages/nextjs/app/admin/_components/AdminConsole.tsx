@@ -0,0 +1,76 @@
+"use client";
+
+import { ActiveBorrowersTable } from "./ActiveBorrowersTable";
+import { CreatePoolForm } from "./CreatePoolForm";
+import { PoolParametersForm } from "./PoolParametersForm";
+import { PoolsTable } from "./PoolsTable";
+import { useAccount } from "wagmi";
+import { Address } from "~~/components/scaffold-eth";
+import { useLoanMaster } from "~~/hooks/custom/useLoanMaster";
+import { useLoanMasterRoles } from "~~/hooks/custom/useLoanMasterRoles";
+import { useScaffoldReadContract } from "~~/hooks/scaffold-eth";
+
+export const AdminConsole = () => {
+  const { address: connectedAddress } = useAccount();
+  const { roles, hasAnyRole, isLoading: isRolesLoading } = useLoanMasterRoles();
+  const { data: owner } = useScaffoldReadContract({ contractName: "LoanMaster", functionName: "getOwner" });
+  const { pools, isLoading, error, refreshData } = useLoanMaster();
+
+  if (!connectedAddress) {
+    return (
+      <div className="container mx-auto px-6 py-10 max-w-5xl text-center">
+        <p className="text-xl">Connect an admin, pool manager or guardian wallet to manage the protocol</p>
+      </div>
+    );
+  }
+
+  if (isRolesLoading) {
+    return (
+      <div className="flex items-center justify-center py-20">
+        <span className="loading loading-spinner loading-lg"></span>
+      </div>
+    );
+  }
+
+  if (!hasAnyRole) {
+    return (
+      <div className="container mx-auto px-6 py-10 max-w-5xl text-center">
+        <h1 className="text-2xl font-bold mb-4">Admin</h1>
+        <p className="text-gray-500 mb-2">
+          Only accounts holding a LoanMaster admin, pool manager or guardian role can use this page.
+        </p>
+        {owner && (
+          <div className="flex justify-center items-center gap-2 text-sm">
+            Owner: <Address address={owner} />
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-6 py-10 max-w-6xl space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold mb-1">Protocol Admin</h1>
+        <p className="text-gray-500">Pools, parameters and active loans of LoanMaster.</p>
+      </div>
+
+      {error && <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>}
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-10">
+          <span className="loading loading-spinner loading-lg"></span>
+        </div>
+      ) : (
+        <>
+          <PoolsTable pools={pools} />
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <CreatePoolForm onCreated={refreshData} canManagePools={roles.poolManager} />
+            <PoolParametersForm pools={pools} onUpdated={refreshData} roles={roles} />
+          </div>
+          <ActiveBorrowersTable pools={pools} />
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Address, isAddress } from "viem";
+import { AddressInput } from "~~/components/scaffold-eth";
+import { TOKEN_ADDRESSES } from "~~/hooks/custom/useLoanMaster";
+import { useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import {
+  BASIS_POINTS,
+  InterestRateModel,
+  basisPointsToPercent,
+  borrowRate,
+  percentToBasisPoints,
+  validateRateModel,
+} from "~~/utils/interestRateModel";
+import { notification } from "~~/utils/scaffold-eth";
+
+export interface RateModelInputs {
+  baseRate: string;
+  slope1: string;
+  slope2: string;
+  kink: string;
+  reserveFactor: string;
+}
+
+export const rateModelToInputs = (model: InterestRateModel): RateModelInputs => ({
+  baseRate: basisPointsToPercent(model.baseRate),
+  slope1: basisPointsToPercent(model.slope1),
+  slope2: basisPointsToPercent(model.slope2),
+  kink: basisPointsToPercent(model.kink),
+  reserveFactor: basisPointsToPercent(model.reserveFactor),
+});
+
+export const inputsToRateModel = (inputs: RateModelInputs): InterestRateModel => ({
+  baseRate: percentToBasisPoints(inputs.baseRate),
+  slope1: percentToBasisPoints(inputs.slope1),
+  slope2: percentToBasisPoints(inputs.slope2),
+  kink: percentToBasisPoints(inputs.kink),
+  reserveFactor: percentToBasisPoints(inputs.reserveFactor),
+});
+
+const RATE_MODEL_FIELDS: { key: keyof RateModelInputs; label: string; hint: string }[] = [
+  { key: "baseRate", label: "Base rate", hint: "Borrow APR at 0% utilization" },
+  { key: "slope1", label: "Slope below kink", hint: "Added APR when utilization reaches the kink" },
+  { key: "slope2", label: "Slope above kink", hint: "Added APR from the kink to 100% utilization" },
+  { key: "kink", label: "Kink", hint: "Target utilization" },
+  { key: "reserveFactor", label: "Reserve factor", hint: "Share of interest kept as reserves" },
+];
+
+// Rate model inputs in percent with a preview of the borrow APR curve, shared by the create and update forms
+export const RateModelFields = ({
+  inputs,
+  onChange,
+}: {
+  inputs: RateModelInputs;
+  onChange: (inputs: RateModelInputs) => void;
+}) => {
+  const model = inputsToRateModel(inputs);
+  const validationError = validateRateModel(model);
+
+  return (
+    <div className="space-y-2">
+      {RATE_MODEL_FIELDS.map(({ key, label, hint }) => (
+        <label key={key} className="flex items-center justify-between gap-4">
+          <span className="text-sm">
+            {label}
+            <span className="block text-xs text-gray-500">{hint}</span>
+          </span>
+          <div className="flex items-center gap-1">
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              className="input input-bordered input-sm w-24 text-end"
+              value={inputs[key]}
+              onChange={e => onChange({ ...inputs, [key]: e.target.value })}
+            />
+            <span className="text-sm">%</span>
+          </div>
+        </label>
+      ))}
+      {validationError ? (
+        <p className="text-sm text-error">{validationError}</p>
+      ) : (
+        <p className="text-xs text-gray-500">
+          Borrow APR: {basisPointsToPercent(borrowRate(model, 0n))}% at 0% utilization,{" "}
+          {basisPointsToPercent(borrowRate(model, model.kink))}% at the kink,{" "}
+          {basisPointsToPercent(borrowRate(model, BASIS_POINTS))}% at 100%
+        </p>
+      )}
+    </div>
+  );
+};
+
+const DEFAULT_RATE_MODEL: RateModelInputs = {
+  baseRate: "2",
+  slope1: "8",
+  slope2: "100",
+  kink: "80",
+  reserveFactor: "10",
+};
+
+// Creating pools needs POOL_MANAGER_ROLE
+export const CreatePoolForm = ({
+  onCreated,
+  canManagePools,
+}: {
+  onCreated: () => Promise<void>;
+  canManagePools: boolean;
+}) => {
+  const [token, setToken] = useState<string>(TOKEN_ADDRESSES.USDC);
+  const [customToken, setCustomToken] = useState("");
+  const [minRiskLevel, setMinRiskLevel] = useState("1");
+  const [rateModel, setRateModel] = useState<RateModelInputs>(DEFAULT_RATE_MODEL);
+
+  const { writeContractAsync, isMining } = useScaffoldWriteContract({ contractName: "LoanMaster" });
+
+  const tokenAddress = token === "custom" ? customToken : token;
+  const riskLevel = Number(minRiskLevel);
+
+  const formError = useMemo(() => {
+    if (!canManagePools) return "Requires the pool manager role";
+    if (!isAddress(tokenAddress)) return "Enter a valid token address";
+    if (!Number.isInteger(riskLevel) || riskLevel < 1 || riskLevel > 10) return "Minimum risk level must be 1 to 10";
+    return validateRateModel(inputsToRateModel(rateModel));
+  }, [canManagePools, tokenAddress, riskLevel, rateModel]);
+
+  const handleCreate = async () => {
+    if (formError) return;
+
+    try {
+      await writeContractAsync({
+        functionName: "createLiquidityPool",
+        args: [tokenAddress as Address, inputsToRateModel(rateModel), riskLevel],
+      });
+      notification.success("Pool created");
+      await onCreated();
+    } catch (error) {
+      console.error("[AdminConsole] Create pool failed:", error);
+    }
+  };
+
+  return (
+    <div className="bg-base-100 rounded-xl shadow-md p-6 space-y-4">
+      <h2 className="text-xl font-bold">Create Pool</h2>
+
+      <label className="block">
+        <span className="text-sm">Token</span>
+        <select
+          className="select select-bordered select-sm w-full mt-1"
+          value={token}
+          onChange={e => setToken(e.target.value)}
+        >
+          {Object.entries(TOKEN_ADDRESSES).map(([symbol, address]) => (
+            <option key={address} value={address}>
+              {symbol}
+            </option>
+          ))}
+          <option value="custom">Other token…</option>
+        </select>
+      </label>
+      {token === "custom" && <AddressInput value={customToken} onChange={setCustomToken} placeholder="Token address" />}
+
+      <label className="flex items-center justify-between gap-4">
+        <span className="text-sm">
+          Minimum risk level
+          <span className="block text-xs text-gray-500">Lowest borrower score allowed to borrow (1 to 10)</span>
+        </span>
+        <input
+          type="number"
+          min="1"
+          max="10"
+          className="input input-bordered input-sm w-24 text-end"
+          value={minRiskLevel}
+          onChange={e => setMinRiskLevel(e.target.value)}
+        />
+      </label>
+
+      <RateModelFields inputs={rateModel} onChange={setRateModel} />
+
+      <button className="btn btn-primary w-full" disabled={!!formError || isMining} onClick={handleCreate}>
+        {isMining ? <span className="loading loading-spinner loading-sm"></span> : (formError ?? "Create Pool")}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,285 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { RateModelFields, RateModelInputs, inputsToRateModel, rateModelToInputs } from "./CreatePoolForm";
+import { formatUnits, parseUnits } from "viem";
+import { Pool, getPoolName } from "~~/hooks/custom/useLoanMaster";
+import { LoanMasterRole } from "~~/hooks/custom/useLoanMasterRoles";
+import { useScaffoldReadContract, useScaffoldWriteContract } from "~~/hooks/scaffold-eth";
+import { validateRateModel } from "~~/utils/interestRateModel";
+import { notification } from "~~/utils/scaffold-eth";
+
+const SECONDS_PER_DAY = 86400n;
+
+const formatCapInput = (cap: bigint, decimals: number) => (cap === 0n ? "0" : formatUnits(cap, decimals));
+
+// Parameters need POOL_MANAGER_ROLE, pausing GUARDIAN_ROLE and unpausing DEFAULT_ADMIN_ROLE
+export const PoolParametersForm = ({
+  pools,
+  onUpdated,
+  roles,
+}: {
+  pools: Pool[];
+  onUpdated: () => Promise<void>;
+  roles: Record<LoanMasterRole, boolean>;
+}) => {
+  const [selectedPoolId, setSelectedPoolId] = useState<bigint>(0n);
+  const pool = pools.find(p => p.poolId === selectedPoolId) ?? pools[0];
+  const poolId = pool?.poolId ?? 0n;
+  const decimals = pool ? pool.token.decimals : 18;
+  const symbol = pool ? pool.token.symbol : "";
+
+  const [rateModel, setRateModel] = useState<RateModelInputs | null>(null);
+  const [loanTermDays, setLoanTermDays] = useState("");
+  const [gracePeriodDays, setGracePeriodDays] = useState("");
+  const [supplyCap, setSupplyCap] = useState("");
+  const [borrowCap, setBorrowCap] = useState("");
+  const [tierRiskLevel, setTierRiskLevel] = useState("1");
+  const [tierCap, setTierCap] = useState("");
+
+  const { writeContractAsync, isMining } = useScaffoldWriteContract({ contractName: "LoanMaster" });
+
+  const { data: loanTerms } = useScaffoldReadContract({
+    contractName: "LoanMaster",
+    functionName: "getLoanTerms",
+    args: [poolId],
+  });
+
+  const { data: currentTierCap } = useScaffoldReadContract({
+    contractName: "LoanMaster",
+    functionName: "getTierBorrowCap",
+    args: [poolId, Number(tierRiskLevel)],
+  });
+
+  // Prefill the forms with the selected pool's current parameters
+  useEffect(() => {
+    if (!pool) return;
+    setRateModel(rateModelToInputs(pool.rateModel));
+    setSupplyCap(formatCapInput(pool.supplyCap, decimals));
+    setBorrowCap(formatCapInput(pool.borrowCap, decimals));
+  }, [pool?.poolId]);
+
+  useEffect(() => {
+    if (!loanTerms) return;
+    setLoanTermDays((loanTerms[0] / SECONDS_PER_DAY).toString());
+    setGracePeriodDays((loanTerms[1] / SECONDS_PER_DAY).toString());
+  }, [loanTerms]);
+
+  useEffect(() => {
+    if (currentTierCap === undefined) return;
+    setTierCap(formatCapInput(currentTierCap, decimals));
+  }, [currentTierCap, decimals]);
+
+  if (!pool) {
+    return (
+      <div className="bg-base-100 rounded-xl shadow-md p-6">
+        <h2 className="text-xl font-bold mb-2">Pool Parameters</h2>
+        <p className="text-gray-500">No pools yet.</p>
+      </div>
+    );
+  }
+
+  const send = async (description: string, write: () => Promise<unknown>) => {
+    try {
+      await write();
+      notification.success(`${description} updated for ${getPoolName(pool)}`);
+      await onUpdated();
+    } catch (error) {
+      console.error(`[AdminConsole] ${description} update failed:`, error);
+    }
+  };
+
+  const rateModelError = rateModel ? validateRateModel(inputsToRateModel(rateModel)) : null;
+  const loanTermsError = !(parseFloat(loanTermDays) > 0) ? "Loan term must be longer than zero" : null;
+  const riskLevel = Number(tierRiskLevel);
+  const managerError = roles.poolManager ? null : "Requires the pool manager role";
+  // Guardians can pause, only the admin can unpause
+  let pauseError: string | null = null;
+  if (pool.paused && !roles.admin) pauseError = "Unpausing requires the admin role";
+  else if (!pool.paused && !roles.guardian) pauseError = "Pausing requires the guardian role";
+
+  return (
+    <div className="bg-base-100 rounded-xl shadow-md p-6 space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <h2 className="text-xl font-bold">Pool Parameters</h2>
+        <select
+          className="select select-bordered select-sm"
+          value={poolId.toString()}
+          onChange={e => setSelectedPoolId(BigInt(e.target.value))}
+        >
+          {pools.map(p => (
+            <option key={p.poolId.toString()} value={p.poolId.toString()}>
+              #{p.poolId.toString()} {getPoolName(p)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {rateModel && (
+        <section className="space-y-2">
+          <h3 className="font-semibold">Interest rate model</h3>
+          <RateModelFields inputs={rateModel} onChange={setRateModel} />
+          <button
+            className="btn btn-sm btn-primary w-full"
+            disabled={!!managerError || !!rateModelError || isMining}
+            onClick={() =>
+              send("Rate model", () =>
+                writeContractAsync({ functionName: "setRateModel", args: [poolId, inputsToRateModel(rateModel)] }),
+              )
+            }
+          >
+            {managerError ?? "Update Rate Model"}
+          </button>
+        </section>
+      )}
+
+      <section className="space-y-2">
+        <h3 className="font-semibold">Loan terms</h3>
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-sm">
+            Loan term (days)
+            <input
+              type="number"
+              min="0"
+              className="input input-bordered input-sm w-full"
+              value={loanTermDays}
+              onChange={e => setLoanTermDays(e.target.value)}
+            />
+          </label>
+          <label className="text-sm">
+            Grace period (days)
+            <input
+              type="number"
+              min="0"
+              className="input input-bordered input-sm w-full"
+              value={gracePeriodDays}
+              onChange={e => setGracePeriodDays(e.target.value)}
+            />
+          </label>
+        </div>
+        <button
+          className="btn btn-sm btn-primary w-full"
+          disabled={!!managerError || !!loanTermsError || isMining}
+          onClick={() =>
+            send("Loan terms", () =>
+              writeContractAsync({
+                functionName: "setLoanTerms",
+                args: [
+                  poolId,
+                  BigInt(Math.round(parseFloat(loanTermDays) * 86400)),
+                  BigInt(Math.round((parseFloat(gracePeriodDays) || 0) * 86400)),
+                ],
+              }),
+            )
+          }
+        >
+          {managerError ?? loanTermsError ?? "Update Loan Terms"}
+        </button>
+      </section>
+
+      <section className="space-y-2">
+        <h3 className="font-semibold">Pool caps</h3>
+        <p className="text-xs text-gray-500">In {symbol}, 0 means no cap.</p>
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-sm">
+            Supply cap
+            <input
+              type="number"
+              min="0"
+              className="input input-bordered input-sm w-full"
+              value={supplyCap}
+              onChange={e => setSupplyCap(e.target.value)}
+            />
+          </label>
+          <label className="text-sm">
+            Borrow cap
+            <input
+              type="number"
+              min="0"
+              className="input input-bordered input-sm w-full"
+              value={borrowCap}
+              onChange={e => setBorrowCap(e.target.value)}
+            />
+          </label>
+        </div>
+        <button
+          className="btn btn-sm btn-primary w-full"
+          disabled={!!managerError || isMining}
+          onClick={() =>
+            send("Pool caps", () =>
+              writeContractAsync({
+                functionName: "setPoolCaps",
+                args: [poolId, parseUnits(supplyCap || "0", decimals), parseUnits(borrowCap || "0", decimals)],
+              }),
+            )
+          }
+        >
+          {managerError ?? "Update Pool Caps"}
+        </button>
+      </section>
+
+      <section className="space-y-2">
+        <h3 className="font-semibold">Borrow cap per risk level</h3>
+        <p className="text-xs text-gray-500">Largest single loan in {symbol} for borrowers with this score.</p>
+        <div className="grid grid-cols-2 gap-2">
+          <label className="text-sm">
+            Risk level
+            <select
+              className="select select-bordered select-sm w-full"
+              value={tierRiskLevel}
+              onChange={e => setTierRiskLevel(e.target.value)}
+            >
+              {Array.from({ length: 10 }, (_, i) => i + 1).map(level => (
+                <option key={level} value={level}>
+                  {level}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm">
+            Cap
+            <input
+              type="number"
+              min="0"
+              className="input input-bordered input-sm w-full"
+              value={tierCap}
+              onChange={e => setTierCap(e.target.value)}
+            />
+          </label>
+        </div>
+        <button
+          className="btn btn-sm btn-primary w-full"
+          disabled={!!managerError || isMining}
+          onClick={() =>
+            send(`Risk level ${riskLevel} borrow cap`, () =>
+              writeContractAsync({
+                functionName: "setTierBorrowCap",
+                args: [poolId, riskLevel, parseUnits(tierCap || "0", decimals)],
+              }),
+            )
+          }
+        >
+          {managerError ?? "Update Borrow Cap"}
+        </button>
+      </section>
+
+      <section className="space-y-2">
+        <h3 className="font-semibold">Emergency pause</h3>
+        <p className="text-xs text-gray-500">
+          A paused pool only accepts repayments, depositors can still use emergency withdraw.
+        </p>
+        <button
+          className={`btn btn-sm w-full ${pool.paused ? "btn-success" : "btn-error"}`}
+          disabled={!!pauseError || isMining}
+          onClick={() =>
+            send("Pause state", () =>
+              writeContractAsync({ functionName: "setPoolPaused", args: [poolId, !pool.paused] }),
+            )
+          }
+        >
+          {pauseError ?? (pool.paused ? "Unpause Pool" : "Pause Pool")}
+        </button>
+      </section>
+    </div>
+  );
+};
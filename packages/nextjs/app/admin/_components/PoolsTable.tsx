@@ -0,0 +1,70 @@
+import { formatUnits } from "viem";
+import { Pool, getPoolName } from "~~/hooks/custom/useLoanMaster";
+
+const formatPercent = (basisPoints: bigint) => `${(Number(basisPoints) / 100).toFixed(2)}%`;
+
+const formatCap = (cap: bigint, decimals: number, symbol: string) =>
+  cap === 0n ? "None" : `${parseFloat(formatUnits(cap, decimals)).toLocaleString()} ${symbol}`;
+
+export const PoolsTable = ({ pools }: { pools: Pool[] }) => {
+  return (
+    <div className="bg-base-100 rounded-xl shadow-md p-6">
+      <h2 className="text-xl font-bold mb-4">Pools</h2>
+      <div className="overflow-x-auto">
+        <table className="table table-zebra w-full table-sm">
+          <thead>
+            <tr>
+              <th>ID</th>
+              <th>Pool</th>
+              <th className="text-end">Liquidity</th>
+              <th className="text-end">Borrowed</th>
+              <th className="text-end">Utilization</th>
+              <th className="text-end">Borrow APR</th>
+              <th className="text-end">Deposit APR</th>
+              <th className="text-end">Reserves</th>
+              <th className="text-end">Supply / Borrow Cap</th>
+              <th>Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {pools.map(pool => {
+              const { symbol, decimals } = pool.token;
+              const format = (amount: bigint) => parseFloat(formatUnits(amount, decimals)).toLocaleString();
+
+              return (
+                <tr key={pool.poolId.toString()}>
+                  <td>{pool.poolId.toString()}</td>
+                  <td>{getPoolName(pool)}</td>
+                  <td className="text-end">
+                    {format(pool.liquidity)} {symbol}
+                  </td>
+                  <td className="text-end">
+                    {format(pool.totalBorrows)} {symbol}
+                  </td>
+                  <td className="text-end">{formatPercent(pool.utilization)}</td>
+                  <td className="text-end">{formatPercent(pool.borrowAPR)}</td>
+                  <td className="text-end">{formatPercent(pool.depositAPR)}</td>
+                  <td className="text-end">
+                    {format(pool.reserves)} {symbol}
+                  </td>
+                  <td className="text-end">
+                    {formatCap(pool.supplyCap, decimals, symbol)} / {formatCap(pool.borrowCap, decimals, symbol)}
+                  </td>
+                  <td>
+                    {pool.paused ? (
+                      <span className="badge badge-error badge-sm">Paused</span>
+                    ) : pool.pausedActions !== 0 ? (
+                      <span className="badge badge-warning badge-sm">Partly paused</span>
+                    ) : (
+                      <span className="badge badge-success badge-sm">Active</span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
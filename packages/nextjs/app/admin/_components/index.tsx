@@ -0,0 +1,5 @@
+export * from "./AdminConsole";
+export * from "./PoolsTable";
+export * from "./CreatePoolForm";
+export * from "./PoolParametersForm";
+export * from "./ActiveBorrowersTable";
@@ -0,0 +1,14 @@
+import { AdminConsole } from "./_components";
+import type { NextPage } from "next";
+import { getMetadata } from "~~/utils/scaffold-eth/getMetadata";
+
+export const metadata = getMetadata({
+  title: "Admin",
+  description: "Manage Unlloo liquidity pools and follow active loans",
+});
+
+const Admin: NextPage = () => {
+  return <AdminConsole />;
+};
+
+export default Admin;
@@ -0,0 +1,58 @@
+// @ts-nocheck
+import { NextResponse } from "next/server";
+import { getAddress } from "viem";
+import { scoreAddress } from "~~/services/addressScoringService";
+import { signScoreAttestation } from "~~/services/attestationService";
+
+interface ErrorResponse {
+  error: string;
+  timestamp: string;
+}
+
+type RouteContext = {
+  params: {
+    address: string;
+  };
+};
+
+export async function GET(request: Request, context: RouteContext): Promise<Response> {
+  const { address } = context.params;
+
+  console.log(`[${new Date().toISOString()}] Score attestation request for address: ${address}`);
+
+  try {
+    // Validate Ethereum address
+    if (!isValidEthereumAddress(address)) {
+      throw new Error("Invalid Ethereum address format");
+    }
+
+    // Always score fresh data, the attestation unlocks borrowing on-chain
+    const reputationScore = await scoreAddress(address);
+
+    const signedAttestation = await signScoreAttestation(getAddress(address), reputationScore);
+
+    return NextResponse.json(signedAttestation, {
+      headers: {
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error: unknown) {
+    console.error(`[${new Date().toISOString()}] Error issuing attestation for ${address}:`, error);
+
+    const errorMessage = error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      {
+        error: errorMessage,
+        timestamp: new Date().toISOString(),
+      } as ErrorResponse,
+      {
+        status: error instanceof Error && error.message.includes("Invalid") ? 400 : 500,
+      },
+    );
+  }
+}
+
+// Helper function to validate Ethereum address format
+function isValidEthereumAddress(address: string): boolean {
+  return /^0x[a-fA-F0-9]{40}$/.test(address);
+}
@@ -0,0 +1,67 @@
+// @ts-nocheck
+import { NextResponse } from "next/server";
+import { getAddress } from "viem";
+import { scoreAddress } from "~~/services/addressScoringService";
+import { issueReputationCredential } from "~~/services/attestationService";
+import { getScoringModel } from "~~/services/scoringModels";
+
+interface ErrorResponse {
+  error: string;
+  timestamp: string;
+}
+
+type RouteContext = {
+  params: {
+    address: string;
+  };
+};
+
+// Issues a signed, expiring Verifiable Credential of the address' score that partner protocols can verify offline
+export async function GET(request: Request, context: RouteContext): Promise<Response> {
+  const { address } = context.params;
+  const modelParam = new URL(request.url).searchParams.get("model");
+
+  console.log(`[${new Date().toISOString()}] Reputation credential request for address: ${address}`);
+
+  try {
+    // Validate Ethereum address
+    if (!isValidEthereumAddress(address)) {
+      throw new Error("Invalid Ethereum address format");
+    }
+
+    const scoringModel = getScoringModel(modelParam);
+
+    // Always score fresh data, the credential vouches for the score until it expires
+    const reputationScore = await scoreAddress(address, scoringModel);
+
+    const issuedCredential = await issueReputationCredential(
+      getAddress(address),
+      reputationScore,
+      scoringModel.version,
+    );
+
+    return NextResponse.json(issuedCredential, {
+      headers: {
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error: unknown) {
+    console.error(`[${new Date().toISOString()}] Error issuing reputation credential for ${address}:`, error);
+
+    const errorMessage = error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      {
+        error: errorMessage,
+        timestamp: new Date().toISOString(),
+      } as ErrorResponse,
+      {
+        status: error instanceof Error && error.message.includes("Invalid") ? 400 : 500,
+      },
+    );
+  }
+}
+
+// Helper function to validate Ethereum address format
+function isValidEthereumAddress(address: string): boolean {
+  return /^0x[a-fA-F0-9]{40}$/.test(address);
+}
@@ -0,0 +1,87 @@
+// @ts-nocheck
+import { NextResponse } from "next/server";
+import { findScoreJumps, getScoreHistoryStore } from "~~/services/scoreHistoryService";
+import { getScoringModel } from "~~/services/scoringModels";
+
+interface ErrorResponse {
+  error: string;
+  timestamp: string;
+}
+
+type RouteContext = {
+  params: {
+    address: string;
+  };
+};
+
+const MAX_SNAPSHOTS = 1000;
+
+// Score snapshots of the address by one scoring model, ?model= or the default one, oldest first, optionally within
+// ?from= and ?to= (ISO dates) and capped by ?limit=
+export async function GET(request: Request, context: RouteContext): Promise<Response> {
+  const { address } = context.params;
+  const { searchParams } = new URL(request.url);
+
+  try {
+    if (!isValidEthereumAddress(address)) {
+      throw new Error("Invalid Ethereum address format");
+    }
+
+    const scoringModel = getScoringModel(searchParams.get("model"));
+
+    const from = parseDateParam(searchParams.get("from"), "from");
+    const to = parseDateParam(searchParams.get("to"), "to");
+    if (from && to && from > to) {
+      throw new Error("Invalid range: from is after to");
+    }
+
+    const limitParam = searchParams.get("limit");
+    const limit = limitParam === null ? MAX_SNAPSHOTS : Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SNAPSHOTS) {
+      throw new Error(`Invalid limit, expected an integer between 1 and ${MAX_SNAPSHOTS}`);
+    }
+
+    const snapshots = await getScoreHistoryStore().query(address, { from, to, limit, model: scoringModel.id });
+
+    return NextResponse.json(
+      {
+        address,
+        snapshots,
+        jumps: findScoreJumps(snapshots),
+        metadata: {
+          model: scoringModel.id,
+          count: snapshots.length,
+          timestamp: new Date().toISOString(),
+        },
+      },
+      { headers: { "Cache-Control": "no-store" } },
+    );
+  } catch (error: unknown) {
+    console.error(`[${new Date().toISOString()}] Error reading score history for ${address}:`, error);
+
+    const errorMessage = error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      {
+        error: errorMessage,
+        timestamp: new Date().toISOString(),
+      } as ErrorResponse,
+      {
+        status: error instanceof Error && error.message.includes("Invalid") ? 400 : 500,
+      },
+    );
+  }
+}
+
+function parseDateParam(value: string | null, name: string): Date | undefined {
+  if (value === null) return undefined;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid ${name} date, expected an ISO 8601 date`);
+  }
+  return date;
+}
+
+// Helper function to validate Ethereum address format
+function isValidEthereumAddress(address: string): boolean {
+  return /^0x[a-fA-F0-9]{40}$/.test(address);
+}
@@ -1,7 +1,7 @@
 // @ts-nocheck
 import { NextResponse } from "next/server";
-import { fetchAddressData } from "~~/services/addressService";
-import { calculateReputationScore } from "~~/services/reputationService";
+import { scoreAddressWithInputs } from "~~/services/addressScoringService";
+import { getScoringModel } from "~~/services/scoringModels";
 
 interface ErrorResponse {
   error: string;
@@ -21,6 +21,8 @@ export async function GET(request: Request, context: RouteContext): Promise<Resp
   const { address } = context.params;
   const requestUrl = new URL(request.url);
   const refreshParam = requestUrl.searchParams.get("refresh") === "true";
+  const modelParam = requestUrl.searchParams.get("model");
+  const inputsParam = requestUrl.searchParams.get("inputs") === "true";
   const cacheTime = refreshParam ? 0 : DEFAULT_CACHE_TIME;
 
   console.log(`[${new Date().toISOString()}] Reputation request for address: ${address}`);
@@ -31,19 +33,21 @@ export async function GET(request: Request, context: RouteContext): Promise<Resp
       throw new Error("Invalid Ethereum address format");
     }
 
-    // Fetch address data (with cache control)
-    const combinedData = await fetchAddressData(address);
+    // Resolve the scoring model first so an unknown ?model= fails before any fetching
+    const scoringModel = getScoringModel(modelParam);
 
-    // Calculate reputation score
-    const reputationScore = calculateReputationScore(combinedData);
+    // Fetch address data from every Blockscout chain (with cache control), the address' history on Unlloo,
+    // its DAO votes, its credentials and whether it has a verified World ID, then calculate the score
+    const { score: reputationScore, inputs } = await scoreAddressWithInputs(address, scoringModel);
 
-    // Add metadata to the response
+    // Add metadata to the response, and the data the score was built from when asked for with ?inputs=true
     const response = {
       ...reputationScore,
+      ...(inputsParam && { inputs }),
       metadata: {
         address,
         timestamp: new Date().toISOString(),
-        calculationVersion: "1.0",
+        calculationVersion: scoringModel.version,
       },
     };
 
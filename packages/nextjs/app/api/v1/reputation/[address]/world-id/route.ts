@@ -0,0 +1,83 @@
+// @ts-nocheck
+import { NextResponse } from "next/server";
+import { WorldIdProof, getWorldIdVerification, verifyWorldIdProof } from "~~/services/worldIdService";
+
+interface ErrorResponse {
+  error: string;
+  timestamp: string;
+}
+
+type RouteContext = {
+  params: {
+    address: string;
+  };
+};
+
+// Whether the address has a verified World ID
+export async function GET(request: Request, context: RouteContext): Promise<Response> {
+  const { address } = context.params;
+
+  try {
+    if (!isValidEthereumAddress(address)) {
+      throw new Error("Invalid Ethereum address format");
+    }
+
+    const verification = await getWorldIdVerification(address);
+    return NextResponse.json(
+      { verified: !!verification, verifiedAt: verification?.verifiedAt ?? null },
+      { headers: { "Cache-Control": "no-store" } },
+    );
+  } catch (error: unknown) {
+    return errorResponse(error);
+  }
+}
+
+// Verifies a World ID proof whose signal is the address and links its nullifier to the address
+export async function POST(request: Request, context: RouteContext): Promise<Response> {
+  const { address } = context.params;
+
+  console.log(`[${new Date().toISOString()}] World ID verification request for address: ${address}`);
+
+  try {
+    if (!isValidEthereumAddress(address)) {
+      throw new Error("Invalid Ethereum address format");
+    }
+
+    const proof = (await request.json().catch(() => null)) as WorldIdProof | null;
+    if (!isWorldIdProof(proof)) {
+      throw new Error(
+        "Invalid request body, expected { merkle_root: string, nullifier_hash: string, proof: string, verification_level: string }",
+      );
+    }
+    const verification = await verifyWorldIdProof(address, proof);
+
+    return NextResponse.json({ verified: true, verifiedAt: verification.verifiedAt });
+  } catch (error: unknown) {
+    console.error(`[${new Date().toISOString()}] Error verifying World ID for ${address}:`, error);
+    return errorResponse(error);
+  }
+}
+
+function errorResponse(error: unknown): Response {
+  const errorMessage = error instanceof Error ? error.message : "An unknown error occurred";
+  const status = errorMessage.includes("Invalid") ? 400 : errorMessage.includes("already used") ? 409 : 500;
+
+  return NextResponse.json(
+    {
+      error: errorMessage,
+      timestamp: new Date().toISOString(),
+    } as ErrorResponse,
+    { status },
+  );
+}
+
+function isWorldIdProof(body: unknown): body is WorldIdProof {
+  if (typeof body !== "object" || body === null) return false;
+  const proof = body as Record<string, unknown>;
+  return ["merkle_root", "nullifier_hash", "proof", "verification_level"].every(key => typeof proof[key] === "string");
+}
+
+// Helper function to validate Ethereum address format
+function isValidEthereumAddress(address: string): boolean {
+  return /^0x[a-fA-F0-9]{40}$/.test(address);
+}
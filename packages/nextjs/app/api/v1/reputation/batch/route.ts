@@ -0,0 +1,84 @@
+// @ts-nocheck
+import { NextResponse } from "next/server";
+import { scoreAddresses } from "~~/services/addressScoringService";
+import { getScoringModel } from "~~/services/scoringModels";
+
+interface ErrorResponse {
+  error: string;
+  timestamp: string;
+}
+
+interface BatchRequest {
+  addresses: string[]; // Ethereum addresses or ENS names
+  model?: string;
+  cursor?: number; // index of the first address to score, from the previous page's nextCursor
+  pageSize?: number;
+}
+
+const MAX_ADDRESSES = 1000;
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 100;
+
+// Scores a page of the submitted addresses. Resubmit the same list with `cursor` set to `nextCursor`
+// until it is null, scores already computed are served from a shared cache.
+export async function POST(request: Request): Promise<Response> {
+  try {
+    const body = (await request.json().catch(() => null)) as BatchRequest | null;
+    if (!body || !Array.isArray(body.addresses) || body.addresses.some(address => typeof address !== "string")) {
+      throw new Error("Invalid request body, expected { addresses: string[] }");
+    }
+    if (body.addresses.length === 0 || body.addresses.length > MAX_ADDRESSES) {
+      throw new Error(`Invalid number of addresses, expected between 1 and ${MAX_ADDRESSES}`);
+    }
+
+    const cursor = body.cursor ?? 0;
+    const pageSize = body.pageSize ?? DEFAULT_PAGE_SIZE;
+    if (!Number.isInteger(cursor) || cursor < 0 || cursor >= body.addresses.length) {
+      throw new Error("Invalid cursor");
+    }
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+      throw new Error(`Invalid pageSize, expected an integer between 1 and ${MAX_PAGE_SIZE}`);
+    }
+
+    const scoringModel = getScoringModel(body.model);
+
+    console.log(
+      `[${new Date().toISOString()}] Batch reputation request for ${body.addresses.length} addresses (cursor ${cursor})`,
+    );
+
+    const page = body.addresses.slice(cursor, cursor + pageSize);
+    const results = await scoreAddresses(page, { model: scoringModel });
+    const nextCursor = cursor + page.length < body.addresses.length ? cursor + page.length : null;
+
+    return NextResponse.json(
+      {
+        results,
+        page: {
+          cursor,
+          nextCursor,
+          pageSize,
+          total: body.addresses.length,
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          calculationVersion: scoringModel.version,
+          failed: results.filter(result => result.error).length,
+        },
+      },
+      { headers: { "Cache-Control": "no-store" } },
+    );
+  } catch (error: unknown) {
+    console.error(`[${new Date().toISOString()}] Error scoring batch:`, error);
+
+    const errorMessage = error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      {
+        error: errorMessage,
+        timestamp: new Date().toISOString(),
+      } as ErrorResponse,
+      {
+        status: error instanceof Error && error.message.includes("Invalid") ? 400 : 500,
+      },
+    );
+  }
+}
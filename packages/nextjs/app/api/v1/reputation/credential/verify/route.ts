@@ -0,0 +1,65 @@
+// @ts-nocheck
+import { NextResponse } from "next/server";
+import { getCredentialIssuer } from "~~/services/attestationService";
+import { verifyReputationCredential } from "~~/utils/reputationCredential";
+
+interface ErrorResponse {
+  error: string;
+  timestamp: string;
+}
+
+interface VerifyRequest {
+  credential: string; // VC-JWT issued by /api/v1/reputation/{address}/credential
+  address?: string; // when set the credential must have been issued to this address
+}
+
+// Verifies a reputation credential against this API's issuer. Partners can run the same check themselves
+// with utils/reputationCredential.ts and the issuer address returned here.
+export async function POST(request: Request): Promise<Response> {
+  try {
+    const body = (await request.json().catch(() => null)) as VerifyRequest | null;
+    if (!body || typeof body.credential !== "string") {
+      throw new Error("Invalid request body, expected { credential: string }");
+    }
+    if (body.address !== undefined && !isValidEthereumAddress(body.address)) {
+      throw new Error("Invalid Ethereum address format");
+    }
+
+    const issuer = getCredentialIssuer();
+    const verification = await verifyReputationCredential(body.credential, {
+      trustedIssuers: [issuer],
+      subject: body.address,
+    });
+
+    // A credential that fails verification is a valid request, the reason is part of the response
+    return NextResponse.json(
+      verification.valid
+        ? {
+            valid: true,
+            issuer,
+            credentialSubject: verification.payload.vc.credentialSubject,
+            expiresAt: new Date(verification.payload.exp * 1000).toISOString(),
+          }
+        : { valid: false, issuer, reason: verification.reason },
+      { headers: { "Cache-Control": "no-store" } },
+    );
+  } catch (error: unknown) {
+    console.error(`[${new Date().toISOString()}] Error verifying reputation credential:`, error);
+
+    const errorMessage = error instanceof Error ? error.message : "An unknown error occurred";
+    return NextResponse.json(
+      {
+        error: errorMessage,
+        timestamp: new Date().toISOString(),
+      } as ErrorResponse,
+      {
+        status: error instanceof Error && error.message.includes("Invalid") ? 400 : 500,
+      },
+    );
+  }
+}
+
+// Helper function to validate Ethereum address format
+function isValidEthereumAddress(address: string): boolean {
+  return /^0x[a-fA-F0-9]{40}$/.test(address);
+}
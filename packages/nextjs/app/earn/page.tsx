@@ -1,10 +1,11 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
-import { Address } from "viem";
+import { formatUnits, parseUnits } from "viem";
 import { useAccount } from "wagmi";
 import { CryptoIcon } from "~~/components/custom/cryptoIcon";
-import { TOKEN_ADDRESSES, getTokenMetadata, useLoanMaster } from "~~/hooks/custom/useLoanMaster";
+import { getPoolActionBlocker, getPoolName, useLoanMaster } from "~~/hooks/custom/useLoanMaster";
+import { previewRates } from "~~/utils/interestRateModel";
 import { notification } from "~~/utils/scaffold-eth";
 
 // Remove the inline CryptoIcon component definition here
@@ -13,20 +14,37 @@ const EarnPage = () => {
   const { address: connectedAddress } = useAccount();
   const [depositAmount, setDepositAmount] = useState<string>("");
   const [withdrawAmount, setWithdrawAmount] = useState<string>("");
-  const [selectedPoolAddress, setSelectedPoolAddress] = useState<Address>(TOKEN_ADDRESSES.USDC);
+  const [selectedPoolId, setSelectedPoolId] = useState<bigint>(0n);
   const [isDepositing, setIsDepositing] = useState(false);
   const [isWithdrawing, setIsWithdrawing] = useState(false);
+  const [isEmergencyWithdrawing, setIsEmergencyWithdrawing] = useState(false);
+  // Set by the withdraw MAX button, the whole position is then redeemed by shares
+  const [withdrawAll, setWithdrawAll] = useState(false);
+  const [depositSharesPreview, setDepositSharesPreview] = useState<bigint | null>(null);
+  const [withdrawSharesPreview, setWithdrawSharesPreview] = useState<bigint | null>(null);
 
   // Get data from the hook
-  const { pools, userPositions, isLoading, error, addLiquidity, removeLiquidity, formatTokenAmount, refreshData } =
-    useLoanMaster();
+  const {
+    pools,
+    userPositions,
+    isLoading,
+    error,
+    deposit,
+    withdraw,
+    redeem,
+    emergencyWithdraw,
+    previewDeposit,
+    previewWithdraw,
+    formatTokenAmount,
+    refreshData,
+  } = useLoanMaster();
 
   console.log(`[EarnPage] Hook data:`, {
     poolsLength: pools.length,
     userDepositsLength: userPositions.deposits.length,
     isLoading,
     error,
-    selectedPoolAddress,
+    selectedPoolId,
   });
 
   // Transform pools for UI
@@ -34,11 +52,11 @@ const EarnPage = () => {
     console.log(`[EarnPage] Transforming pools:`, pools);
 
     return pools.map(pool => {
-      const metadata = getTokenMetadata(pool.tokenAddress);
+      const metadata = pool.token;
       const liquidityFormatted = parseFloat(formatTokenAmount(pool.liquidity, metadata.decimals));
       const depositAPR = Number(pool.depositAPR) / 100; // Convert from basis points
 
-      console.log(`[EarnPage] Pool ${metadata.symbol}:`, {
+      console.log(`[EarnPage] Pool ${pool.poolId} (${metadata.symbol}):`, {
         address: pool.tokenAddress,
         liquidity: liquidityFormatted,
         depositAPR,
@@ -46,8 +64,9 @@ const EarnPage = () => {
       });
 
       return {
-        id: metadata.symbol,
-        name: `${metadata.name} Pool`,
+        id: `${metadata.symbol}-${pool.poolId}`,
+        poolId: pool.poolId,
+        name: getPoolName(pool),
         address: pool.tokenAddress,
         symbol: metadata.symbol,
         iconColor: metadata.iconColor,
@@ -56,51 +75,49 @@ const EarnPage = () => {
         liquidity: liquidityFormatted,
         depositAPR,
         totalLiquidity: liquidityFormatted,
+        paused: pool.paused,
+        supplyCap: pool.supplyCap === 0n ? null : parseFloat(formatTokenAmount(pool.supplyCap, metadata.decimals)),
       };
     });
   }, [pools, formatTokenAmount]);
 
   // Get selected pool data
   const selectedPool = useMemo(() => {
-    const pool = availablePools.find(p => p.address === selectedPoolAddress);
+    const pool = availablePools.find(p => p.poolId === selectedPoolId);
     console.log(`[EarnPage] Selected pool:`, pool);
     return pool;
-  }, [availablePools, selectedPoolAddress]);
+  }, [availablePools, selectedPoolId]);
 
   // Calculate user stats for selected pool
   const userStats = useMemo(() => {
-    console.log(`[EarnPage] Calculating user stats for:`, selectedPoolAddress);
+    console.log(`[EarnPage] Calculating user stats for pool:`, selectedPoolId);
     console.log(`[EarnPage] User deposits:`, userPositions.deposits);
 
-    const userDeposit = userPositions.deposits.find(d => d.tokenAddress === selectedPoolAddress);
+    const userDeposit = userPositions.deposits.find(d => d.poolId === selectedPoolId);
 
     if (!userDeposit || !selectedPool) {
       console.log(`[EarnPage] No user deposit found for selected pool`);
       return {
         deposited: "0.0",
-        earned: "0.0",
+        shares: "0.0",
+        available: "0.0",
         apy: selectedPool?.depositAPR.toFixed(2) || "0.0",
       };
     }
 
-    const metadata = getTokenMetadata(userDeposit.tokenAddress);
-    const depositedAmount = parseFloat(formatTokenAmount(userDeposit.amount, metadata.decimals));
-
-    // Calculate simulated earnings (for display purposes)
-    // In a real implementation, this would come from the contract
-    const timeDeposited = 30; // Assume 30 days for demo
-    const dailyRate = selectedPool.depositAPR / 365 / 100;
-    const earnedAmount = depositedAmount * dailyRate * timeDeposited;
+    const metadata = userDeposit.pool.token;
 
+    // Shares use the pool token's decimals (1 share = 1 token unit for the first deposit)
     const stats = {
-      deposited: depositedAmount.toFixed(6),
-      earned: earnedAmount.toFixed(6),
+      deposited: parseFloat(formatTokenAmount(userDeposit.amount, metadata.decimals)).toFixed(6),
+      shares: parseFloat(formatTokenAmount(userDeposit.shares, metadata.decimals)).toFixed(6),
+      available: formatTokenAmount(userDeposit.maxWithdraw, metadata.decimals),
       apy: selectedPool.depositAPR.toFixed(2),
     };
 
     console.log(`[EarnPage] Calculated user stats:`, stats);
     return stats;
-  }, [userPositions.deposits, selectedPoolAddress, selectedPool, formatTokenAmount]);
+  }, [userPositions.deposits, selectedPoolId, selectedPool, formatTokenAmount]);
 
   // Calculate pool statistics
   const poolStats = useMemo(() => {
@@ -125,12 +142,82 @@ const EarnPage = () => {
     return stats;
   }, [selectedPool, userPositions.borrows]);
 
+  const selectedPoolData = useMemo(() => pools.find(p => p.poolId === selectedPoolId), [pools, selectedPoolId]);
+
+  // How the deposit APY moves once the typed amount is added to the pool
+  const depositRatePreview = useMemo(() => {
+    if (!selectedPoolData || !selectedPool || !depositAmount || parseFloat(depositAmount) <= 0) return null;
+
+    try {
+      const { before, after } = previewRates(selectedPoolData, {
+        deposit: parseUnits(depositAmount, selectedPool.decimals),
+      });
+      return { before: Number(before.depositAPR) / 100, after: Number(after.depositAPR) / 100 };
+    } catch {
+      return null;
+    }
+  }, [selectedPoolData, selectedPool, depositAmount]);
+
+  // Paused actions and caps are shown on the buttons instead of failing the transaction
+  const depositBlocker = useMemo(() => {
+    if (!selectedPoolData || !selectedPool) return null;
+
+    let amount = 0n;
+    try {
+      amount = depositAmount ? parseUnits(depositAmount, selectedPool.decimals) : 0n;
+    } catch {
+      // Invalid input is handled by the amount checks
+    }
+    return getPoolActionBlocker(selectedPoolData, "Deposit", amount);
+  }, [selectedPoolData, selectedPool, depositAmount]);
+
+  const withdrawBlocker = useMemo(
+    () => (selectedPoolData ? getPoolActionBlocker(selectedPoolData, "Withdraw") : null),
+    [selectedPoolData],
+  );
+
+  // Exact share previews for the amounts being typed
+  useEffect(() => {
+    setDepositSharesPreview(null);
+    if (!selectedPool || !depositAmount || parseFloat(depositAmount) <= 0) return;
+
+    let cancelled = false;
+    previewDeposit(selectedPool.poolId, depositAmount, selectedPool.decimals)
+      .then(shares => !cancelled && setDepositSharesPreview(shares))
+      .catch(err => console.error("[EarnPage] Deposit preview failed:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedPool, depositAmount, previewDeposit]);
+
+  useEffect(() => {
+    setWithdrawSharesPreview(null);
+    if (!selectedPool || !withdrawAmount || parseFloat(withdrawAmount) <= 0) return;
+
+    const userDeposit = userPositions.deposits.find(d => d.poolId === selectedPool.poolId);
+    if (withdrawAll && userDeposit && userDeposit.maxWithdraw === userDeposit.amount) {
+      setWithdrawSharesPreview(userDeposit.shares);
+      return;
+    }
+
+    let cancelled = false;
+    previewWithdraw(selectedPool.poolId, withdrawAmount, selectedPool.decimals)
+      .then(shares => !cancelled && setWithdrawSharesPreview(shares))
+      .catch(err => console.error("[EarnPage] Withdraw preview failed:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedPool, withdrawAmount, withdrawAll, userPositions.deposits, previewWithdraw]);
+
   // Handle pool selection change
-  const handlePoolChange = (poolAddress: Address) => {
-    console.log(`[EarnPage] Switching to pool:`, poolAddress);
-    setSelectedPoolAddress(poolAddress);
+  const handlePoolChange = (poolId: bigint) => {
+    console.log(`[EarnPage] Switching to pool:`, poolId);
+    setSelectedPoolId(poolId);
     setDepositAmount("");
     setWithdrawAmount("");
+    setWithdrawAll(false);
   };
 
   // Handle deposit
@@ -147,12 +234,13 @@ const EarnPage = () => {
     setIsDepositing(true);
     try {
       console.log(`[EarnPage] Starting deposit:`, {
+        poolId: selectedPool.poolId,
         tokenAddress: selectedPool.address,
         amount: depositAmount,
         decimals: selectedPool.decimals,
       });
 
-      await addLiquidity(selectedPool.address, depositAmount, selectedPool.decimals);
+      await deposit(selectedPool.poolId, depositAmount, selectedPool.decimals);
 
       notification.success(`Successfully deposited ${depositAmount} ${selectedPool.symbol}!`);
       setDepositAmount("");
@@ -179,37 +267,39 @@ const EarnPage = () => {
     }
 
     // Check if user has enough deposited
-    const userDeposit = userPositions.deposits.find(d => d.tokenAddress === selectedPool.address);
+    const userDeposit = userPositions.deposits.find(d => d.poolId === selectedPool.poolId);
     if (!userDeposit) {
       notification.error("No deposits found for this pool");
       return;
     }
 
-    const depositedAmount = parseFloat(formatTokenAmount(userDeposit.amount, selectedPool.decimals));
-    if (parseFloat(withdrawAmount) > depositedAmount) {
-      notification.error(`Cannot withdraw more than deposited (${depositedAmount.toFixed(6)} ${selectedPool.symbol})`);
+    const availableAmount = parseFloat(formatTokenAmount(userDeposit.maxWithdraw, selectedPool.decimals));
+    if (parseFloat(withdrawAmount) > availableAmount) {
+      notification.error(
+        `Cannot withdraw more than available (${availableAmount.toFixed(6)} ${selectedPool.symbol}), the rest is lent out`,
+      );
       return;
     }
 
     setIsWithdrawing(true);
     try {
       console.log(`[EarnPage] Starting withdrawal:`, {
+        poolId: selectedPool.poolId,
         tokenAddress: selectedPool.address,
         amount: withdrawAmount,
       });
 
-      // For full withdrawal, use removeLiquidity
-      if (parseFloat(withdrawAmount) >= depositedAmount * 0.99) {
-        // Allow for small rounding differences
-        await removeLiquidity(selectedPool.address);
+      if (withdrawAll && userDeposit.maxWithdraw === userDeposit.amount) {
+        // Redeem every share so no dust is left behind by rounding
+        await redeem(selectedPool.poolId, userDeposit.shares);
         notification.success(`Successfully withdrew all ${selectedPool.symbol}!`);
       } else {
-        // For partial withdrawal, you'd need a separate function in your contract
-        notification.error("Partial withdrawals not yet supported. Please withdraw full amount.");
-        return;
+        await withdraw(selectedPool.poolId, withdrawAmount, selectedPool.decimals);
+        notification.success(`Successfully withdrew ${withdrawAmount} ${selectedPool.symbol}!`);
       }
 
       setWithdrawAmount("");
+      setWithdrawAll(false);
 
       // Refresh data
       await refreshData();
@@ -221,6 +311,27 @@ const EarnPage = () => {
     }
   };
 
+  // Handle emergency withdraw, only offered while the pool is paused
+  const handleEmergencyWithdraw = async () => {
+    if (!selectedPool || !connectedAddress) return;
+
+    setIsEmergencyWithdrawing(true);
+    try {
+      console.log(`[EarnPage] Starting emergency withdrawal:`, { poolId: selectedPool.poolId });
+
+      await emergencyWithdraw(selectedPool.poolId);
+      notification.success(`Withdrew the available ${selectedPool.symbol} from the paused pool`);
+
+      // Refresh data
+      await refreshData();
+    } catch (error) {
+      console.error("[EarnPage] Emergency withdraw failed:", error);
+      notification.error(`Emergency withdraw failed: ${error instanceof Error ? error.message : "Unknown error"}`);
+    } finally {
+      setIsEmergencyWithdrawing(false);
+    }
+  };
+
   // Handle max deposit amount
   const handleMaxDeposit = () => {
     if (selectedPool) {
@@ -234,10 +345,11 @@ const EarnPage = () => {
   // Handle max withdraw amount
   const handleMaxWithdraw = () => {
     if (selectedPool) {
-      const userDeposit = userPositions.deposits.find(d => d.tokenAddress === selectedPool.address);
+      const userDeposit = userPositions.deposits.find(d => d.poolId === selectedPool.poolId);
       if (userDeposit) {
-        const maxAmount = formatTokenAmount(userDeposit.amount, selectedPool.decimals);
+        const maxAmount = formatTokenAmount(userDeposit.maxWithdraw, selectedPool.decimals);
         setWithdrawAmount(maxAmount);
+        setWithdrawAll(true);
       }
     }
   };
@@ -245,8 +357,8 @@ const EarnPage = () => {
   // Auto-select first pool when pools are loaded
   useEffect(() => {
     if (availablePools.length > 0 && !selectedPool) {
-      console.log(`[EarnPage] Auto-selecting first pool:`, availablePools[0].address);
-      setSelectedPoolAddress(availablePools[0].address);
+      console.log(`[EarnPage] Auto-selecting first pool:`, availablePools[0].poolId);
+      setSelectedPoolId(availablePools[0].poolId);
     }
   }, [availablePools, selectedPool]);
 
@@ -315,10 +427,8 @@ const EarnPage = () => {
                     </p>
                   </div>
                   <div className="bg-base-200 rounded-lg shadow flex flex-col items-center py-2 px-1">
-                    <p className="text-sm text-gray-400 mb-0">Earned</p>
-                    <p className="text-xl font-bold text-green-500 mt-0">
-                      +{userStats.earned} {selectedPool?.symbol || "ETH"}
-                    </p>
+                    <p className="text-sm text-gray-400 mb-0">Pool Shares</p>
+                    <p className="text-xl font-bold text-green-500 mt-0">{userStats.shares}</p>
                   </div>
                   <div className="bg-base-200 rounded-lg shadow flex flex-col items-center py-2 px-1">
                     <p className="text-sm text-gray-400 mb-0">Current APY</p>
@@ -333,14 +443,15 @@ const EarnPage = () => {
                 <div className="flex flex-wrap gap-3 justify-center">
                   {availablePools.map(pool => (
                     <button
-                      key={pool.address}
+                      key={pool.id}
                       className={`btn btn-sm flex items-center gap-2 ${
-                        selectedPoolAddress === pool.address ? "btn-primary" : "btn-outline"
+                        selectedPoolId === pool.poolId ? "btn-primary" : "btn-outline"
                       }`}
-                      onClick={() => handlePoolChange(pool.address)}
+                      onClick={() => handlePoolChange(pool.poolId)}
                     >
                       <CryptoIcon symbol={pool.symbol} color={pool.iconColor} imageUrl={pool.imageUrl} size={20} />
                       {pool.name}
+                      {pool.paused && <span className="badge badge-error badge-sm">Paused</span>}
                     </button>
                   ))}
                 </div>
@@ -348,6 +459,18 @@ const EarnPage = () => {
                   <div className="mt-3 text-sm text-gray-400 text-center">
                     Selected pool: {selectedPool.name} | APY: {selectedPool.depositAPR.toFixed(2)}% | Liquidity:{" "}
                     {selectedPool.totalLiquidity.toFixed(2)} {selectedPool.symbol}
+                    {selectedPool.supplyCap !== null && (
+                      <>
+                        {" "}
+                        | Supply cap: {selectedPool.supplyCap.toFixed(2)} {selectedPool.symbol}
+                      </>
+                    )}
+                  </div>
+                )}
+                {selectedPool?.paused && (
+                  <div className="mt-3 p-3 w-full max-w-3xl bg-red-50 border border-red-200 rounded-lg text-sm text-red-700 text-center">
+                    This pool is paused. Deposits, withdrawals and borrows are stopped, you can still take out your
+                    share of the idle liquidity with an emergency withdrawal.
                   </div>
                 )}
               </div>
@@ -385,13 +508,24 @@ const EarnPage = () => {
                       >
                         MAX
                       </button>
+                      {depositSharesPreview !== null && (
+                        <div className="flex-1 text-xs text-gray-500 text-right">
+                          You receive: {formatUnits(depositSharesPreview, selectedPool.decimals)} shares
+                        </div>
+                      )}
                     </div>
+                    {depositRatePreview && (
+                      <div className="w-full mb-4 text-xs text-gray-500 text-right">
+                        Pool APY after deposit: {depositRatePreview.before.toFixed(2)}% →{" "}
+                        {depositRatePreview.after.toFixed(2)}%
+                      </div>
+                    )}
                     <button
                       className="bg-purple-200 btn btn-primary w-full"
                       onClick={handleDeposit}
-                      disabled={isDepositing || !depositAmount || parseFloat(depositAmount) <= 0}
+                      disabled={isDepositing || !depositAmount || parseFloat(depositAmount) <= 0 || !!depositBlocker}
                     >
-                      {isDepositing ? "Depositing..." : "Deposit to Earn"}
+                      {isDepositing ? "Depositing..." : (depositBlocker ?? "Deposit to Earn")}
                     </button>
                   </div>
 
@@ -405,7 +539,10 @@ const EarnPage = () => {
                         placeholder="0.0"
                         className="input input-bordered flex-1 mr-2"
                         value={withdrawAmount}
-                        onChange={e => setWithdrawAmount(e.target.value)}
+                        onChange={e => {
+                          setWithdrawAmount(e.target.value);
+                          setWithdrawAll(false);
+                        }}
                       />
                       <div className="flex items-center gap-1">
                         <CryptoIcon
@@ -426,9 +563,14 @@ const EarnPage = () => {
                         MAX
                       </button>
                       <div className="flex-1 text-xs text-gray-500 text-right">
-                        Available: {userStats.deposited} {selectedPool.symbol}
+                        Available: {parseFloat(userStats.available).toFixed(6)} {selectedPool.symbol}
                       </div>
                     </div>
+                    {withdrawSharesPreview !== null && (
+                      <div className="mb-4 w-full text-xs text-gray-500 text-right">
+                        Burns: {formatUnits(withdrawSharesPreview, selectedPool.decimals)} shares
+                      </div>
+                    )}
                     <button
                       className="bg-purple-200 btn btn-outline w-full"
                       onClick={handleWithdraw}
@@ -436,11 +578,21 @@ const EarnPage = () => {
                         isWithdrawing ||
                         !withdrawAmount ||
                         parseFloat(withdrawAmount) <= 0 ||
-                        parseFloat(userStats.deposited) <= 0
+                        parseFloat(userStats.deposited) <= 0 ||
+                        !!withdrawBlocker
                       }
                     >
-                      {isWithdrawing ? "Withdrawing..." : "Withdraw"}
+                      {isWithdrawing ? "Withdrawing..." : (withdrawBlocker ?? "Withdraw")}
                     </button>
+                    {selectedPool.paused && parseFloat(userStats.shares) > 0 && (
+                      <button
+                        className="btn btn-error btn-outline w-full mt-2"
+                        onClick={handleEmergencyWithdraw}
+                        disabled={isEmergencyWithdrawing}
+                      >
+                        {isEmergencyWithdrawing ? "Withdrawing..." : "Emergency Withdraw"}
+                      </button>
+                    )}
                   </div>
                 </div>
               )}
@@ -474,7 +626,8 @@ const EarnPage = () => {
             <div className="bg-base-200 rounded p-4">
               <h3 className="text-lg font-semibold mb-1">Dynamic Interest Rates</h3>
               <p className="text-gray-500 text-sm">
-                APY varies based on pool utilization and borrower reputation scores.
+                Interest paid by borrowers goes to depositors, minus a small protocol reserve. Rates rise with pool
+                utilization, so the APY changes as funds are borrowed and deposited.
               </p>
             </div>
           </div>
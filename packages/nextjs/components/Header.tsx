@@ -7,6 +7,7 @@ import { usePathname } from "next/navigation";
 import { hardhat } from "viem/chains";
 import { Bars3Icon } from "@heroicons/react/24/outline";
 import { FaucetButton, RainbowKitCustomConnectButton } from "~~/components/scaffold-eth";
+import { useLoanMasterRoles } from "~~/hooks/custom/useLoanMasterRoles";
 import { useOutsideClick, useTargetNetwork } from "~~/hooks/scaffold-eth";
 
 type HeaderMenuLink = {
@@ -26,12 +27,20 @@ export const menuLinks: HeaderMenuLink[] = [
   },
 ];
 
+// Only shown to accounts holding a LoanMaster role
+const adminMenuLink: HeaderMenuLink = {
+  label: "Admin",
+  href: "/admin",
+};
+
 export const HeaderMenuLinks = () => {
   const pathname = usePathname();
+  const { hasAnyRole } = useLoanMasterRoles();
+  const links = hasAnyRole ? [...menuLinks, adminMenuLink] : menuLinks;
 
   return (
     <>
-      {menuLinks.map(({ label, href, icon }) => {
+      {links.map(({ label, href, icon }) => {
         const isActive = pathname === href;
         return (
           <li key={href}>
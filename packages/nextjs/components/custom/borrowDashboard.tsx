@@ -1,17 +1,20 @@
 import React, { useCallback, useEffect, useMemo, useState } from "react";
-import { Address } from "viem";
+import { Address, parseUnits } from "viem";
 import { ArrowTrendingUpIcon, ChevronDownIcon, CogIcon, ExclamationTriangleIcon } from "@heroicons/react/24/outline";
 import { useWbtcToUsd } from "~~/hooks/custom/useBtcPrice";
 import { useEthToUsd } from "~~/hooks/custom/useEthPrice";
-import { getTokenMetadata, useLoanMaster } from "~~/hooks/custom/useLoanMaster";
+import { LoanState, getPoolActionBlocker, getPoolName, useLoanMaster } from "~~/hooks/custom/useLoanMaster";
+import { useReputationScore } from "~~/hooks/custom/useReputationScore";
+import { useTierBorrowCaps } from "~~/hooks/custom/useTierBorrowCaps";
 import { useUnlooToUsd } from "~~/hooks/custom/useUnlooPrice";
+import { previewRates } from "~~/utils/interestRateModel";
 
 // Constants
-const BORROWING_CAP_USD = 1.5;
 const LOADING_TIMEOUT_MS = 10000;
 
 // Types for better type safety
 interface BorrowableAsset {
+  poolId: bigint;
   tokenAddress: Address;
   symbol: string;
   name: string;
@@ -22,9 +25,12 @@ interface BorrowableAsset {
   borrowAPR: number;
   depositAPR: number;
   liquidity: bigint;
+  minRiskLevel: number;
+  paused: boolean;
 }
 
 interface UserBorrow {
+  poolId: bigint;
   tokenAddress: Address;
   symbol: string;
   name: string;
@@ -32,12 +38,16 @@ interface UserBorrow {
   imageUrl?: string;
   decimals: number;
   principalAmount: number;
-  simulatedInterest: number;
+  accruedInterest: number;
   totalOwed: number;
   borrowAPR: number;
   rawAmount: bigint;
   displayRepayment: string;
   usdValue: number;
+  state: LoanState;
+  dueDate: number;
+  graceEndsAt: number;
+  repayBlocker: string | null;
 }
 
 // Logging utility
@@ -144,22 +154,71 @@ const useLoadingTimeout = (isLoading: boolean, timeoutMs: number = LOADING_TIMEO
   return isTimedOut;
 };
 
+// Current unix time in seconds, ticking for loan countdowns
+const useNow = (intervalMs: number = 1000) => {
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+};
+
+const formatDuration = (seconds: number) => {
+  const total = Math.max(0, seconds);
+  const days = Math.floor(total / 86400);
+  const hours = Math.floor((total % 86400) / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+
+  if (days > 0) return `${days}d ${hours}h ${minutes}m`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m ${total % 60}s`;
+};
+
+// The contract reports overdue loans lazily, so mirror that between refreshes
+const getLoanStatus = (borrow: UserBorrow, now: number) => {
+  const state = borrow.state === "Active" && now > borrow.dueDate ? "Overdue" : borrow.state;
+
+  switch (state) {
+    case "Active":
+      return {
+        label: "Active",
+        badgeClass: "bg-green-100 text-green-700",
+        detail: `Due in ${formatDuration(borrow.dueDate - now)}`,
+      };
+    case "Overdue":
+      return {
+        label: "Overdue",
+        badgeClass: "bg-orange-100 text-orange-700",
+        detail:
+          now > borrow.graceEndsAt
+            ? `Overdue by ${formatDuration(now - borrow.dueDate)}, grace period over - the loan can be marked as defaulted`
+            : `Overdue by ${formatDuration(now - borrow.dueDate)}, grace period ends in ${formatDuration(borrow.graceEndsAt - now)}`,
+      };
+    case "Defaulted":
+      return {
+        label: "Defaulted",
+        badgeClass: "bg-red-100 text-red-700",
+        detail: "Defaulted - repaying still settles the debt and lets you borrow again",
+      };
+    default:
+      return { label: state, badgeClass: "bg-gray-100 text-gray-700", detail: "" };
+  }
+};
+
 // Custom hook for managing borrow dashboard state
-const useBorrowDashboardState = (TOKEN_ADDRESSES: any) => {
+const useBorrowDashboardState = () => {
   const [isMounted, setIsMounted] = useState(false);
-  const [selectedTokenAddress, setSelectedTokenAddress] = useState<Address>("");
+  // Pool 0 is the default USDC pool
+  const [selectedPoolId, setSelectedPoolId] = useState<bigint>(0n);
   const [showAssetSelector, setShowAssetSelector] = useState(false);
   const [borrowAmount, setBorrowAmount] = useState("");
-  const [isRepaying, setIsRepaying] = useState<Record<Address, boolean>>({});
+  // Keyed by pool id
+  const [isRepaying, setIsRepaying] = useState<Record<string, boolean>>({});
   const [isBorrowing, setIsBorrowing] = useState(false);
 
-  // Set default token address when available
-  useEffect(() => {
-    if (TOKEN_ADDRESSES.USDC && !selectedTokenAddress) {
-      setSelectedTokenAddress(TOKEN_ADDRESSES.USDC);
-    }
-  }, [TOKEN_ADDRESSES.USDC, selectedTokenAddress]);
-
   // Set mounted flag after component mounts
   useEffect(() => {
     setIsMounted(true);
@@ -167,8 +226,8 @@ const useBorrowDashboardState = (TOKEN_ADDRESSES: any) => {
 
   return {
     isMounted,
-    selectedTokenAddress,
-    setSelectedTokenAddress,
+    selectedPoolId,
+    setSelectedPoolId,
     showAssetSelector,
     setShowAssetSelector,
     borrowAmount,
@@ -186,7 +245,7 @@ const useBorrowedAmounts = (userPositions: any, formatTokenAmount: any) => {
     const amounts = { eth: 0, wbtc: 0, usdc: 0, unloo: 0 };
 
     userPositions.borrows.forEach((borrow: any) => {
-      const metadata = getTokenMetadata(borrow.tokenAddress);
+      const metadata = borrow.pool.token;
       const amount = parseFloat(formatTokenAmount(borrow.amount, metadata.decimals));
 
       switch (metadata.symbol) {
@@ -297,14 +356,13 @@ export default function BorrowDashboard() {
     borrow,
     repayBorrow,
     formatTokenAmount,
-    TOKEN_ADDRESSES,
     getDisplayRepaymentAmount,
   } = useLoanMaster();
 
   const {
     isMounted,
-    selectedTokenAddress,
-    setSelectedTokenAddress,
+    selectedPoolId,
+    setSelectedPoolId,
     showAssetSelector,
     setShowAssetSelector,
     borrowAmount,
@@ -313,17 +371,23 @@ export default function BorrowDashboard() {
     setIsRepaying,
     isBorrowing,
     setIsBorrowing,
-  } = useBorrowDashboardState(TOKEN_ADDRESSES);
+  } = useBorrowDashboardState();
 
   const { showError, showSuccess } = useNotifications();
+  const now = useNow();
+
+  // The attestation signs the same risk level, LoanMaster caps the borrow by it per pool
+  const { reputationScore } = useReputationScore();
+  const { caps: tierBorrowCaps } = useTierBorrowCaps(selectedPoolId);
 
   // Calculate total borrowed amounts for each token
   const totalBorrowedAmounts = useBorrowedAmounts(userPositions, formatTokenAmount);
 
   // Calculate selected asset metadata
   const selectedAssetMetadata = useMemo(() => {
-    return selectedTokenAddress ? getTokenMetadata(selectedTokenAddress) : null;
-  }, [selectedTokenAddress]);
+    const pool = pools.find(p => p.poolId === selectedPoolId);
+    return pool ? pool.token : null;
+  }, [pools, selectedPoolId]);
 
   // Get USD calculations
   const {
@@ -344,20 +408,27 @@ export default function BorrowDashboard() {
     currentBorrowAmountNumber,
   } = useUSDCalculations(totalBorrowedAmounts, selectedAssetMetadata, borrowAmount);
 
-  // Borrowing cap calculations
-  const remainingBorrowCapacity = Math.max(0, BORROWING_CAP_USD - totalBorrowedUsd);
-  const isOverCap = potentialNewTotal > BORROWING_CAP_USD;
+  // Borrowing cap calculations, in tokens of the selected pool like the contract's check of debt plus amount
+  const borrowLimit = reputationScore && tierBorrowCaps ? (tierBorrowCaps[reputationScore.riskLevel] ?? 0) : null;
+  const selectedPoolOwed = useMemo(() => {
+    const borrow = userPositions.borrows.find(b => b.poolId === selectedPoolId);
+    return borrow ? parseFloat(formatTokenAmount(borrow.totalOwed, borrow.pool.token.decimals)) : 0;
+  }, [userPositions.borrows, selectedPoolId, formatTokenAmount]);
+  const remainingBorrowCapacity = borrowLimit === null ? 0 : Math.max(0, borrowLimit - selectedPoolOwed);
+  const isOverCap = borrowLimit !== null && selectedPoolOwed + currentBorrowAmountNumber > borrowLimit;
+  const borrowLimitUsed = borrowLimit ? Math.min(selectedPoolOwed / borrowLimit, 1) : 1;
 
   // Transform pools data for UI
   const borrowableAssets = useMemo((): BorrowableAsset[] => {
     return pools.map(pool => {
-      const metadata = getTokenMetadata(pool.tokenAddress);
+      const metadata = pool.token;
       const available = parseFloat(formatTokenAmount(pool.liquidity, metadata.decimals));
 
       return {
+        poolId: pool.poolId,
         tokenAddress: pool.tokenAddress,
         symbol: metadata.symbol,
-        name: metadata.name,
+        name: getPoolName(pool),
         iconColor: metadata.iconColor,
         imageUrl: metadata.imageUrl,
         decimals: metadata.decimals,
@@ -365,6 +436,8 @@ export default function BorrowDashboard() {
         borrowAPR: Number(pool.borrowAPR) / 100,
         depositAPR: Number(pool.depositAPR) / 100,
         liquidity: pool.liquidity,
+        minRiskLevel: pool.minRiskLevel,
+        paused: pool.paused,
       };
     });
   }, [pools, formatTokenAmount]);
@@ -373,8 +446,8 @@ export default function BorrowDashboard() {
   const userBorrows = useMemo((): UserBorrow[] => {
     // @ts-ignore
     return userPositions.borrows.map((borrow: any) => {
-      const metadata = getTokenMetadata(borrow.tokenAddress);
-      const displayRepayment = getDisplayRepaymentAmount(borrow.tokenAddress);
+      const metadata = borrow.pool.token;
+      const displayRepayment = getDisplayRepaymentAmount(borrow.poolId);
       const principalAmount = parseFloat(formatTokenAmount(borrow.amount, metadata.decimals));
 
       // Calculate USD value for this borrow
@@ -390,19 +463,24 @@ export default function BorrowDashboard() {
       }
 
       return {
+        poolId: borrow.poolId,
         tokenAddress: borrow.tokenAddress,
         symbol: metadata.symbol,
-        name: metadata.name,
+        name: getPoolName(borrow.pool),
         iconColor: metadata.iconColor,
         imageUrl: metadata.imageUrl,
         decimals: metadata.decimals,
         principalAmount,
-        simulatedInterest: borrow.simulatedInterest || 0,
-        totalOwed: borrow.totalOwed || principalAmount,
+        accruedInterest: parseFloat(formatTokenAmount(borrow.interest, metadata.decimals)),
+        totalOwed: parseFloat(formatTokenAmount(borrow.totalOwed, metadata.decimals)),
         borrowAPR: Number(borrow.pool.borrowAPR) / 100,
         rawAmount: borrow.amount,
         displayRepayment,
         usdValue,
+        state: borrow.state,
+        dueDate: borrow.dueDate,
+        graceEndsAt: borrow.graceEndsAt,
+        repayBlocker: getPoolActionBlocker(borrow.pool, "Repay"),
       };
     });
   }, [
@@ -416,8 +494,35 @@ export default function BorrowDashboard() {
   ]);
 
   const selectedAsset = useMemo(() => {
-    return borrowableAssets.find(asset => asset.tokenAddress === selectedTokenAddress) || borrowableAssets[0];
-  }, [borrowableAssets, selectedTokenAddress]);
+    return borrowableAssets.find(asset => asset.poolId === selectedPoolId) || borrowableAssets[0];
+  }, [borrowableAssets, selectedPoolId]);
+
+  // How the pool's borrow APR moves once the typed amount is borrowed
+  const borrowRatePreview = useMemo(() => {
+    const pool = selectedAsset && pools.find(p => p.poolId === selectedAsset.poolId);
+    if (!pool || !borrowAmount || parseFloat(borrowAmount) <= 0) return null;
+
+    try {
+      const { before, after } = previewRates(pool, { borrow: parseUnits(borrowAmount, selectedAsset.decimals) });
+      return { before: Number(before.borrowAPR) / 100, after: Number(after.borrowAPR) / 100 };
+    } catch {
+      return null;
+    }
+  }, [pools, selectedAsset, borrowAmount]);
+
+  // Paused pools and full borrow caps are shown on the button instead of failing the transaction
+  const borrowBlocker = useMemo(() => {
+    const pool = selectedAsset && pools.find(p => p.poolId === selectedAsset.poolId);
+    if (!pool) return null;
+
+    let amount = 0n;
+    try {
+      amount = borrowAmount ? parseUnits(borrowAmount, selectedAsset.decimals) : 0n;
+    } catch {
+      // Invalid input is handled by the amount checks
+    }
+    return getPoolActionBlocker(pool, "Borrow", amount);
+  }, [pools, selectedAsset, borrowAmount]);
 
   // Check for loading timeout
   const isLoadingTimedOut = useLoadingTimeout(loanMasterLoading || ethLoading || wbtcLoading || unlooLoading);
@@ -428,7 +533,7 @@ export default function BorrowDashboard() {
 
     setIsBorrowing(true);
     try {
-      await borrow(selectedAsset.tokenAddress, borrowAmount, selectedAsset.decimals);
+      await borrow(selectedAsset.poolId, borrowAmount, selectedAsset.decimals);
       setBorrowAmount("");
       //showSuccess(`Successfully borrowed ${borrowAmount} ${selectedAsset.symbol}!`);
     } catch (error) {
@@ -440,16 +545,16 @@ export default function BorrowDashboard() {
   }, [borrowAmount, selectedAsset, isOverCap, borrow, showSuccess, showError]);
 
   const handleRepay = useCallback(
-    async (tokenAddress: Address) => {
-      setIsRepaying(prev => ({ ...prev, [tokenAddress]: true }));
+    async (poolId: bigint) => {
+      setIsRepaying(prev => ({ ...prev, [poolId.toString()]: true }));
       try {
-        await repayBorrow(tokenAddress);
+        await repayBorrow(poolId);
         //showSuccess("Repayment successful!");
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
         showError(`Repay failed: ${errorMessage}`);
       } finally {
-        setIsRepaying(prev => ({ ...prev, [tokenAddress]: false }));
+        setIsRepaying(prev => ({ ...prev, [poolId.toString()]: false }));
       }
     },
     [repayBorrow, showSuccess, showError],
@@ -458,7 +563,7 @@ export default function BorrowDashboard() {
   const handleRepayAll = useCallback(async () => {
     for (const borrow of userBorrows) {
       try {
-        await handleRepay(borrow.tokenAddress);
+        await handleRepay(borrow.poolId);
       } catch (error) {
         logger.error(`Failed to repay ${borrow.symbol}`, error);
       }
@@ -466,45 +571,15 @@ export default function BorrowDashboard() {
   }, [userBorrows, handleRepay]);
 
   const handleMaxAmount = useCallback(() => {
-    if (!selectedAsset || !selectedAssetMetadata) return;
-
-    const maxUsdAmount = remainingBorrowCapacity;
-    let maxTokenAmount = selectedAsset.available;
-
-    // Calculate max amount based on USD capacity and current prices
-    if (selectedAssetMetadata.symbol === "WETH" && ethInputUsd !== null && currentBorrowAmountNumber > 0) {
-      const ethPrice = ethInputUsd / currentBorrowAmountNumber;
-      if (ethPrice > 0) {
-        maxTokenAmount = Math.min(maxUsdAmount / ethPrice, selectedAsset.available);
-      }
-    } else if (selectedAssetMetadata.symbol === "WBTC" && wbtcInputUsd !== null && currentBorrowAmountNumber > 0) {
-      const wbtcPrice = wbtcInputUsd / currentBorrowAmountNumber;
-      if (wbtcPrice > 0) {
-        maxTokenAmount = Math.min(maxUsdAmount / wbtcPrice, selectedAsset.available);
-      }
-    } else if (selectedAssetMetadata.symbol === "UNLOO" && unlooInputUsd !== null && currentBorrowAmountNumber > 0) {
-      const unlooPrice = unlooInputUsd / currentBorrowAmountNumber;
-      if (unlooPrice > 0) {
-        maxTokenAmount = Math.min(maxUsdAmount / unlooPrice, selectedAsset.available);
-      }
-    } else if (selectedAssetMetadata.symbol === "USDC") {
-      maxTokenAmount = Math.min(maxUsdAmount, selectedAsset.available);
-    }
+    if (!selectedAsset) return;
 
+    const maxTokenAmount = Math.min(remainingBorrowCapacity, selectedAsset.available);
     const finalAmount = Math.max(0, maxTokenAmount).toFixed(6);
     setBorrowAmount(finalAmount);
-  }, [
-    selectedAsset,
-    selectedAssetMetadata,
-    remainingBorrowCapacity,
-    ethInputUsd,
-    wbtcInputUsd,
-    unlooInputUsd,
-    currentBorrowAmountNumber,
-  ]);
+  }, [selectedAsset, remainingBorrowCapacity]);
 
-  const handleAssetSelect = useCallback((tokenAddress: Address) => {
-    setSelectedTokenAddress(tokenAddress);
+  const handleAssetSelect = useCallback((poolId: bigint) => {
+    setSelectedPoolId(poolId);
     setShowAssetSelector(false);
     setBorrowAmount("");
   }, []);
@@ -610,34 +685,43 @@ export default function BorrowDashboard() {
           </div>
 
           <div className="flex justify-between items-center mb-3">
-            <span className="text-gray-600">Borrowing Limit</span>
-            <span className="font-medium">${BORROWING_CAP_USD.toFixed(2)}</span>
+            <span className="text-gray-600">
+              Borrowing Limit
+              {selectedAsset && <span className="block text-xs text-gray-500">{selectedAsset.name}</span>}
+            </span>
+            <span className="font-medium">
+              {borrowLimit === null
+                ? "Checking your risk level..."
+                : `${borrowLimit.toLocaleString(undefined, { maximumFractionDigits: 6 })} ${selectedAsset?.symbol ?? ""}`}
+            </span>
           </div>
 
-          <div className="w-full bg-gray-200 rounded-full h-3 mb-2">
-            <div
-              className={`h-3 rounded-full transition-all duration-300 ${
-                totalBorrowedUsd / BORROWING_CAP_USD > 0.8
-                  ? "bg-red-500"
-                  : totalBorrowedUsd / BORROWING_CAP_USD > 0.6
-                    ? "bg-yellow-500"
-                    : "bg-green-500"
-              }`}
-              style={{ width: `${Math.min((totalBorrowedUsd / BORROWING_CAP_USD) * 100, 100)}%` }}
-            ></div>
-          </div>
+          {borrowLimit !== null && (
+            <>
+              <div className="w-full bg-gray-200 rounded-full h-3 mb-2">
+                <div
+                  className={`h-3 rounded-full transition-all duration-300 ${
+                    borrowLimitUsed > 0.8 ? "bg-red-500" : borrowLimitUsed > 0.6 ? "bg-yellow-500" : "bg-green-500"
+                  }`}
+                  style={{ width: `${borrowLimitUsed * 100}%` }}
+                ></div>
+              </div>
 
-          <div className="flex justify-between text-sm">
-            <span className="text-gray-500">{((totalBorrowedUsd / BORROWING_CAP_USD) * 100).toFixed(1)}% used</span>
-            <span className={`font-medium ${remainingBorrowCapacity > 0 ? "text-green-600" : "text-red-600"}`}>
-              ${remainingBorrowCapacity.toFixed(2)} remaining
-            </span>
-          </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-gray-500">{(borrowLimitUsed * 100).toFixed(1)}% used</span>
+                <span className={`font-medium ${remainingBorrowCapacity > 0 ? "text-green-600" : "text-red-600"}`}>
+                  {remainingBorrowCapacity.toLocaleString(undefined, { maximumFractionDigits: 6 })}{" "}
+                  {selectedAsset?.symbol} remaining
+                </span>
+              </div>
 
-          {remainingBorrowCapacity <= 0 && (
-            <div className="mt-3 p-2 bg-red-50 border border-red-200 rounded text-sm text-red-700">
-              ⚠️ You have reached your borrowing limit. Please repay some loans to borrow more.
-            </div>
+              {remainingBorrowCapacity <= 0 && (
+                <div className="mt-3 p-2 bg-red-50 border border-red-200 rounded text-sm text-red-700">
+                  ⚠️ You have reached your borrowing limit for this pool. Please repay your loan or raise your score to
+                  borrow more.
+                </div>
+              )}
+            </>
           )}
         </div>
       </div>
@@ -655,7 +739,7 @@ export default function BorrowDashboard() {
           {userBorrows.length > 0 ? (
             <div className="space-y-4">
               {userBorrows.map(borrow => (
-                <div key={borrow.tokenAddress} className="bg-gray-50 rounded-lg p-4">
+                <div key={borrow.poolId.toString()} className="bg-gray-50 rounded-lg p-4">
                   <div className="flex justify-between items-start mb-3">
                     <div className="flex items-center gap-3">
                       <CryptoIcon
@@ -671,11 +755,16 @@ export default function BorrowDashboard() {
                     </div>
 
                     <button
-                      onClick={() => handleRepay(borrow.tokenAddress)}
-                      disabled={isRepaying[borrow.tokenAddress]}
+                      onClick={() => handleRepay(borrow.poolId)}
+                      disabled={isRepaying[borrow.poolId.toString()] || !!borrow.repayBlocker}
+                      title={borrow.repayBlocker ?? undefined}
                       className="bg-green-600 hover:bg-green-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white px-4 py-2 rounded text-sm font-medium transition-colors"
                     >
-                      {isRepaying[borrow.tokenAddress] ? "Repaying..." : "Repay"}
+                      {isRepaying[borrow.poolId.toString()]
+                        ? "Repaying..."
+                        : borrow.repayBlocker
+                          ? "Repay Paused"
+                          : "Repay"}
                     </button>
                   </div>
 
@@ -699,7 +788,7 @@ export default function BorrowDashboard() {
                     <div className="flex justify-between">
                       <span className="text-gray-600">Accrued Interest:</span>
                       <span className="font-medium text-orange-600">
-                        {borrow.simulatedInterest.toLocaleString(undefined, {
+                        {borrow.accruedInterest.toLocaleString(undefined, {
                           minimumFractionDigits: 2,
                           maximumFractionDigits: 6,
                         })}{" "}
@@ -722,12 +811,30 @@ export default function BorrowDashboard() {
                       <span className="text-gray-600">Borrow APR:</span>
                       <span className="font-medium text-indigo-600">{borrow.borrowAPR.toFixed(2)}%</span>
                     </div>
+
+                    <div className="flex justify-between">
+                      <span className="text-gray-600">Due Date:</span>
+                      <span className="font-medium">{new Date(borrow.dueDate * 1000).toLocaleString()}</span>
+                    </div>
                   </div>
 
+                  {/* Loan term status */}
+                  {(() => {
+                    const status = getLoanStatus(borrow, now);
+                    return (
+                      <div className="mt-3 flex items-center gap-2 text-xs">
+                        <span className={`px-2 py-0.5 rounded-full font-medium ${status.badgeClass}`}>
+                          {status.label}
+                        </span>
+                        <span className="text-gray-600">{status.detail}</span>
+                      </div>
+                    );
+                  })()}
+
                   {/* Info about actual repayment */}
                   <div className="mt-3 p-2 bg-blue-50 border border-blue-200 rounded text-xs text-blue-700">
-                    💡 <strong>Promotional Rate:</strong> You only need to repay the principal amount (
-                    {borrow.principalAmount.toFixed(6)} {borrow.symbol}) - interest is waived!
+                    💡 Interest accrues every second. Repaying settles the principal plus the interest owed when the
+                    transaction is mined.
                   </div>
                 </div>
               ))}
@@ -766,17 +873,6 @@ export default function BorrowDashboard() {
         <div className="p-4">
           {borrowableAssets.length > 0 ? (
             <>
-              {/* Promotional Banner */}
-              <div className="mb-6 p-4 bg-gradient-to-r from-green-50 to-blue-50 border border-green-200 rounded-lg">
-                <div className="flex items-center gap-2 text-green-700 font-medium mb-1">
-                  🎉 <span>Limited Time Promotion!</span>
-                </div>
-                <p className="text-sm text-green-600">
-                  Borrow with <strong>0% interest</strong> - you only repay the principal amount! Interest calculations
-                  are shown for transparency but waived during our promotional period.
-                </p>
-              </div>
-
               {/* Asset Selector */}
               <div className="mb-6">
                 <label className="block text-sm font-medium text-gray-700 mb-1">Asset</label>
@@ -792,7 +888,10 @@ export default function BorrowDashboard() {
                         imageUrl={selectedAsset?.imageUrl}
                         size={28}
                       />
-                      <div className="font-medium">{selectedAsset?.symbol || "Select Asset"}</div>
+                      <div>
+                        <div className="font-medium text-left">{selectedAsset?.symbol || "Select Asset"}</div>
+                        {selectedAsset && <div className="text-xs text-gray-500 text-left">{selectedAsset.name}</div>}
+                      </div>
                     </div>
                     <ChevronDownIcon className="h-5 w-5 text-gray-400" />
                   </button>
@@ -801,9 +900,9 @@ export default function BorrowDashboard() {
                     <div className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg">
                       {borrowableAssets.map(asset => (
                         <button
-                          key={asset.tokenAddress}
+                          key={asset.poolId.toString()}
                           className="w-full flex items-center gap-2 p-3 hover:bg-gray-50 transition-colors"
-                          onClick={() => handleAssetSelect(asset.tokenAddress)}
+                          onClick={() => handleAssetSelect(asset.poolId)}
                         >
                           <CryptoIcon
                             symbol={asset.symbol}
@@ -813,7 +912,10 @@ export default function BorrowDashboard() {
                           />
                           <div>
                             <div className="font-medium text-left">{asset.symbol}</div>
-                            <div className="text-xs text-gray-500 text-left">{asset.name}</div>
+                            <div className="text-xs text-gray-500 text-left">
+                              {asset.name}
+                              {asset.paused && <span className="ml-2 text-red-600 font-medium">Paused</span>}
+                            </div>
                           </div>
                         </button>
                       ))}
@@ -838,15 +940,8 @@ export default function BorrowDashboard() {
                     </div>
 
                     <div className="flex justify-between text-sm">
-                      <span className="text-gray-600">Standard Borrow APR</span>
-                      <span className="font-medium text-indigo-600 line-through">
-                        {selectedAsset.borrowAPR.toFixed(2)}%
-                      </span>
-                    </div>
-
-                    <div className="flex justify-between text-sm">
-                      <span className="text-gray-600">Promotional Rate</span>
-                      <span className="font-bold text-green-600">0.00% 🎉</span>
+                      <span className="text-gray-600">Borrow APR</span>
+                      <span className="font-medium text-indigo-600">{selectedAsset.borrowAPR.toFixed(2)}%</span>
                     </div>
 
                     <div className="flex justify-between text-sm">
@@ -916,6 +1011,14 @@ export default function BorrowDashboard() {
                               ${potentialNewTotal.toFixed(2)}
                             </span>
                           </div>
+                          {borrowRatePreview && (
+                            <div className="flex justify-between">
+                              <span className="text-gray-600">Borrow APR after:</span>
+                              <span className="font-medium text-indigo-600">
+                                {borrowRatePreview.before.toFixed(2)}% → {borrowRatePreview.after.toFixed(2)}%
+                              </span>
+                            </div>
+                          )}
                         </div>
                       )}
                     </div>
@@ -923,8 +1026,9 @@ export default function BorrowDashboard() {
                     {/* Over Cap Warning */}
                     {isOverCap && (
                       <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
-                        ⚠️ <strong>Borrowing Limit Exceeded:</strong> This amount would exceed your $1.50 borrowing
-                        limit. Please reduce the amount or repay existing loans.
+                        ⚠️ <strong>Borrowing Limit Exceeded:</strong> This amount would exceed your borrowing limit of{" "}
+                        {borrowLimit?.toLocaleString(undefined, { maximumFractionDigits: 6 })} {selectedAsset.symbol}{" "}
+                        for this pool. Please reduce the amount or repay your loan.
                       </div>
                     )}
 
@@ -935,22 +1039,28 @@ export default function BorrowDashboard() {
                         !borrowAmount ||
                         parseFloat(borrowAmount) <= 0 ||
                         parseFloat(borrowAmount) > selectedAsset.available ||
+                        borrowLimit === null ||
                         isOverCap ||
-                        remainingBorrowCapacity <= 0
+                        remainingBorrowCapacity <= 0 ||
+                        !!borrowBlocker
                       }
                       className="w-full bg-indigo-600 hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed text-white py-3 rounded-lg font-medium transition-colors"
                     >
                       {isBorrowing
                         ? "Borrowing..."
-                        : !borrowAmount || parseFloat(borrowAmount) <= 0
-                          ? "Enter Amount"
-                          : parseFloat(borrowAmount) > selectedAsset.available
-                            ? "Insufficient Liquidity"
-                            : isOverCap
-                              ? "Exceeds Borrowing Limit"
-                              : remainingBorrowCapacity <= 0
-                                ? "Borrowing Limit Reached"
-                                : `Borrow ${borrowAmount} ${selectedAsset.symbol}`}
+                        : borrowBlocker
+                          ? borrowBlocker
+                          : !borrowAmount || parseFloat(borrowAmount) <= 0
+                            ? "Enter Amount"
+                            : parseFloat(borrowAmount) > selectedAsset.available
+                              ? "Insufficient Liquidity"
+                              : borrowLimit === null
+                                ? "Checking Borrowing Limit..."
+                                : isOverCap
+                                  ? "Exceeds Borrowing Limit"
+                                  : remainingBorrowCapacity <= 0
+                                    ? "Borrowing Limit Reached"
+                                    : `Borrow ${borrowAmount} ${selectedAsset.symbol}`}
                     </button>
 
                     {borrowAmount &&
@@ -960,7 +1070,8 @@ export default function BorrowDashboard() {
                         <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-700">
                           💰 <strong>You&#39;ll receive:</strong> {borrowAmount} {selectedAsset.symbol}
                           <br />
-                          💳 <strong>You&#39;ll repay:</strong> {borrowAmount} {selectedAsset.symbol} (no interest!)
+                          💳 <strong>You&#39;ll repay:</strong> {borrowAmount} {selectedAsset.symbol} plus interest at{" "}
+                          {(borrowRatePreview?.after ?? selectedAsset.borrowAPR).toFixed(2)}% APR
                           <br />
                           💵 <strong>USD Value:</strong> $
                           {selectedAssetMetadata?.symbol === "WETH" && ethInputUsd !== null
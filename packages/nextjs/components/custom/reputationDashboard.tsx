@@ -1,16 +1,20 @@
 import React, { useCallback, useEffect, useMemo, useState } from "react";
 import Link from "next/link";
+import { IDKitWidget } from "@worldcoin/idkit";
 import { AnimatePresence, motion } from "framer-motion";
 import { CircularProgressbar, buildStyles } from "react-circular-progressbar";
 import "react-circular-progressbar/dist/styles.css";
 import { normalize } from "viem/ens";
 import { useAccount, useEnsAvatar, useEnsName } from "wagmi";
 import {
+  ArrowTrendingUpIcon,
   ArrowUpIcon,
+  BeakerIcon,
   ChartBarIcon,
   CheckBadgeIcon,
   CurrencyDollarIcon,
   ExclamationTriangleIcon,
+  FingerPrintIcon,
   InformationCircleIcon,
   MapIcon,
   SparklesIcon,
@@ -20,8 +24,14 @@ import {
 } from "@heroicons/react/24/solid";
 import { CheckCircleIcon, StarIcon as StarSolidIcon } from "@heroicons/react/24/solid";
 import { BlockieAvatar } from "~~/components/scaffold-eth";
+import { useReputationHistory } from "~~/hooks/custom/useReputationHistory";
 import { useReputationScore } from "~~/hooks/custom/useReputationScore";
+import { useTierBorrowCaps } from "~~/hooks/custom/useTierBorrowCaps";
+import { useWorldIdVerification } from "~~/hooks/custom/useWorldIdVerification";
 import { useTargetNetwork } from "~~/hooks/scaffold-eth";
+import { ComponentBreakdown, ReputationScore, ScoreComponent } from "~~/services/reputationService";
+import type { ScoreJump, ScoreSnapshot } from "~~/services/scoreHistoryService";
+import { ScoreInputs, WhatIfActionId, rankImprovements, simulateActions } from "~~/services/scoreSimulatorService";
 import { getBlockExplorerAddressLink } from "~~/utils/scaffold-eth";
 
 // Constants
@@ -47,6 +57,7 @@ interface ReputationMetric {
   bgColor: string;
   progressColor: string;
   icon?: React.ComponentType<{ className?: string }>;
+  breakdown?: ComponentBreakdown;
 }
 
 interface LeaderboardUser {
@@ -69,7 +80,11 @@ interface ReputationScoreData {
     defiReputation: number;
     daoActivity: number;
     financialCapacity: number;
+    protocolHistory: number;
+    longevity?: number;
+    credentials?: number;
   };
+  breakdown?: Partial<Record<ScoreComponent, ComponentBreakdown>>;
   recommendations?: string[];
 }
 
@@ -171,6 +186,7 @@ const convertToReputationMetrics = (reputationScore: ReputationScoreData): Reput
     {
       label: "Onchain Activity",
       score: reputationScore.components.transactionBehavior,
+      breakdown: reputationScore.breakdown?.transactionBehavior,
       color: "text-green-600",
       bgColor: "bg-green-100",
       progressColor: "#10B981",
@@ -178,6 +194,7 @@ const convertToReputationMetrics = (reputationScore: ReputationScoreData): Reput
     {
       label: "DeFi",
       score: reputationScore.components.defiReputation,
+      breakdown: reputationScore.breakdown?.defiReputation,
       color: "text-blue-600",
       bgColor: "bg-blue-100",
       progressColor: "#3B82F6",
@@ -185,6 +202,7 @@ const convertToReputationMetrics = (reputationScore: ReputationScoreData): Reput
     {
       label: "Governance",
       score: reputationScore.components.daoActivity,
+      breakdown: reputationScore.breakdown?.daoActivity,
       color: "text-purple-600",
       bgColor: "bg-purple-100",
       progressColor: "#8B5CF6",
@@ -192,13 +210,31 @@ const convertToReputationMetrics = (reputationScore: ReputationScoreData): Reput
     {
       label: "Assets",
       score: reputationScore.components.financialCapacity,
+      breakdown: reputationScore.breakdown?.financialCapacity,
       color: "text-yellow-600",
       bgColor: "bg-yellow-100",
       progressColor: "#F59E0B",
     },
     {
-      label: "POAPs",
-      score: 0, // Placeholder for future implementation
+      label: "Longevity",
+      score: reputationScore.components.longevity ?? 0,
+      breakdown: reputationScore.breakdown?.longevity,
+      color: "text-cyan-600",
+      bgColor: "bg-cyan-100",
+      progressColor: "#06B6D4",
+    },
+    {
+      label: "Unlloo History",
+      score: reputationScore.components.protocolHistory,
+      breakdown: reputationScore.breakdown?.protocolHistory,
+      color: "text-teal-600",
+      bgColor: "bg-teal-100",
+      progressColor: "#14B8A6",
+    },
+    {
+      label: "Credentials",
+      score: reputationScore.components.credentials ?? 0,
+      breakdown: reputationScore.breakdown?.credentials,
       color: "text-pink-600",
       bgColor: "bg-pink-100",
       progressColor: "#EC4899",
@@ -273,23 +309,59 @@ const useReputationCalculations = (reputationScore: ReputationScoreData | null,
 };
 
 // Enhanced Info Card Component
-const InfoCard = React.memo(({ label, content, onClose }: { label: string; content: string; onClose: () => void }) => (
-  <motion.div
-    initial={{ opacity: 0, scale: 0.8, y: -10 }}
-    animate={{ opacity: 1, scale: 1, y: 0 }}
-    exit={{ opacity: 0, scale: 0.8, y: -10 }}
-    transition={{ duration: 0.2 }}
-    className="absolute z-50 top-0 left-1/2 -translate-x-1/2 bg-white border border-indigo-100 rounded-lg shadow-lg p-3 w-48 text-xs text-gray-700"
-  >
-    <div className="flex items-center justify-between mb-1">
-      <div className="font-semibold">{label}</div>
-      <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors" aria-label="Close info">
-        ×
-      </button>
-    </div>
-    <div className="text-gray-600">{content}</div>
-  </motion.div>
-));
+const InfoCard = React.memo(
+  ({
+    label,
+    content,
+    breakdown,
+    onClose,
+  }: {
+    label: string;
+    content: string;
+    breakdown?: ComponentBreakdown;
+    onClose: () => void;
+  }) => (
+    <motion.div
+      initial={{ opacity: 0, scale: 0.8, y: -10 }}
+      animate={{ opacity: 1, scale: 1, y: 0 }}
+      exit={{ opacity: 0, scale: 0.8, y: -10 }}
+      transition={{ duration: 0.2 }}
+      className="absolute z-50 top-0 left-1/2 -translate-x-1/2 bg-white border border-indigo-100 rounded-lg shadow-lg p-3 w-64 text-xs text-gray-700"
+    >
+      <div className="flex items-center justify-between mb-1">
+        <div className="font-semibold">{label}</div>
+        <button
+          onClick={onClose}
+          className="text-gray-400 hover:text-gray-600 transition-colors"
+          aria-label="Close info"
+        >
+          ×
+        </button>
+      </div>
+      <div className="text-gray-600">{content}</div>
+      {breakdown && breakdown.signals.length > 0 && (
+        <ul className="mt-2 pt-2 border-t border-gray-100 space-y-0.5">
+          {breakdown.signals.map(signal => (
+            <li key={signal.label} className="flex justify-between gap-2">
+              <span className="truncate">{signal.label}</span>
+              <span className={signal.points < 0 ? "text-red-500" : "text-green-600"}>
+                {signal.points > 0 ? "+" : ""}
+                {Math.round(signal.points)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {breakdown && breakdown.capsHit.length > 0 && (
+        <ul className="mt-1 text-amber-600">
+          {breakdown.capsHit.map(cap => (
+            <li key={cap}>{cap}</li>
+          ))}
+        </ul>
+      )}
+    </motion.div>
+  ),
+);
 
 InfoCard.displayName = "InfoCard";
 
@@ -344,7 +416,14 @@ const MetricCard = React.memo(
             </button>
           </div>
           <AnimatePresence>
-            {showInfo && <InfoCard label={label} content={infoContent} onClose={() => onInfoToggle(label)} />}
+            {showInfo && (
+              <InfoCard
+                label={label}
+                content={infoContent}
+                breakdown={metric.breakdown}
+                onClose={() => onInfoToggle(label)}
+              />
+            )}
           </AnimatePresence>
           <div className="text-xs text-gray-500 mt-1">
             {score < 30 ? "Building" : score < 60 ? "Advancing" : "Expert"}
@@ -357,6 +436,223 @@ const MetricCard = React.memo(
 
 MetricCard.displayName = "MetricCard";
 
+// Overall score over time as a line, sudden jumps are marked in amber
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+
+const ScoreTrendChart = React.memo(({ snapshots, jumps }: { snapshots: ScoreSnapshot[]; jumps: ScoreJump[] }) => {
+  if (snapshots.length < 2) {
+    return (
+      <div className="text-sm text-gray-500">
+        {snapshots.length === 0
+          ? "No score history yet. Every score computed by the reputation API is saved here."
+          : "Only one score saved so far, the trend appears after the next one."}
+      </div>
+    );
+  }
+
+  const times = snapshots.map(snapshot => new Date(snapshot.computedAt).getTime());
+  const firstTime = times[0];
+  const timeSpan = Math.max(times[times.length - 1] - firstTime, 1);
+  const points = snapshots.map((snapshot, index) => ({
+    snapshot,
+    x: ((times[index] - firstTime) / timeSpan) * CHART_WIDTH,
+    y: CHART_HEIGHT - (snapshot.overall / 100) * CHART_HEIGHT,
+  }));
+  const jumpTargets = new Set(jumps.map(jump => jump.to.computedAt));
+  const change = snapshots[snapshots.length - 1].overall - snapshots[0].overall;
+
+  return (
+    <div>
+      <svg
+        viewBox={`-4 -4 ${CHART_WIDTH + 8} ${CHART_HEIGHT + 8}`}
+        className="w-full h-40"
+        preserveAspectRatio="none"
+        role="img"
+        aria-label="Overall score over time"
+      >
+        {[25, 50, 75].map(level => (
+          <line
+            key={level}
+            x1={0}
+            x2={CHART_WIDTH}
+            y1={CHART_HEIGHT - (level / 100) * CHART_HEIGHT}
+            y2={CHART_HEIGHT - (level / 100) * CHART_HEIGHT}
+            stroke="#E5E7EB"
+            strokeDasharray="4 4"
+          />
+        ))}
+        <polyline
+          points={points.map(({ x, y }) => `${x},${y}`).join(" ")}
+          fill="none"
+          stroke="#6366F1"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+        {points.map(({ snapshot, x, y }) => (
+          <circle
+            key={snapshot.computedAt}
+            cx={x}
+            cy={y}
+            r={jumpTargets.has(snapshot.computedAt) ? 5 : 3}
+            fill={jumpTargets.has(snapshot.computedAt) ? "#F59E0B" : "#6366F1"}
+          >
+            <title>{`${new Date(snapshot.computedAt).toLocaleString()}: ${snapshot.overall} (model ${snapshot.modelVersion})`}</title>
+          </circle>
+        ))}
+      </svg>
+      <div className="flex justify-between text-xs text-gray-500 mt-1">
+        <span>{new Date(snapshots[0].computedAt).toLocaleDateString()}</span>
+        <span className={change < 0 ? "text-red-500" : "text-green-600"}>
+          {change > 0 ? "+" : ""}
+          {change} pts
+          {jumps.length > 0 && <span className="text-amber-600 ml-2">{jumps.length} sudden change(s)</span>}
+        </span>
+        <span>{new Date(snapshots[snapshots.length - 1].computedAt).toLocaleDateString()}</span>
+      </div>
+    </div>
+  );
+});
+
+ScoreTrendChart.displayName = "ScoreTrendChart";
+
+const formatGain = (gain: number, format: (value: number) => string = value => value.toString()) =>
+  `${gain > 0 ? "+" : gain < 0 ? "-" : ""}${format(Math.abs(gain))}`;
+
+// Pool whose tier caps the simulated borrow limits are read from, the USDC pool is the first one LoanMaster creates
+const WHAT_IF_POOL_ID = 0n;
+
+// Actions the user hasn't taken yet, ranked by what each adds on its own. Checking several shows them combined.
+// Borrow limits are the pool's on-chain cap for the simulated risk level.
+const WhatIfPanel = React.memo(({ scoreInputs }: { scoreInputs: ScoreInputs }) => {
+  const [selected, setSelected] = useState<WhatIfActionId[]>([]);
+  const { caps, symbol } = useTierBorrowCaps(WHAT_IF_POOL_ID);
+
+  const borrowLimitOf = useCallback((score: ReputationScore) => caps?.[score.riskLevel] ?? 0, [caps]);
+  const formatLimit = (value: number) => `${value.toLocaleString(undefined, { maximumFractionDigits: 6 })} ${symbol}`;
+
+  const { baseline, improvements } = useMemo(
+    () => rankImprovements(scoreInputs, { borrowLimitOf }),
+    [scoreInputs, borrowLimitOf],
+  );
+
+  const combined = useMemo(
+    () => (selected.length > 0 ? simulateActions(scoreInputs, selected) : null),
+    [scoreInputs, selected],
+  );
+
+  const toggle = (id: WhatIfActionId) =>
+    setSelected(current => (current.includes(id) ? current.filter(other => other !== id) : [...current, id]));
+
+  if (improvements.length === 0) {
+    return <div className="text-sm text-gray-500">You have already taken every action the simulator knows about.</div>;
+  }
+
+  const projected = combined ?? baseline;
+
+  return (
+    <div>
+      <ul className="space-y-2">
+        {improvements.map(improvement => (
+          <li key={improvement.id}>
+            <label className="flex items-center gap-3 p-3 rounded-lg border border-gray-100 hover:bg-indigo-50 cursor-pointer transition-colors">
+              <input
+                type="checkbox"
+                className="checkbox checkbox-sm checkbox-primary"
+                checked={selected.includes(improvement.id)}
+                onChange={() => toggle(improvement.id)}
+              />
+              <div className="flex-1">
+                <div className="text-sm font-medium text-gray-800">{improvement.label}</div>
+                <div className="text-xs text-gray-500">{improvement.description}</div>
+              </div>
+              <div className="text-right text-xs">
+                <div className={`font-semibold ${improvement.scoreGain > 0 ? "text-green-600" : "text-gray-400"}`}>
+                  {formatGain(improvement.scoreGain)} pts
+                </div>
+                <div className="text-gray-500">
+                  Risk level {formatGain(improvement.riskLevelGain)}
+                  {caps && <>, limit {formatGain(improvement.borrowLimitGain, formatLimit)}</>}
+                </div>
+              </div>
+            </label>
+          </li>
+        ))}
+      </ul>
+      <div className="mt-4 pt-4 border-t border-gray-100 flex flex-wrap justify-between gap-2 text-sm">
+        <span className="text-gray-600">
+          {combined ? `With ${selected.length} selected action(s)` : "Select actions to combine them"}
+        </span>
+        <span className="font-semibold text-indigo-700">
+          Score {baseline.overall} → {projected.overall} · Risk level {baseline.riskLevel} → {projected.riskLevel}
+          {caps && (
+            <>
+              {" "}
+              · Max borrow {formatLimit(borrowLimitOf(baseline))} → {formatLimit(borrowLimitOf(projected))}
+            </>
+          )}
+        </span>
+      </div>
+    </div>
+  );
+});
+
+WhatIfPanel.displayName = "WhatIfPanel";
+
+// World ID app and action, the proof is checked by the reputation API with its own copy of them
+const WORLD_ID_APP_ID = process.env.NEXT_PUBLIC_WORLD_ID_APP_ID as `app_${string}` | undefined;
+const WORLD_ID_ACTION = process.env.NEXT_PUBLIC_WORLD_ID_ACTION;
+
+// Proves with the World ID widget that the wallet belongs to a unique human, the score picks it up once
+// the reputation API has verified and stored the proof
+const WorldIdPanel = React.memo(
+  ({ address, verified, onVerified }: { address: string; verified: boolean; onVerified: () => void }) => {
+    const { submitProof, isVerifying, error } = useWorldIdVerification();
+
+    if (verified) {
+      return (
+        <div className="flex items-center gap-2 text-sm text-green-700">
+          <CheckCircleIcon className="w-5 h-5 flex-shrink-0" />
+          This wallet is verified as belonging to a unique human.
+        </div>
+      );
+    }
+
+    if (!WORLD_ID_APP_ID || !WORLD_ID_ACTION) {
+      return <div className="text-sm text-gray-500">World ID verification is not configured.</div>;
+    }
+
+    return (
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="text-sm text-gray-600">
+          Prove you are a unique human with World ID. One World ID can only verify one wallet.
+          {error && <div className="mt-1 text-xs text-red-600">{error}</div>}
+        </div>
+        <IDKitWidget
+          app_id={WORLD_ID_APP_ID}
+          action={WORLD_ID_ACTION}
+          signal={address}
+          handleVerify={async proof => {
+            // Throwing shows the error in the widget instead of its success screen
+            if (!(await submitProof(proof))) {
+              throw new Error("World ID verification failed");
+            }
+          }}
+          onSuccess={onVerified}
+        >
+          {({ open }) => (
+            <button className="btn btn-primary btn-sm" onClick={open} disabled={isVerifying}>
+              {isVerifying ? "Verifying..." : "Verify with World ID"}
+            </button>
+          )}
+        </IDKitWidget>
+      </div>
+    );
+  },
+);
+
+WorldIdPanel.displayName = "WorldIdPanel";
+
 // Main Component
 export default function ReputationDashboard({ leaderboard = DEFAULT_LEADERBOARD }: ReputationDashboardProps) {
   logger.info("Component render started");
@@ -375,7 +671,9 @@ export default function ReputationDashboard({ leaderboard = DEFAULT_LEADERBOARD
   const { targetNetwork } = useTargetNetwork();
 
   // Reputation data
-  const { reputationScore, loading, error, refetch } = useReputationScore();
+  const { reputationScore, scoreInputs, scoredAt, loading, error, refetch } = useReputationScore();
+  // History of the model the score above comes from, scores of different models don't line up
+  const { snapshots, jumps } = useReputationHistory(90, scoredAt, reputationScore?.model);
 
   // Component state
   const [openInfo, setOpenInfo] = useState<string | null>(null);
@@ -422,9 +720,13 @@ export default function ReputationDashboard({ leaderboard = DEFAULT_LEADERBOARD
       "Onchain Activity":
         "Reflects your on-chain activity and longevity. The higher, the more established your address.",
       DeFi: "Shows your engagement with DeFi protocols. Interact with DeFi to grow this score.",
-      Governance: "Measures your participation in DAOs and governance. Get involved to increase it.",
+      Governance:
+        "Counts the DAO votes you cast on-chain and on Snapshot, how recent they are and in how many DAOs. Vote to increase it.",
       Assets: "Represents your wallet diversity and asset holdings. More variety and value means a higher score.",
-      POAPs: "COMING SOON — Counts your POAPs, showcasing your participation in events and communities.",
+      Longevity: "How long your address has been active and how steadily. Regular use over the years raises it.",
+      "Unlloo History": "Your borrowing and lending on Unlloo. Repay on time and provide liquidity to raise it.",
+      Credentials:
+        "Counts your POAPs and attestations from trusted issuers like Coinbase and Gitcoin Passport. Collect them to raise it.",
       Network: "COMING SOON — Indicates your network strength and connections with other users.",
     }),
     [],
@@ -791,6 +1093,56 @@ export default function ReputationDashboard({ leaderboard = DEFAULT_LEADERBOARD
             </div>
           </motion.div>
 
+          {/* Score Trend */}
+          {isConnected && (
+            <motion.div
+              variants={containerVariants}
+              initial="hidden"
+              animate="visible"
+              className="mb-5 bg-white rounded-xl p-6 shadow-md border border-gray-100"
+            >
+              <div className="flex items-center gap-2 mb-4 text-gray-800">
+                <ArrowTrendingUpIcon className="w-6 h-6 text-indigo-600 flex-shrink-0" />
+                <span className="text-xl font-bold flex items-center">Score Trend</span>
+                <span className="text-xs text-gray-500">last 90 days</span>
+              </div>
+              <ScoreTrendChart snapshots={snapshots} jumps={jumps} />
+            </motion.div>
+          )}
+
+          {/* World ID */}
+          {address && scoreInputs && (
+            <motion.div
+              variants={containerVariants}
+              initial="hidden"
+              animate="visible"
+              className="mb-5 bg-white rounded-xl p-6 shadow-md border border-gray-100"
+            >
+              <div className="flex items-center gap-2 mb-4 text-gray-800">
+                <FingerPrintIcon className="w-6 h-6 text-indigo-600 flex-shrink-0" />
+                <span className="text-xl font-bold flex items-center">World ID</span>
+              </div>
+              <WorldIdPanel address={address} verified={scoreInputs.worldIdVerified} onVerified={refetch} />
+            </motion.div>
+          )}
+
+          {/* What-if Simulator */}
+          {scoreInputs && (
+            <motion.div
+              variants={containerVariants}
+              initial="hidden"
+              animate="visible"
+              className="mb-5 bg-white rounded-xl p-6 shadow-md border border-gray-100"
+            >
+              <div className="flex items-center gap-2 mb-4 text-gray-800">
+                <BeakerIcon className="w-6 h-6 text-indigo-600 flex-shrink-0" />
+                <span className="text-xl font-bold flex items-center">What If</span>
+                <span className="text-xs text-gray-500">simulated, nothing is changed on-chain</span>
+              </div>
+              <WhatIfPanel scoreInputs={scoreInputs} />
+            </motion.div>
+          )}
+
           {/* Quest / Recommendations Section */}
           {reputationScore?.recommendations && reputationScore.recommendations.length > 0 && (
             <motion.div
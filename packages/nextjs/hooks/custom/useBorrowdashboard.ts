@@ -1,14 +1,14 @@
 import { useCallback, useMemo, useState } from "react";
 import { useWbtcToUsd } from "./useBtcPrice";
 import { useEthToUsd } from "./useEthPrice";
-import { getTokenMetadata, useLoanMaster } from "./useLoanMaster";
+import { useLoanMaster } from "./useLoanMaster";
 import { useUnlooToUsd } from "./useUnlooPrice";
-import { Address } from "viem";
 
 export const useBorrowDashboard = () => {
-  const [selectedTokenAddress, setSelectedTokenAddress] = useState<Address>("");
+  const [selectedPoolId, setSelectedPoolId] = useState<bigint>(0n);
   const [borrowAmount, setBorrowAmount] = useState("");
-  const [isRepaying, setIsRepaying] = useState<Record<Address, boolean>>({});
+  // Keyed by pool id
+  const [isRepaying, setIsRepaying] = useState<Record<string, boolean>>({});
   const [isBorrowing, setIsBorrowing] = useState(false);
 
   const {
@@ -28,7 +28,7 @@ export const useBorrowDashboard = () => {
     const amounts = { eth: 0, wbtc: 0, usdc: 0, unloo: 0 };
 
     userPositions.borrows.forEach(borrow => {
-      const metadata = getTokenMetadata(borrow.tokenAddress);
+      const metadata = borrow.pool.token;
       const amount = parseFloat(formatTokenAmount(borrow.amount, metadata.decimals));
 
       switch (metadata.symbol) {
@@ -69,7 +69,7 @@ export const useBorrowDashboard = () => {
 
       setIsBorrowing(true);
       try {
-        await borrow(asset.tokenAddress, borrowAmount, asset.decimals);
+        await borrow(asset.poolId, borrowAmount, asset.decimals);
         setBorrowAmount("");
         return { success: true };
       } catch (error) {
@@ -82,15 +82,15 @@ export const useBorrowDashboard = () => {
   );
 
   const handleRepay = useCallback(
-    async (tokenAddress: Address) => {
-      setIsRepaying(prev => ({ ...prev, [tokenAddress]: true }));
+    async (poolId: bigint) => {
+      setIsRepaying(prev => ({ ...prev, [poolId.toString()]: true }));
       try {
-        await repayBorrow(tokenAddress);
+        await repayBorrow(poolId);
         return { success: true };
       } catch (error) {
         return { success: false, error };
       } finally {
-        setIsRepaying(prev => ({ ...prev, [tokenAddress]: false }));
+        setIsRepaying(prev => ({ ...prev, [poolId.toString()]: false }));
       }
     },
     [repayBorrow],
@@ -98,8 +98,8 @@ export const useBorrowDashboard = () => {
 
   return {
     // State
-    selectedTokenAddress,
-    setSelectedTokenAddress,
+    selectedPoolId,
+    setSelectedPoolId,
     borrowAmount,
     setBorrowAmount,
     isRepaying,
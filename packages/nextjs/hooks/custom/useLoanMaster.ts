@@ -1,11 +1,14 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
-import { Address, formatUnits, parseUnits } from "viem";
+import { Address, erc20Abi, formatUnits, parseUnits } from "viem";
 import { useAccount, usePublicClient, useWalletClient } from "wagmi";
 import { useDeployedContractInfo } from "~~/hooks/scaffold-eth";
+import type { SignedScoreAttestationResponse } from "~~/services/attestationService";
+import type { InterestRateModel } from "~~/utils/interestRateModel";
 
 // Constants
-const SIMULATION_DAYS = 7;
-const SECONDS_IN_YEAR = 365 * 24 * 60 * 60;
+const SECONDS_IN_YEAR = 365n * 24n * 60n * 60n;
+// Extra interest approved on repay so the allowance still covers the debt when the transaction is mined
+const REPAY_INTEREST_BUFFER_SECONDS = 60n * 60n;
 
 // Types
 export interface TokenMetadata {
@@ -16,27 +19,47 @@ export interface TokenMetadata {
   imageUrl: string;
 }
 
-interface Pool {
+export interface Pool {
+  poolId: bigint;
   liquidity: bigint;
   tokenAddress: Address;
   depositAPR: bigint;
   borrowAPR: bigint;
+  totalBorrows: bigint;
+  totalShares: bigint;
+  reserves: bigint;
+  utilization: bigint;
+  rateModel: InterestRateModel;
+  minRiskLevel: number;
+  paused: boolean;
+  pausedActions: number;
+  supplyCap: bigint;
+  borrowCap: bigint;
+  // Read from the token contract when the pool is fetched
+  token: TokenMetadata;
 }
 
 interface UserDeposit {
+  poolId: bigint;
   tokenAddress: Address;
   amount: bigint;
+  shares: bigint;
+  maxWithdraw: bigint;
   pool: Pool;
   timestamp?: number;
 }
 
 interface UserBorrow {
+  poolId: bigint;
   tokenAddress: Address;
   amount: bigint;
   pool: Pool;
   timestamp?: number;
-  simulatedInterest?: number;
-  totalOwed?: number;
+  interest: bigint;
+  totalOwed: bigint;
+  state: LoanState;
+  dueDate: number;
+  graceEndsAt: number;
 }
 
 interface UserPositions {
@@ -50,7 +73,15 @@ interface RepaymentInfo {
   total: string;
 }
 
-// Token addresses - normalized to lowercase
+// Mirrors the LoanState enum in LoanMaster.sol
+export const LOAN_STATES = ["None", "Active", "Overdue", "Defaulted", "Repaid"] as const;
+export type LoanState = (typeof LOAN_STATES)[number];
+
+// Mirrors the PoolAction enum in LoanMaster.sol, bit i of a pool's pausedActions pauses POOL_ACTIONS[i]
+export const POOL_ACTIONS = ["Deposit", "Withdraw", "Borrow", "Repay"] as const;
+export type PoolAction = (typeof POOL_ACTIONS)[number];
+
+// Tokens listed on Flow, addresses normalized to lowercase
 export const TOKEN_ADDRESSES = {
   USDC: "0xf1815bd50389c46847f0bda824ec8da914045d14" as Address,
   WETH: "0x2f6f07cdcf3588944bf4c42ac74ff24bf56e7590" as Address,
@@ -58,7 +89,7 @@ export const TOKEN_ADDRESSES = {
   UNLOO: "0x3084ae7cdb722689a47d41783507878b564f3b67" as Address,
 } as const;
 
-// Token metadata lookup with normalized addresses
+// Names and icons of the listed tokens, symbol and decimals are always read from the token contract
 const TOKEN_METADATA: Record<string, TokenMetadata> = {
   [TOKEN_ADDRESSES.USDC.toLowerCase()]: {
     symbol: "USDC",
@@ -141,23 +172,86 @@ const logger = {
   },
 };
 
-// Export the utility function to get token metadata
-export const getTokenMetadata = (tokenAddress: Address): TokenMetadata => {
-  const normalizedAddress = tokenAddress.toLowerCase();
-  const metadata = TOKEN_METADATA[normalizedAddress];
+// Symbol and decimals from the token itself, so pools of tokens that aren't listed (like local mocks) still
+// parse and format amounts right. Listed tokens keep their name and icon.
+const readTokenMetadata = async (publicClient: any, tokenAddress: Address): Promise<TokenMetadata> => {
+  const [symbol, name, decimals] = await Promise.all([
+    publicClient.readContract({ address: tokenAddress, abi: erc20Abi, functionName: "symbol" }) as Promise<string>,
+    publicClient.readContract({ address: tokenAddress, abi: erc20Abi, functionName: "name" }) as Promise<string>,
+    publicClient.readContract({ address: tokenAddress, abi: erc20Abi, functionName: "decimals" }) as Promise<number>,
+  ]);
+  const listed = TOKEN_METADATA[tokenAddress.toLowerCase()];
+
+  return {
+    symbol,
+    name: listed?.name ?? name,
+    decimals,
+    iconColor: listed?.iconColor ?? "#6B7280",
+    imageUrl: listed?.imageUrl ?? "",
+  };
+};
+
+// Pools of the same token are told apart by the lowest risk level they lend to
+export const getPoolName = (pool: Pick<Pool, "token" | "minRiskLevel">): string => {
+  const { name } = pool.token;
+  return pool.minRiskLevel > 1 ? `${name} Pool (risk ${pool.minRiskLevel}+)` : `${name} Pool`;
+};
 
-  if (metadata) {
-    return metadata;
+// Same rule as LoanMaster: a paused pool still accepts repayments
+export const isPoolActionPaused = (pool: Pick<Pool, "paused" | "pausedActions">, action: PoolAction): boolean =>
+  (pool.paused && action !== "Repay") || (pool.pausedActions & (1 << POOL_ACTIONS.indexOf(action))) !== 0;
+
+// Room left under the pool's supply cap (total assets) or borrow cap (total borrows), null when uncapped
+export const getPoolCapRemaining = (pool: Pool, cap: "supply" | "borrow"): bigint | null => {
+  if (cap === "supply") {
+    if (pool.supplyCap === 0n) return null;
+    const totalAssets = pool.liquidity + pool.totalBorrows - pool.reserves;
+    return pool.supplyCap > totalAssets ? pool.supplyCap - totalAssets : 0n;
+  }
+  if (pool.borrowCap === 0n) return null;
+  return pool.borrowCap > pool.totalBorrows ? pool.borrowCap - pool.totalBorrows : 0n;
+};
+
+// Why the contract would reject `action` on the pool right now, checked before simulating the transaction
+export const getPoolActionBlocker = (pool: Pool, action: PoolAction, amount = 0n): string | null => {
+  if (isPoolActionPaused(pool, action)) {
+    return pool.paused && action !== "Repay" ? "Pool is paused" : `${action} is paused for this pool`;
   }
 
-  logger.warn(`No metadata found for token address: ${tokenAddress}`);
+  const remaining =
+    action === "Deposit"
+      ? getPoolCapRemaining(pool, "supply")
+      : action === "Borrow"
+        ? getPoolCapRemaining(pool, "borrow")
+        : null;
+  if (remaining !== null && amount > remaining) {
+    const cap = action === "Deposit" ? "Supply" : "Borrow";
+    return remaining === 0n ? `${cap} cap reached` : `Exceeds the pool's ${cap.toLowerCase()} cap`;
+  }
+
+  return null;
+};
+
+// Fetch a fresh signed reputation attestation for the borrower from the API
+const fetchScoreAttestation = async (borrower: Address) => {
+  const response = await fetch(`/api/v1/reputation/${borrower}/attestation`, { cache: "no-store" });
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data?.error || `Failed to fetch score attestation: ${response.status}`);
+  }
+
+  const { attestation, signature } = data as SignedScoreAttestationResponse;
 
   return {
-    symbol: "UNK",
-    name: "Unknown Token",
-    decimals: 18,
-    iconColor: "#6B7280",
-    imageUrl: "",
+    attestation: {
+      borrower: attestation.borrower,
+      score: BigInt(attestation.score),
+      riskLevel: attestation.riskLevel,
+      expiry: BigInt(attestation.expiry),
+      nonce: BigInt(attestation.nonce),
+    },
+    signature,
   };
 };
 
@@ -217,39 +311,6 @@ export function useLoanMaster() {
     contractName: "LoanMaster",
   });
 
-  // Memoized simulated APR lookup
-  const displayBorrowAPRs = useMemo(
-    () => ({
-      [TOKEN_ADDRESSES.USDC]: 1000, // 10%
-      [TOKEN_ADDRESSES.WETH]: 800, // 8%
-      [TOKEN_ADDRESSES.WBTC]: 900, // 9%
-      [TOKEN_ADDRESSES.UNLOO]: 750, // 7.5%
-    }),
-    [],
-  );
-
-  // Simulate interest calculation for frontend display
-  const calculateSimulatedInterest = useCallback(
-    (principal: number, aprBasisPoints: number, timestamp: number): { interest: number; total: number } => {
-      const now = Date.now() / 1000;
-      const timeElapsed = now - timestamp;
-      const apr = aprBasisPoints / 10000;
-      const interest = (principal * apr * timeElapsed) / SECONDS_IN_YEAR;
-      const total = principal + interest;
-
-      return { interest, total };
-    },
-    [],
-  );
-
-  // Get simulated APR for display
-  const getDisplayBorrowAPR = useCallback(
-    (tokenAddress: Address): number => {
-      return displayBorrowAPRs[tokenAddress] || 1000;
-    },
-    [displayBorrowAPRs],
-  );
-
   // Optimized token balance check
   const checkTokenBalance = useCallback(
     async (
@@ -378,30 +439,23 @@ export function useLoanMaster() {
         functionName: "getLiquidityPoolCount",
       })) as bigint;
 
-      // Fetch all pools in parallel
-      const poolPromises = Object.values(TOKEN_ADDRESSES)
-        .slice(0, Number(poolCount))
-        .map(async tokenAddress => {
-          try {
-            const poolInfo = (await publicClient.readContract({
-              address: loanMasterContractData.address,
-              abi: loanMasterContractData.abi,
-              functionName: "getLiquidityPoolByToken",
-              args: [tokenAddress],
-            })) as Pool;
-
-            if (poolInfo) {
-              return {
-                ...poolInfo,
-                borrowAPR: BigInt(getDisplayBorrowAPR(tokenAddress)), // Use simulated APR
-              };
-            }
-            return null;
-          } catch (err) {
-            logger.error(`Error fetching pool for token ${tokenAddress}`, err);
-            return null;
-          }
-        });
+      // Fetch all pools in parallel, pool ids run from 0 to the pool count
+      const poolPromises = Array.from({ length: Number(poolCount) }, (_, i) => BigInt(i)).map(async poolId => {
+        try {
+          const poolInfo = (await publicClient.readContract({
+            address: loanMasterContractData.address,
+            abi: loanMasterContractData.abi,
+            functionName: "getLiquidityPool",
+            args: [poolId],
+          })) as Omit<Pool, "token">;
+          if (!poolInfo) return null;
+
+          return { ...poolInfo, token: await readTokenMetadata(publicClient, poolInfo.tokenAddress) };
+        } catch (err) {
+          logger.error(`Error fetching pool ${poolId}`, err);
+          return null;
+        }
+      });
 
       const poolResults = await Promise.allSettled(poolPromises);
       const poolsData = poolResults
@@ -416,56 +470,101 @@ export function useLoanMaster() {
       if (userAddress && poolsData.length > 0) {
         const positionPromises = poolsData.map(async pool => {
           try {
-            const [depositAmount, borrowAmount] = await Promise.all([
-              publicClient.readContract({
-                address: loanMasterContractData.address,
-                abi: loanMasterContractData.abi,
-                functionName: "getUserDeposit",
-                args: [pool.tokenAddress, userAddress],
-              }) as Promise<bigint>,
-              publicClient.readContract({
-                address: loanMasterContractData.address,
-                abi: loanMasterContractData.abi,
-                functionName: "getUserBorrow",
-                args: [pool.tokenAddress, userAddress],
-              }) as Promise<bigint>,
-            ]);
+            const [depositAmount, shares, maxWithdraw, borrowAmount, repaymentAmount, borrowTimestamp] =
+              await Promise.all([
+                publicClient.readContract({
+                  address: loanMasterContractData.address,
+                  abi: loanMasterContractData.abi,
+                  functionName: "getUserDeposit",
+                  args: [pool.poolId, userAddress],
+                }) as Promise<bigint>,
+                publicClient.readContract({
+                  address: loanMasterContractData.address,
+                  abi: loanMasterContractData.abi,
+                  functionName: "getUserShares",
+                  args: [pool.poolId, userAddress],
+                }) as Promise<bigint>,
+                publicClient.readContract({
+                  address: loanMasterContractData.address,
+                  abi: loanMasterContractData.abi,
+                  functionName: "maxWithdraw",
+                  args: [pool.poolId, userAddress],
+                }) as Promise<bigint>,
+                publicClient.readContract({
+                  address: loanMasterContractData.address,
+                  abi: loanMasterContractData.abi,
+                  functionName: "getUserBorrow",
+                  args: [pool.poolId, userAddress],
+                }) as Promise<bigint>,
+                publicClient.readContract({
+                  address: loanMasterContractData.address,
+                  abi: loanMasterContractData.abi,
+                  functionName: "getRepaymentAmount",
+                  args: [pool.poolId, userAddress],
+                }) as Promise<bigint>,
+                publicClient.readContract({
+                  address: loanMasterContractData.address,
+                  abi: loanMasterContractData.abi,
+                  functionName: "getBorrowTimestamp",
+                  args: [pool.poolId, userAddress],
+                }) as Promise<bigint>,
+              ]);
+
+            // Term details are only needed for open borrows
+            const [loanState, dueDate, [, gracePeriod]] =
+              borrowAmount > 0n
+                ? await Promise.all([
+                    publicClient.readContract({
+                      address: loanMasterContractData.address,
+                      abi: loanMasterContractData.abi,
+                      functionName: "getLoanState",
+                      args: [pool.poolId, userAddress],
+                    }) as Promise<number>,
+                    publicClient.readContract({
+                      address: loanMasterContractData.address,
+                      abi: loanMasterContractData.abi,
+                      functionName: "getDueDate",
+                      args: [pool.poolId, userAddress],
+                    }) as Promise<bigint>,
+                    publicClient.readContract({
+                      address: loanMasterContractData.address,
+                      abi: loanMasterContractData.abi,
+                      functionName: "getLoanTerms",
+                      args: [pool.poolId],
+                    }) as Promise<readonly [bigint, bigint]>,
+                  ])
+                : [0, 0n, [0n, 0n] as const];
 
             return {
               deposit:
-                depositAmount > 0n
+                shares > 0n
                   ? {
+                      poolId: pool.poolId,
                       tokenAddress: pool.tokenAddress,
                       amount: depositAmount,
+                      shares,
+                      maxWithdraw,
                       pool,
                     }
                   : null,
               borrow:
                 borrowAmount > 0n
-                  ? (() => {
-                      const metadata = getTokenMetadata(pool.tokenAddress);
-                      const principalFloat = parseFloat(formatUnits(borrowAmount, metadata.decimals));
-                      const borrowTimestamp = Date.now() / 1000 - SIMULATION_DAYS * 24 * 60 * 60;
-                      const displayAPR = getDisplayBorrowAPR(pool.tokenAddress);
-                      const { interest, total } = calculateSimulatedInterest(
-                        principalFloat,
-                        displayAPR,
-                        borrowTimestamp,
-                      );
-
-                      return {
-                        tokenAddress: pool.tokenAddress,
-                        amount: borrowAmount,
-                        pool,
-                        timestamp: borrowTimestamp,
-                        simulatedInterest: interest,
-                        totalOwed: total,
-                      };
-                    })()
+                  ? {
+                      poolId: pool.poolId,
+                      tokenAddress: pool.tokenAddress,
+                      amount: borrowAmount,
+                      pool,
+                      timestamp: Number(borrowTimestamp),
+                      interest: repaymentAmount - borrowAmount,
+                      totalOwed: repaymentAmount,
+                      state: LOAN_STATES[loanState],
+                      dueDate: Number(dueDate),
+                      graceEndsAt: Number(dueDate + gracePeriod),
+                    }
                   : null,
             };
           } catch (err) {
-            logger.error(`Error fetching user position for token ${pool.tokenAddress}`, err);
+            logger.error(`Error fetching user position for pool ${pool.poolId}`, err);
             return { deposit: null, borrow: null };
           }
         });
@@ -486,7 +585,7 @@ export function useLoanMaster() {
       const errorMessage = handleError(error, "Data refresh");
       setError(errorMessage.message);
     }
-  }, [loanMasterContractData, publicClient, userAddress, getDisplayBorrowAPR, calculateSimulatedInterest, handleError]);
+  }, [loanMasterContractData, publicClient, userAddress, handleError]);
 
   // Initial data fetch with proper error handling
   useEffect(() => {
@@ -517,18 +616,61 @@ export function useLoanMaster() {
     return formatUnits(amount, decimals);
   }, []);
 
+  // Share previews, read from the contract so they match the transaction exactly
+  const previewPool = useCallback(
+    async (
+      functionName: "previewDeposit" | "previewWithdraw" | "previewRedeem",
+      poolId: bigint,
+      value: bigint,
+    ): Promise<bigint> => {
+      if (!loanMasterContractData?.address || !publicClient) return 0n;
+
+      return (await publicClient.readContract({
+        address: loanMasterContractData.address,
+        abi: loanMasterContractData.abi,
+        functionName,
+        args: [poolId, value],
+      })) as bigint;
+    },
+    [loanMasterContractData, publicClient],
+  );
+
+  // Shares minted for depositing `amount`
+  const previewDeposit = useCallback(
+    (poolId: bigint, amount: string, decimals: number) =>
+      previewPool("previewDeposit", poolId, parseUnits(amount, decimals)),
+    [previewPool],
+  );
+
+  // Shares burned for withdrawing `amount`
+  const previewWithdraw = useCallback(
+    (poolId: bigint, amount: string, decimals: number) =>
+      previewPool("previewWithdraw", poolId, parseUnits(amount, decimals)),
+    [previewPool],
+  );
+
+  // Assets received for redeeming `shares`
+  const previewRedeem = useCallback(
+    (poolId: bigint, shares: bigint) => previewPool("previewRedeem", poolId, shares),
+    [previewPool],
+  );
+
   // Optimized liquidity functions
-  const addLiquidity = useCallback(
-    async (tokenAddress: Address, amount: string, decimals: number) => {
+  const deposit = useCallback(
+    async (poolId: bigint, amount: string, decimals: number) => {
       if (!amount || !userAddress || !loanMasterContractData?.address) {
         throw new Error("Missing required parameters or wallet not connected");
       }
 
-      const poolIndex = pools.findIndex(pool => pool.tokenAddress === tokenAddress);
-      if (poolIndex === -1) throw new Error("Pool not found");
+      const pool = pools.find(p => p.poolId === poolId);
+      if (!pool) throw new Error("Pool not found");
+      const { tokenAddress } = pool;
 
       try {
-        logger.info("Adding liquidity", { token: tokenAddress, amount });
+        logger.info("Depositing", { poolId, token: tokenAddress, amount });
+
+        const blocker = getPoolActionBlocker(pool, "Deposit", parseUnits(amount, decimals));
+        if (blocker) throw new Error(blocker);
 
         // Check balance first
         const hasBalance = await checkTokenBalance(tokenAddress, userAddress, amount, decimals);
@@ -539,24 +681,23 @@ export function useLoanMaster() {
         // Approve tokens
         await approveToken(tokenAddress, loanMasterContractData.address, amount, decimals);
 
-        // Add liquidity
         const parsedAmount = parseUnits(amount, decimals);
         await executeTransaction(
           () =>
             publicClient!.simulateContract({
               address: loanMasterContractData.address,
               abi: loanMasterContractData.abi,
-              functionName: "addLiquidity",
-              args: [BigInt(poolIndex), parsedAmount],
+              functionName: "deposit",
+              args: [poolId, parsedAmount],
               account: userAddress,
             }),
-          "Add liquidity",
+          "Deposit",
         );
 
         await refreshData();
-        logger.info("Liquidity added successfully");
+        logger.info("Deposit successful");
       } catch (error) {
-        throw handleError(error, "Add liquidity");
+        throw handleError(error, "Deposit");
       }
     },
     [
@@ -572,50 +713,136 @@ export function useLoanMaster() {
     ],
   );
 
-  const removeLiquidity = useCallback(
-    async (tokenAddress: Address) => {
+  // Withdraws an exact asset amount, burning the matching shares
+  const withdraw = useCallback(
+    async (poolId: bigint, amount: string, decimals: number) => {
+      if (!amount || !userAddress || !loanMasterContractData?.address) {
+        throw new Error("Missing required parameters or wallet not connected");
+      }
+
+      const pool = pools.find(p => p.poolId === poolId);
+      if (!pool) throw new Error("Pool not found");
+      const { tokenAddress } = pool;
+
+      try {
+        logger.info("Withdrawing", { poolId, token: tokenAddress, amount });
+
+        const blocker = getPoolActionBlocker(pool, "Withdraw");
+        if (blocker) throw new Error(blocker);
+
+        const parsedAmount = parseUnits(amount, decimals);
+        await executeTransaction(
+          () =>
+            publicClient!.simulateContract({
+              address: loanMasterContractData.address,
+              abi: loanMasterContractData.abi,
+              functionName: "withdraw",
+              args: [poolId, parsedAmount],
+              account: userAddress,
+            }),
+          "Withdraw",
+        );
+
+        await refreshData();
+        logger.info("Withdraw successful");
+      } catch (error) {
+        throw handleError(error, "Withdraw");
+      }
+    },
+    [pools, userAddress, loanMasterContractData, publicClient, executeTransaction, refreshData, handleError],
+  );
+
+  // Redeems an exact number of shares, used to exit a position without leaving dust
+  const redeem = useCallback(
+    async (poolId: bigint, shares: bigint) => {
+      if (!userAddress || !loanMasterContractData?.address) {
+        throw new Error("Wallet not connected");
+      }
+
+      const pool = pools.find(p => p.poolId === poolId);
+      if (!pool) throw new Error("Pool not found");
+      const { tokenAddress } = pool;
+
+      try {
+        logger.info("Redeeming shares", { poolId, token: tokenAddress, shares });
+
+        const blocker = getPoolActionBlocker(pool, "Withdraw");
+        if (blocker) throw new Error(blocker);
+
+        await executeTransaction(
+          () =>
+            publicClient!.simulateContract({
+              address: loanMasterContractData.address,
+              abi: loanMasterContractData.abi,
+              functionName: "redeem",
+              args: [poolId, shares],
+              account: userAddress,
+            }),
+          "Redeem",
+        );
+
+        await refreshData();
+        logger.info("Redeem successful");
+      } catch (error) {
+        throw handleError(error, "Redeem");
+      }
+    },
+    [pools, userAddress, loanMasterContractData, publicClient, executeTransaction, refreshData, handleError],
+  );
+
+  // Takes out as much of the position as the idle liquidity allows, only while the pool is paused
+  const emergencyWithdraw = useCallback(
+    async (poolId: bigint) => {
       if (!userAddress || !loanMasterContractData?.address) {
         throw new Error("Wallet not connected");
       }
 
-      const poolIndex = pools.findIndex(pool => pool.tokenAddress === tokenAddress);
-      if (poolIndex === -1) throw new Error("Pool not found");
+      const pool = pools.find(p => p.poolId === poolId);
+      if (!pool) throw new Error("Pool not found");
+      if (!pool.paused) throw new Error("Emergency withdrawals are only open while the pool is paused");
 
       try {
-        logger.info("Removing liquidity", { token: tokenAddress });
+        logger.info("Emergency withdrawing", { poolId, token: pool.tokenAddress });
 
         await executeTransaction(
           () =>
             publicClient!.simulateContract({
               address: loanMasterContractData.address,
               abi: loanMasterContractData.abi,
-              functionName: "removeLiquidity",
-              args: [BigInt(poolIndex)],
+              functionName: "emergencyWithdraw",
+              args: [poolId],
               account: userAddress,
             }),
-          "Remove liquidity",
+          "Emergency withdraw",
         );
 
         await refreshData();
-        logger.info("Liquidity removed successfully");
+        logger.info("Emergency withdraw successful");
       } catch (error) {
-        throw handleError(error, "Remove liquidity");
+        throw handleError(error, "Emergency withdraw");
       }
     },
     [pools, userAddress, loanMasterContractData, publicClient, executeTransaction, refreshData, handleError],
   );
 
   const borrow = useCallback(
-    async (tokenAddress: Address, amount: string, decimals: number) => {
+    async (poolId: bigint, amount: string, decimals: number) => {
       if (!amount || !userAddress || !loanMasterContractData?.address) {
         throw new Error("Missing required parameters or wallet not connected");
       }
 
-      const poolIndex = pools.findIndex(pool => pool.tokenAddress === tokenAddress);
-      if (poolIndex === -1) throw new Error("Pool not found");
+      const pool = pools.find(p => p.poolId === poolId);
+      if (!pool) throw new Error("Pool not found");
+      const { tokenAddress } = pool;
 
       try {
-        logger.info("Borrowing", { token: tokenAddress, amount });
+        logger.info("Borrowing", { poolId, token: tokenAddress, amount });
+
+        const blocker = getPoolActionBlocker(pool, "Borrow", parseUnits(amount, decimals));
+        if (blocker) throw new Error(blocker);
+
+        const { attestation, signature } = await fetchScoreAttestation(userAddress);
+        logger.info("Score attestation received", { riskLevel: attestation.riskLevel, expiry: attestation.expiry });
 
         const parsedAmount = parseUnits(amount, decimals);
         await executeTransaction(
@@ -624,7 +851,7 @@ export function useLoanMaster() {
               address: loanMasterContractData.address,
               abi: loanMasterContractData.abi,
               functionName: "borrow",
-              args: [BigInt(poolIndex), parsedAmount],
+              args: [poolId, parsedAmount, attestation, signature],
               account: userAddress,
             }),
           "Borrow",
@@ -640,39 +867,58 @@ export function useLoanMaster() {
   );
 
   const repayBorrow = useCallback(
-    async (tokenAddress: Address) => {
+    async (poolId: bigint) => {
       if (!userAddress || !loanMasterContractData?.address) {
         throw new Error("Wallet not connected");
       }
 
-      try {
-        logger.info("Repaying borrow (principal only)", { token: tokenAddress });
+      const pool = pools.find(p => p.poolId === poolId);
+      if (!pool) throw new Error("Pool not found");
+      const { tokenAddress } = pool;
 
-        // Get exact borrowed amount
-        const borrowedAmount = (await publicClient!.readContract({
-          address: loanMasterContractData.address,
-          abi: loanMasterContractData.abi,
-          functionName: "getUserBorrow",
-          args: [tokenAddress, userAddress],
-        })) as bigint;
+      try {
+        logger.info("Repaying borrow", { poolId, token: tokenAddress });
+
+        const blocker = getPoolActionBlocker(pool, "Repay");
+        if (blocker) throw new Error(blocker);
+
+        const [borrowedAmount, repaymentAmount] = await Promise.all([
+          publicClient!.readContract({
+            address: loanMasterContractData.address,
+            abi: loanMasterContractData.abi,
+            functionName: "getUserBorrow",
+            args: [poolId, userAddress],
+          }) as Promise<bigint>,
+          publicClient!.readContract({
+            address: loanMasterContractData.address,
+            abi: loanMasterContractData.abi,
+            functionName: "getRepaymentAmount",
+            args: [poolId, userAddress],
+          }) as Promise<bigint>,
+        ]);
 
         if (borrowedAmount === 0n) {
           throw new Error("No active borrow to repay");
         }
 
-        const metadata = getTokenMetadata(tokenAddress);
-        const repayAmountString = formatUnits(borrowedAmount, metadata.decimals);
+        // Interest keeps accruing until the repay transaction is mined
+        const interestBuffer =
+          (borrowedAmount * pool.borrowAPR * REPAY_INTEREST_BUFFER_SECONDS) / (10000n * SECONDS_IN_YEAR) + 1n;
+
+        const metadata = pool.token;
+        const repayAmountString = formatUnits(repaymentAmount, metadata.decimals);
+        const approveAmountString = formatUnits(repaymentAmount + interestBuffer, metadata.decimals);
 
-        logger.info(`Repaying exactly: ${repayAmountString} ${metadata.symbol} (principal only)`);
+        logger.info(`Repaying ${repayAmountString} ${metadata.symbol} (principal + interest)`);
 
-        // Check balance
+        // Check balance against the debt, the buffer only covers interest accrued before the repay is mined
         const hasBalance = await checkTokenBalance(tokenAddress, userAddress, repayAmountString, metadata.decimals);
         if (!hasBalance) {
-          throw new Error(`Insufficient balance. Need exactly: ${repayAmountString} ${metadata.symbol}`);
+          throw new Error(`Insufficient balance. Need: ${repayAmountString} ${metadata.symbol}`);
         }
 
-        // Approve exact amount
-        await approveToken(tokenAddress, loanMasterContractData.address, repayAmountString, metadata.decimals);
+        // Approve the amount owed plus the interest buffer
+        await approveToken(tokenAddress, loanMasterContractData.address, approveAmountString, metadata.decimals);
 
         // Repay
         await executeTransaction(
@@ -681,7 +927,7 @@ export function useLoanMaster() {
               address: loanMasterContractData.address,
               abi: loanMasterContractData.abi,
               functionName: "repayBorrow",
-              args: [tokenAddress],
+              args: [poolId],
               account: userAddress,
             }),
           "Repay borrow",
@@ -694,6 +940,7 @@ export function useLoanMaster() {
       }
     },
     [
+      pools,
       userAddress,
       loanMasterContractData,
       publicClient,
@@ -707,29 +954,27 @@ export function useLoanMaster() {
 
   // Memoized repayment calculations
   const getDisplayRepaymentAmount = useCallback(
-    (tokenAddress: Address): RepaymentInfo => {
-      const userBorrow = userPositions.borrows.find(b => b.tokenAddress === tokenAddress);
+    (poolId: bigint): RepaymentInfo => {
+      const userBorrow = userPositions.borrows.find(b => b.poolId === poolId);
       if (!userBorrow) {
         return { principal: "0", interest: "0", total: "0" };
       }
 
-      const metadata = getTokenMetadata(tokenAddress);
-      const principal = parseFloat(formatUnits(userBorrow.amount, metadata.decimals));
-      const interest = userBorrow.simulatedInterest || 0;
-      const total = userBorrow.totalOwed || principal;
+      const metadata = userBorrow.pool.token;
 
       return {
-        principal: principal.toFixed(6),
-        interest: interest.toFixed(6),
-        total: total.toFixed(6),
+        principal: formatUnits(userBorrow.amount, metadata.decimals),
+        interest: formatUnits(userBorrow.interest, metadata.decimals),
+        total: formatUnits(userBorrow.totalOwed, metadata.decimals),
       };
     },
     [userPositions.borrows],
   );
 
   const getActualRepaymentAmount = useCallback(
-    async (tokenAddress: Address): Promise<string> => {
-      if (!userAddress || !loanMasterContractData?.address || !publicClient) {
+    async (poolId: bigint): Promise<string> => {
+      const pool = pools.find(p => p.poolId === poolId);
+      if (!userAddress || !loanMasterContractData?.address || !publicClient || !pool) {
         return "0";
       }
 
@@ -737,18 +982,17 @@ export function useLoanMaster() {
         const amount = (await publicClient.readContract({
           address: loanMasterContractData.address,
           abi: loanMasterContractData.abi,
-          functionName: "getUserBorrow",
-          args: [tokenAddress, userAddress],
+          functionName: "getRepaymentAmount",
+          args: [poolId, userAddress],
         })) as bigint;
 
-        const metadata = getTokenMetadata(tokenAddress);
-        return formatUnits(amount, metadata.decimals);
+        return formatUnits(amount, pool.token.decimals);
       } catch (error) {
         logger.error("Error getting actual repayment amount", error);
         return "0";
       }
     },
-    [userAddress, loanMasterContractData, publicClient],
+    [pools, userAddress, loanMasterContractData, publicClient],
   );
 
   // Memoized return value to prevent unnecessary re-renders
@@ -758,8 +1002,13 @@ export function useLoanMaster() {
       userPositions,
       isLoading,
       error,
-      addLiquidity,
-      removeLiquidity,
+      deposit,
+      withdraw,
+      redeem,
+      emergencyWithdraw,
+      previewDeposit,
+      previewWithdraw,
+      previewRedeem,
       borrow,
       repayBorrow,
       formatTokenAmount,
@@ -769,15 +1018,19 @@ export function useLoanMaster() {
       checkTokenAllowance,
       getDisplayRepaymentAmount,
       getActualRepaymentAmount,
-      calculateSimulatedInterest,
     }),
     [
       pools,
       userPositions,
       isLoading,
       error,
-      addLiquidity,
-      removeLiquidity,
+      deposit,
+      withdraw,
+      redeem,
+      emergencyWithdraw,
+      previewDeposit,
+      previewWithdraw,
+      previewRedeem,
       borrow,
       repayBorrow,
       formatTokenAmount,
@@ -786,7 +1039,6 @@ export function useLoanMaster() {
       checkTokenAllowance,
       getDisplayRepaymentAmount,
       getActualRepaymentAmount,
-      calculateSimulatedInterest,
     ],
   );
 }
@@ -0,0 +1,42 @@
+import { keccak256, toBytes, zeroHash } from "viem";
+import { useAccount, useReadContracts } from "wagmi";
+import { useDeployedContractInfo, useTargetNetwork } from "~~/hooks/scaffold-eth";
+
+// Role ids as LoanMaster defines them
+const LOAN_MASTER_ROLES = {
+  admin: zeroHash, // DEFAULT_ADMIN_ROLE, also the only role that can unpause
+  poolManager: keccak256(toBytes("POOL_MANAGER_ROLE")),
+  guardian: keccak256(toBytes("GUARDIAN_ROLE")),
+} as const;
+
+export type LoanMasterRole = keyof typeof LOAN_MASTER_ROLES;
+
+const ROLE_NAMES = Object.keys(LOAN_MASTER_ROLES) as LoanMasterRole[];
+
+// LoanMaster roles the connected wallet holds, used to gate the admin console and each of its forms.
+// Every role is false until they are read or when no wallet is connected.
+export function useLoanMasterRoles() {
+  const { address } = useAccount();
+  const { targetNetwork } = useTargetNetwork();
+  const { data: loanMaster } = useDeployedContractInfo({ contractName: "LoanMaster" });
+
+  const { data: results, isLoading } = useReadContracts({
+    contracts:
+      loanMaster && address
+        ? ROLE_NAMES.map(role => ({
+            address: loanMaster.address,
+            abi: loanMaster.abi,
+            functionName: "hasRole" as const,
+            args: [LOAN_MASTER_ROLES[role], address] as const,
+            chainId: targetNetwork.id,
+          }))
+        : [],
+    query: { enabled: Boolean(loanMaster && address) },
+  });
+
+  const roles = Object.fromEntries(
+    ROLE_NAMES.map((role, index) => [role, results?.[index]?.status === "success" && results[index].result === true]),
+  ) as Record<LoanMasterRole, boolean>;
+
+  return { roles, hasAnyRole: ROLE_NAMES.some(role => roles[role]), isLoading };
+}
@@ -0,0 +1,54 @@
+import { useEffect, useState } from "react";
+import { useAccount } from "wagmi";
+import type { ScoreJump, ScoreSnapshot } from "~~/services/scoreHistoryService";
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Score snapshots of the connected address by one scoring model over the last `days` days, as recorded by the
+// reputation API, the default model when none is given. Pass when the address was last scored to fetch them
+// again once that score has been saved.
+export function useReputationHistory(days = 90, scoredAt?: string | null, model?: string | null) {
+  const { address, isConnected } = useAccount();
+  const [snapshots, setSnapshots] = useState<ScoreSnapshot[]>([]);
+  const [jumps, setJumps] = useState<ScoreJump[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!address || !isConnected) {
+      setSnapshots([]);
+      setJumps([]);
+      return;
+    }
+
+    const fetchHistory = async () => {
+      setLoading(true);
+      setError(null);
+
+      try {
+        const from = new Date(Date.now() - days * MS_PER_DAY).toISOString();
+        const modelParam = model ? `&model=${encodeURIComponent(model)}` : "";
+        const response = await fetch(
+          `/api/v1/reputation/${address}/history?from=${encodeURIComponent(from)}${modelParam}`,
+        );
+        if (!response.ok) {
+          throw new Error(`Failed to fetch score history with status ${response.status}`);
+        }
+
+        const body = (await response.json()) as { snapshots: ScoreSnapshot[]; jumps: ScoreJump[] };
+        setSnapshots(body.snapshots);
+        setJumps(body.jumps);
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : "Failed to fetch score history";
+        setError(errorMessage);
+        console.error("Error fetching score history:", err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchHistory();
+  }, [address, isConnected, days, scoredAt, model]);
+
+  return { snapshots, jumps, loading, error };
+}
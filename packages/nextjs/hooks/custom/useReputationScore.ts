@@ -1,17 +1,31 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { useAccount } from "wagmi";
-import { fetchAddressData } from "~~/services/addressService";
-import { ReputationScore, calculateReputationScore } from "~~/services/reputationService";
+import { ReputationScore } from "~~/services/reputationService";
+import { ScoreInputs } from "~~/services/scoreSimulatorService";
 
+type ReputationResponse = ReputationScore & {
+  inputs: ScoreInputs;
+  metadata: { address: string; timestamp: string; calculationVersion: string };
+};
+
+// Scores the connected address with the reputation API, which also saves the snapshot the score trend is drawn
+// from and links the address to the wallets sharing its funder
 export function useReputationScore() {
   const { address, isConnected } = useAccount();
   const [reputationScore, setReputationScore] = useState<ReputationScore | null>(null);
+  // What the score was built from, kept so what-if changes can be scored without fetching again
+  const [scoreInputs, setScoreInputs] = useState<ScoreInputs | null>(null);
+  const [scoredAt, setScoredAt] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Bumped by refetch, a refetch skips the response cache
+  const [refreshCount, setRefreshCount] = useState(0);
 
   useEffect(() => {
     if (!address || !isConnected) {
       setReputationScore(null);
+      setScoreInputs(null);
+      setScoredAt(null);
       setError(null);
       return;
     }
@@ -21,17 +35,22 @@ export function useReputationScore() {
       setError(null);
 
       try {
-        // Fetch the combined data for the address using your service
-        const addressData = await fetchAddressData(address);
-
-        console.log("Fetched address data:", addressData); // Debug log
+        const response = await fetch(
+          `/api/v1/reputation/${address}?inputs=true${refreshCount > 0 ? "&refresh=true" : ""}`,
+          refreshCount > 0 ? { cache: "no-store" } : undefined,
+        );
+        if (!response.ok) {
+          const body = (await response.json().catch(() => ({}))) as { error?: string };
+          throw new Error(body.error ?? `Failed to calculate reputation score with status ${response.status}`);
+        }
 
-        // Calculate reputation score using your service
-        const score = calculateReputationScore(addressData);
+        const { inputs, metadata, ...score } = (await response.json()) as ReputationResponse;
 
         console.log("Calculated reputation score:", score); // Debug log
 
         setReputationScore(score);
+        setScoreInputs(inputs);
+        setScoredAt(metadata.timestamp);
       } catch (err) {
         const errorMessage = err instanceof Error ? err.message : "Failed to calculate reputation score";
         setError(errorMessage);
@@ -42,18 +61,22 @@ export function useReputationScore() {
     };
 
     calculateScore();
+  }, [address, isConnected, refreshCount]);
+
+  const refetch = useCallback(() => {
+    if (address && isConnected) {
+      setReputationScore(null);
+      setError(null);
+      setRefreshCount(count => count + 1);
+    }
   }, [address, isConnected]);
 
   return {
     reputationScore,
+    scoreInputs,
+    scoredAt,
     loading,
     error,
-    refetch: () => {
-      if (address && isConnected) {
-        setReputationScore(null);
-        setError(null);
-        // The useEffect will automatically run again
-      }
-    },
+    refetch,
   };
 }
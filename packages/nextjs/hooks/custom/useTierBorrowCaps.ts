@@ -0,0 +1,57 @@
+import { useMemo } from "react";
+import { erc20Abi, formatUnits } from "viem";
+import { useReadContracts } from "wagmi";
+import { useDeployedContractInfo, useScaffoldReadContract, useTargetNetwork } from "~~/hooks/scaffold-eth";
+
+// Same as LoanMaster.MAX_RISK_LEVEL
+const MAX_RISK_LEVEL = 10;
+
+// Borrow cap LoanMaster enforces for every risk level of a pool, in whole tokens keyed by risk level.
+// caps is null until they are read or when LoanMaster isn't deployed on the target network.
+export function useTierBorrowCaps(poolId: bigint) {
+  const { targetNetwork } = useTargetNetwork();
+  const { data: loanMaster } = useDeployedContractInfo({ contractName: "LoanMaster" });
+
+  const { data: pool } = useScaffoldReadContract({
+    contractName: "LoanMaster",
+    functionName: "getLiquidityPool",
+    args: [poolId],
+  });
+
+  const { data: results, isLoading } = useReadContracts({
+    contracts: loanMaster
+      ? Array.from({ length: MAX_RISK_LEVEL }, (_, index) => ({
+          address: loanMaster.address,
+          abi: loanMaster.abi,
+          functionName: "getTierBorrowCap" as const,
+          args: [poolId, index + 1] as const,
+          chainId: targetNetwork.id,
+        }))
+      : [],
+    query: { enabled: Boolean(loanMaster) },
+  });
+
+  // Read from the token itself, the pool may hold a token the app has no metadata for
+  const { data: token } = useReadContracts({
+    allowFailure: false,
+    contracts: pool
+      ? [
+          { address: pool.tokenAddress, abi: erc20Abi, functionName: "decimals", chainId: targetNetwork.id },
+          { address: pool.tokenAddress, abi: erc20Abi, functionName: "symbol", chainId: targetNetwork.id },
+        ]
+      : [],
+    query: { enabled: Boolean(pool) },
+  });
+  const [decimals, symbol] = token ?? [];
+
+  const caps = useMemo(() => {
+    if (decimals === undefined || !results || results.length !== MAX_RISK_LEVEL) return null;
+    if (results.some(result => result.status !== "success")) return null;
+
+    return Object.fromEntries(
+      results.map((result, index) => [index + 1, Number(formatUnits(result.result as bigint, decimals))]),
+    ) as Record<number, number>;
+  }, [results, decimals]);
+
+  return { caps, symbol: symbol ?? null, isLoading };
+}
@@ -0,0 +1,42 @@
+import { useCallback, useState } from "react";
+import { useAccount } from "wagmi";
+import type { WorldIdProof } from "~~/services/worldIdService";
+
+// Submits the proof from the World ID widget (use the connected address as its signal) for server-side verification
+export const useWorldIdVerification = () => {
+  const { address } = useAccount();
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const submitProof = useCallback(
+    async (proof: WorldIdProof): Promise<boolean> => {
+      if (!address) {
+        setError("Connect a wallet to verify your World ID");
+        return false;
+      }
+
+      setIsVerifying(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/v1/reputation/${address}/world-id`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(proof),
+        });
+        if (!response.ok) {
+          const body = (await response.json().catch(() => ({}))) as { error?: string };
+          throw new Error(body.error ?? `World ID verification failed with status ${response.status}`);
+        }
+        return true;
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "World ID verification failed");
+        return false;
+      } finally {
+        setIsVerifying(false);
+      }
+    },
+    [address],
+  );
+
+  return { submitProof, isVerifying, error };
+};
@@ -13,7 +13,9 @@ export const DEFAULT_ALCHEMY_API_KEY = "oKxs-03sij-U_N0iOlrSsZFr29-IqbuF";
 
 const scaffoldConfig = {
   // The networks on which your DApp is live
-  targetNetworks: [chains.flowMainnet],
+  // Contract types come from the first network. LoanMaster on Flow still runs the bytecode from before score
+  // attestations, move chains.flowMainnet first once it has been redeployed there and deployedContracts regenerated
+  targetNetworks: [chains.hardhat, chains.flowMainnet],
 
   // The interval at which your front-end polls the RPC servers for new data
   // it has no effect if you only target the local network (default is 4000)
@@ -0,0 +1,99 @@
+// Backtests scoring models against labeled addresses, run with `yarn next:backtest`.
+//
+//   --dataset <file>     labeled cases, defaults to services/fixtures/backtestCases.json
+//   --baseline <model>   model the candidate is compared with, defaults to the one before the default model
+//   --candidate <model>  defaults to the default model
+//   --json               print the reports as JSON instead of tables
+import { readFileSync } from "fs";
+import path from "path";
+import { parseArgs } from "util";
+import { BacktestDataset, BacktestReport, backtestModel, prepareCases } from "~~/services/backtestService";
+import { DEFAULT_SCORING_MODEL_ID, SCORING_MODELS, getScoringModel } from "~~/services/scoringModels";
+
+const DEFAULT_DATASET = path.join(__dirname, "../services/fixtures/backtestCases.json");
+
+// Columns padded to their widest cell, the first one left-aligned
+function formatTable(rows: string[][]): string {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map(row => row[column].length)));
+  return rows
+    .map(row => row.map((cell, column) => (column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column]))))
+    .map(row => row.join("   "))
+    .join("\n");
+}
+
+const formatRatio = (value: number | null) => (value === null ? "-" : value.toFixed(3));
+const formatRate = (value: number | null) => (value === null ? "-" : `${Math.round(value * 100)}%`);
+
+function printComparison(reports: BacktestReport[], datasetPath: string): void {
+  const [first] = reports;
+  const names = reports.map(report => `${report.model} (${report.modelVersion})`);
+
+  console.log(`Backtest of ${first.cases} cases (${first.good} good, ${first.bad} bad) from ${datasetPath}\n`);
+
+  console.log("AUC, how often a good case ranks above a bad one (0.5 is a coin flip)");
+  console.log(
+    formatTable([
+      ["", ...names],
+      ["Overall score", ...reports.map(report => formatRatio(report.auc.overall))],
+      ["Risk level", ...reports.map(report => formatRatio(report.auc.riskLevel))],
+    ]),
+  );
+
+  console.log("\nCalibration, cases per risk level and the share of them that went bad");
+  console.log(
+    formatTable([
+      ["Risk level", ...names.flatMap(name => [`${name} cases`, "bad rate"])],
+      ...first.calibration.map((row, index) => [
+        row.riskLevel.toString(),
+        ...reports.flatMap(report => [
+          report.calibration[index].cases.toString(),
+          formatRate(report.calibration[index].badRate),
+        ]),
+      ]),
+    ]),
+  );
+
+  console.log("\nScore distribution, good / bad cases per overall score bucket");
+  console.log(
+    formatTable([
+      ["Score", ...names],
+      ...first.distribution.map((bucket, index) => [
+        `${bucket.from}-${bucket.to}`,
+        ...reports.map(report => `${report.distribution[index].good} / ${report.distribution[index].bad}`),
+      ]),
+    ]),
+  );
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      dataset: { type: "string" },
+      baseline: { type: "string" },
+      candidate: { type: "string" },
+      json: { type: "boolean", default: false },
+    },
+  });
+
+  const modelIds = Object.keys(SCORING_MODELS);
+  const candidate = getScoringModel(values.candidate ?? DEFAULT_SCORING_MODEL_ID);
+  const baseline = getScoringModel(values.baseline ?? modelIds[Math.max(modelIds.indexOf(candidate.id) - 1, 0)]);
+
+  const datasetPath = path.resolve(values.dataset ?? DEFAULT_DATASET);
+  const dataset = JSON.parse(readFileSync(datasetPath, "utf8")) as BacktestDataset;
+
+  // Cases are only scored, the saved responses are never refreshed from Blockscout
+  const prepared = await prepareCases(dataset);
+  const reports = [baseline, candidate].map(model => backtestModel(prepared, model));
+
+  if (values.json) {
+    console.log(JSON.stringify(reports, null, 2));
+  } else {
+    printComparison(reports, path.relative(process.cwd(), datasetPath));
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,155 @@
+import { fetchMultiChainAddressData } from "./addressService";
+import { fetchCredentials } from "./credentialsService";
+import { fetchGovernanceActivity } from "./governanceService";
+import { fetchProtocolHistory } from "./protocolHistoryService";
+import { ReputationScore } from "./reputationService";
+import { recordScoreSnapshot } from "./scoreHistoryService";
+import { ScoreInputs, scoreFromInputs } from "./scoreSimulatorService";
+import { ScoringModel, getScoringModel } from "./scoringModels";
+import { getFundingGraph } from "./sybilService";
+import { getWorldIdVerification } from "./worldIdService";
+import { createPublicClient, fallback, getAddress, http, isAddress } from "viem";
+import { mainnet } from "viem/chains";
+import { normalize } from "viem/ens";
+import { getAlchemyHttpUrl } from "~~/utils/scaffold-eth";
+
+// Server-side scoring of an address from every source, shared by the reputation routes
+
+// Fetches everything the score is built from. The address' wallets are added to the server's funding graph
+// before its clusters are read, so scoring is the only thing that writes to the graph.
+export async function fetchScoreInputs(address: string): Promise<ScoreInputs> {
+  const [chainData, protocolHistory, governance, credentials, worldIdVerification] = await Promise.all([
+    fetchMultiChainAddressData(address),
+    fetchProtocolHistory(getAddress(address)),
+    fetchGovernanceActivity(address),
+    fetchCredentials(address),
+    getWorldIdVerification(address),
+  ]);
+
+  const fundingGraph = getFundingGraph();
+  fundingGraph.record(chainData);
+
+  return {
+    chainData,
+    protocolHistory,
+    governance,
+    credentials,
+    worldIdVerified: !!worldIdVerification,
+    fundingClusters: fundingGraph.clustersOf(chainData),
+  };
+}
+
+// Fetches everything the score is built from, computes it and saves a snapshot of it. The inputs are
+// returned too, for callers that simulate changes to them.
+export async function scoreAddressWithInputs(
+  address: string,
+  model: ScoringModel = getScoringModel(),
+): Promise<{ score: ReputationScore; inputs: ScoreInputs }> {
+  const inputs = await fetchScoreInputs(address);
+  const score = scoreFromInputs(inputs, model);
+
+  // Keep a snapshot so the score can be followed over time
+  await recordScoreSnapshot(address, score, model.version);
+
+  return { score, inputs };
+}
+
+export async function scoreAddress(address: string, model: ScoringModel = getScoringModel()): Promise<ReputationScore> {
+  return (await scoreAddressWithInputs(address, model)).score;
+}
+
+// ------------------ Batch Scoring ------------------
+
+export interface BatchScoreResult {
+  input: string; // the address or ENS name as submitted
+  address: string | null; // null when an ENS name did not resolve
+  score?: ReputationScore;
+  error?: string;
+}
+
+export interface BatchScoreOptions {
+  model?: ScoringModel;
+  concurrency?: number;
+}
+
+export const DEFAULT_BATCH_CONCURRENCY = 5;
+
+// Scores computed for batches are reused for a while, partners tend to resubmit overlapping member lists
+const BATCH_CACHE_TTL_MS = 10 * 60 * 1000;
+const MAX_CACHED_SCORES = 5_000;
+const scoreCache = new Map<string, { score: Promise<ReputationScore>; expiresAt: number }>();
+
+function cachedScore(address: string, model: ScoringModel): Promise<ReputationScore> {
+  const key = `${model.id}:${address.toLowerCase()}`;
+  const cached = scoreCache.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.score;
+  }
+
+  // Forget the score cached longest ago once the cache is full
+  if (scoreCache.size >= MAX_CACHED_SCORES) {
+    const oldest = scoreCache.keys().next().value;
+    if (oldest !== undefined) scoreCache.delete(oldest);
+  }
+
+  const score = scoreAddress(address, model);
+  scoreCache.set(key, { score, expiresAt: Date.now() + BATCH_CACHE_TTL_MS });
+  // A failed score is retried by the next batch instead of being served from the cache
+  score.catch(() => scoreCache.delete(key));
+  return score;
+}
+
+const ensClient = createPublicClient({
+  chain: mainnet,
+  transport: fallback(getAlchemyHttpUrl(mainnet.id) ? [http(getAlchemyHttpUrl(mainnet.id)), http()] : [http()]),
+});
+
+async function resolveAddress(input: string): Promise<string> {
+  if (input.includes(".")) {
+    const resolved = await ensClient.getEnsAddress({ name: normalize(input) });
+    if (!resolved) {
+      throw new Error(`ENS name ${input} does not resolve to an address`);
+    }
+    return resolved;
+  }
+
+  if (!isAddress(input)) {
+    throw new Error("Invalid address, expected an Ethereum address or an ENS name");
+  }
+  return getAddress(input);
+}
+
+// Runs `task` over the items with at most `concurrency` of them in flight, results keep the input order
+async function mapWithConcurrency<TItem, TResult>(
+  items: TItem[],
+  concurrency: number,
+  task: (item: TItem) => Promise<TResult>,
+): Promise<TResult[]> {
+  const results: TResult[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
+
+// Scores every input, an address that fails is reported in its own result instead of failing the batch
+export async function scoreAddresses(inputs: string[], options: BatchScoreOptions = {}): Promise<BatchScoreResult[]> {
+  const model = options.model ?? getScoringModel();
+
+  return mapWithConcurrency(inputs, options.concurrency ?? DEFAULT_BATCH_CONCURRENCY, async input => {
+    let address: string | null = null;
+    try {
+      address = await resolveAddress(input.trim());
+      return { input, address, score: await cachedScore(address, model) };
+    } catch (error) {
+      return { input, address, error: error instanceof Error ? error.message : "An unknown error occurred" };
+    }
+  });
+}
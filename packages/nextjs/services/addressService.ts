@@ -1,3 +1,12 @@
+import {
+  EMPTY_NFT_VALUATION,
+  FloorPriceProvider,
+  NftValuation,
+  getFloorPriceProvider,
+  valueNftHoldings,
+} from "./nftValuationService";
+import { EMPTY_TOKEN_CLASSIFICATION, TokenClassification, classifyTokens } from "./tokenClassificationService";
+
 // Define response data types based on the API responses
 interface CountersData {
   transactions_count: string;
@@ -43,6 +52,7 @@ interface Token {
   holders: string;
   holders_count: string;
   icon_url: string | null;
+  is_scam?: boolean; // flagged by Blockscout, older instances leave it out
   name: string;
   symbol: string;
   total_supply: string | null;
@@ -50,7 +60,7 @@ interface Token {
   volume_24h: string | null;
 }
 
-interface TokenItem {
+export interface TokenItem {
   token: Token;
   token_id: string | null;
   token_instance: any | null;
@@ -59,6 +69,7 @@ interface TokenItem {
 
 interface TokensData {
   items: TokenItem[];
+  truncated: boolean; // more pages existed than the pagination limits allowed to read
   next_page_params?: {
     fiat_value: string;
     id: number;
@@ -89,7 +100,7 @@ interface NFTMetadata {
   [key: string]: any; // For additional metadata fields
 }
 
-interface NFTItem {
+export interface NFTItem {
   animation_url: string | null;
   external_app_url: string | null;
   id: string;
@@ -107,6 +118,7 @@ interface NFTItem {
 
 interface NFTData {
   items: NFTItem[];
+  truncated: boolean; // more pages existed than the pagination limits allowed to read
   next_page_params?: {
     items_count: number;
     token_contract_address_hash?: string;
@@ -115,36 +127,282 @@ interface NFTData {
   };
 }
 
+// When the address was active, from the transaction history endpoints
+interface ActivityData {
+  firstTransactionAt: string | null; // ISO timestamp of the address' first transaction
+  firstFunder: string | null; // sender of the first transaction when it funded the address
+  transactionTimestamps: string[]; // ISO timestamps of the most recent transactions, newest first
+  truncated: boolean; // older transactions exist beyond the pages that were read
+}
+
 export type CombinedData = AddressData &
   CountersData & {
     tokens: TokensData;
+    tokenClassification: TokenClassification; // tokens resolved against the registry, spam left out
     nfts: NFTData;
+    nftValuation: NftValuation; // floor-price value of the NFTs that passed the spam filter
+    activity: ActivityData;
   };
 
-export async function fetchAddressData(address: string): Promise<CombinedData> {
+// A Blockscout instance the reputation engine reads from. Weights are relative, they are
+// normalized over the chains where the address is actually active.
+export interface BlockscoutChain {
+  id: number;
+  name: string;
+  apiUrl: string;
+  weight: number;
+}
+
+export const BLOCKSCOUT_CHAINS: BlockscoutChain[] = [
+  { id: 1, name: "Ethereum", apiUrl: "https://eth.blockscout.com/api/v2", weight: 0.4 },
+  { id: 747, name: "Flow EVM", apiUrl: "https://evm.flowscan.io/api/v2", weight: 0.2 },
+  { id: 8453, name: "Base", apiUrl: "https://base.blockscout.com/api/v2", weight: 0.2 },
+  { id: 10, name: "Optimism", apiUrl: "https://optimism.blockscout.com/api/v2", weight: 0.2 },
+];
+
+export interface ChainAddressData {
+  chain: BlockscoutChain;
+  data: CombinedData;
+}
+
+// What Blockscout knows about an address it has never seen, it answers 404 for those
+function emptyAddressData(address: string): CombinedData {
+  return {
+    block_number_balance_updated_at: 0,
+    coin_balance: "0",
+    creation_transaction_hash: null,
+    creator_address_hash: null,
+    ens_domain_name: null,
+    exchange_rate: "0",
+    has_beacon_chain_withdrawals: false,
+    has_logs: false,
+    has_token_transfers: false,
+    has_tokens: false,
+    has_validated_blocks: false,
+    hash: address,
+    implementations: [],
+    is_contract: false,
+    is_scam: false,
+    is_verified: false,
+    metadata: null,
+    name: null,
+    private_tags: [],
+    proxy_type: null,
+    public_tags: [],
+    token: null,
+    watchlist_address_id: null,
+    watchlist_names: [],
+    transactions_count: "0",
+    token_transfers_count: "0",
+    gas_usage_count: "0",
+    validations_count: "0",
+    tokens: { items: [], truncated: false },
+    tokenClassification: EMPTY_TOKEN_CLASSIFICATION,
+    nfts: { items: [], truncated: false },
+    nftValuation: EMPTY_NFT_VALUATION,
+    activity: { firstTransactionAt: null, firstFunder: null, transactionTimestamps: [], truncated: false },
+  };
+}
+
+export function hasChainActivity(data: CombinedData): boolean {
+  return (
+    parseInt(data.transactions_count || "0", 10) > 0 ||
+    parseInt(data.token_transfers_count || "0", 10) > 0 ||
+    (data.coin_balance ?? "0") !== "0"
+  );
+}
+
+// Limits for walking Blockscout's paginated token and NFT lists (50 items per page)
+export interface PaginationOptions {
+  maxPages: number;
+  timeBudgetMs: number; // for the whole address, pages still missing after it are skipped
+}
+
+export const DEFAULT_PAGINATION: PaginationOptions = {
+  maxPages: 10,
+  timeBudgetMs: 10_000,
+};
+
+type PageParams = Record<string, string | number | null>;
+
+// Follows next_page_params until the list ends or a limit is hit. Items are deduped by key since
+// Blockscout can repeat an item across pages when balances change between requests.
+export async function fetchAllPages<TItem>(
+  url: string,
+  keyOf: (item: TItem) => string,
+  pagination: PaginationOptions,
+  deadline: number,
+): Promise<{ ok: boolean; items: TItem[]; truncated: boolean }> {
   const headers = { accept: "application/json" };
-  const baseUrl = "https://eth.blockscout.com/api/v2/addresses";
+  const items = new Map<string, TItem>();
+  let nextPageParams: PageParams | null = null;
 
-  const [countersRes, addressRes, tokensRes, nftsRes] = await Promise.all([
+  for (let page = 0; page < pagination.maxPages; page++) {
+    const pageUrl = new URL(url);
+    Object.entries(nextPageParams ?? {}).forEach(([key, value]) => {
+      if (value !== null) pageUrl.searchParams.set(key, String(value));
+    });
+
+    const response = await fetch(pageUrl, { headers, next: { revalidate: 60 } });
+    if (!response.ok) {
+      // Losing a later page only truncates the list, the first one is required
+      return { ok: page > 0, items: Array.from(items.values()), truncated: page > 0 };
+    }
+
+    const body = (await response.json()) as { items: TItem[]; next_page_params?: PageParams | null };
+    body.items.forEach(item => items.set(keyOf(item), item));
+
+    nextPageParams = body.next_page_params ?? null;
+    if (!nextPageParams) {
+      return { ok: true, items: Array.from(items.values()), truncated: false };
+    }
+    if (Date.now() > deadline) break;
+  }
+
+  return { ok: true, items: Array.from(items.values()), truncated: true };
+}
+
+// The v2 API only lists transactions newest first, the RPC-style API can sort ascending to find the first one
+async function fetchFirstTransaction(
+  apiUrl: string,
+  address: string,
+): Promise<{ timestamp: string; funder: string | null } | null> {
+  const rpcApiUrl = apiUrl.replace(/\/v2$/, "");
+  try {
+    const response = await fetch(
+      `${rpcApiUrl}?module=account&action=txlist&address=${address}&sort=asc&page=1&offset=1`,
+      { headers: { accept: "application/json" }, next: { revalidate: 3600 } },
+    );
+    if (!response.ok) return null;
+
+    const body = (await response.json()) as {
+      result?: { timeStamp: string; from: string; to: string; value: string }[] | string;
+    };
+    const firstTransaction = Array.isArray(body.result) ? body.result[0] : undefined;
+    if (!firstTransaction) return null;
+
+    // An incoming transfer funded the address, an outgoing first transaction means it was funded another way
+    const isFunding = firstTransaction.to?.toLowerCase() === address.toLowerCase() && firstTransaction.value !== "0";
+
+    return {
+      timestamp: new Date(Number(firstTransaction.timeStamp) * 1000).toISOString(),
+      funder: isFunding ? firstTransaction.from.toLowerCase() : null,
+    };
+  } catch (error) {
+    console.error("Error fetching first transaction:", error);
+    return null;
+  }
+}
+
+const tokenKey = (token: Token) => (token.address_hash ?? token.address ?? "").toLowerCase();
+
+export async function fetchAddressData(
+  address: string,
+  chain: BlockscoutChain = BLOCKSCOUT_CHAINS[0],
+  pagination: PaginationOptions = DEFAULT_PAGINATION,
+): Promise<CombinedData> {
+  const headers = { accept: "application/json" };
+  const baseUrl = `${chain.apiUrl}/addresses`;
+  const deadline = Date.now() + pagination.timeBudgetMs;
+
+  const [countersRes, addressRes, tokens, nfts, transactions, firstTransaction] = await Promise.all([
     fetch(`${baseUrl}/${address}/counters`, { headers, next: { revalidate: 60 } }),
     fetch(`${baseUrl}/${address}`, { headers, next: { revalidate: 60 } }),
-    fetch(`${baseUrl}/${address}/tokens?type=ERC-20%2CERC-721%2CERC-1155`, { headers, next: { revalidate: 60 } }),
-    fetch(`${baseUrl}/${address}/nft?type=ERC-721%2CERC-404%2CERC-1155`, { headers, next: { revalidate: 60 } }),
+    fetchAllPages<TokenItem>(
+      `${baseUrl}/${address}/tokens?type=ERC-20%2CERC-721%2CERC-1155`,
+      item => `${tokenKey(item.token)}-${item.token_id ?? ""}`,
+      pagination,
+      deadline,
+    ),
+    fetchAllPages<NFTItem>(
+      `${baseUrl}/${address}/nft?type=ERC-721%2CERC-404%2CERC-1155`,
+      item => `${tokenKey(item.token)}-${item.id}`,
+      pagination,
+      deadline,
+    ),
+    fetchAllPages<{ hash: string; timestamp: string }>(
+      `${baseUrl}/${address}/transactions`,
+      item => item.hash,
+      pagination,
+      deadline,
+    ),
+    fetchFirstTransaction(chain.apiUrl, address),
   ]);
 
-  if (!countersRes.ok || !addressRes.ok || !tokensRes.ok || !nftsRes.ok) {
-    throw new Error("Failed to fetch data from Blockscout API");
+  if (addressRes.status === 404) {
+    return emptyAddressData(address);
+  }
+
+  if (!countersRes.ok || !addressRes.ok || !tokens.ok || !nfts.ok || !transactions.ok) {
+    throw new Error(`Failed to fetch data from ${chain.name} Blockscout API`);
   }
 
-  const countersData = (await countersRes.json()) as CountersData;
-  const addressData = (await addressRes.json()) as AddressData;
-  const tokensData = (await tokensRes.json()) as TokensData;
-  const nftsData = (await nftsRes.json()) as NFTData;
+  return combineAddressData(chain, {
+    address: (await addressRes.json()) as AddressData,
+    counters: (await countersRes.json()) as CountersData,
+    tokens: { items: tokens.items, truncated: tokens.truncated },
+    nfts: { items: nfts.items, truncated: nfts.truncated },
+    transactions: { items: transactions.items, truncated: transactions.truncated },
+    firstTransaction,
+  });
+}
+
+// What Blockscout answered for an address on one chain, list endpoints with their pages already walked
+export interface AddressResponses {
+  address: AddressData;
+  counters: CountersData;
+  tokens: { items: TokenItem[]; truncated: boolean };
+  nfts: { items: NFTItem[]; truncated: boolean };
+  transactions: { items: { hash: string; timestamp: string }[]; truncated: boolean };
+  firstTransaction: { timestamp: string; funder: string | null } | null;
+}
+
+// Builds the scoring data from the responses, fetched live or saved ones replayed by the backtest
+export async function combineAddressData(
+  chain: BlockscoutChain,
+  responses: AddressResponses,
+  floorPriceProvider: FloorPriceProvider = getFloorPriceProvider(),
+): Promise<CombinedData> {
+  const { tokens, nfts, transactions, firstTransaction } = responses;
 
   return {
-    ...addressData,
-    ...countersData,
-    tokens: tokensData,
-    nfts: nftsData,
+    ...responses.address,
+    ...responses.counters,
+    tokens,
+    tokenClassification: classifyTokens(chain.id, tokens.items),
+    nfts,
+    nftValuation: await valueNftHoldings(chain.id, nfts.items, floorPriceProvider),
+    activity: {
+      // Without the RPC-style API the oldest transaction read is only exact when nothing was truncated
+      firstTransactionAt:
+        firstTransaction?.timestamp ?? transactions.items[transactions.items.length - 1]?.timestamp ?? null,
+      firstFunder: firstTransaction?.funder ?? null,
+      transactionTimestamps: transactions.items.map(item => item.timestamp),
+      truncated: transactions.truncated,
+    },
   };
 }
+
+// Fetches every configured chain, a chain whose explorer is down is left out rather than failing the score
+export async function fetchMultiChainAddressData(
+  address: string,
+  chains: BlockscoutChain[] = BLOCKSCOUT_CHAINS,
+  pagination: PaginationOptions = DEFAULT_PAGINATION,
+): Promise<ChainAddressData[]> {
+  const results = await Promise.allSettled(chains.map(chain => fetchAddressData(address, chain, pagination)));
+
+  const chainData: ChainAddressData[] = [];
+  results.forEach((result, index) => {
+    if (result.status === "fulfilled") {
+      chainData.push({ chain: chains[index], data: result.value });
+    } else {
+      console.error(`Error fetching ${chains[index].name} address data:`, result.reason);
+    }
+  });
+
+  if (chainData.length === 0) {
+    throw new Error("Failed to fetch data from Blockscout API");
+  }
+
+  return chainData;
+}
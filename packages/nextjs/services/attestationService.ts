@@ -0,0 +1,178 @@
+import { ReputationScore } from "./reputationService";
+import { Address, Hex, getAddress, parseSignature } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import deployedContracts from "~~/contracts/deployedContracts";
+import scaffoldConfig from "~~/scaffold.config";
+import {
+  REPUTATION_CREDENTIAL_TYPE,
+  ReputationCredentialPayload,
+  addressToDid,
+  credentialSigningHash,
+  credentialSigningInput,
+  encodeCredentialSignature,
+} from "~~/utils/reputationCredential";
+
+// Attestations are only meant to be used right away by the borrow transaction
+export const ATTESTATION_TTL_SECONDS = 10 * 60;
+
+// Must match SCORE_ATTESTATION_TYPEHASH in LoanMaster.sol
+export const SCORE_ATTESTATION_TYPES = {
+  ScoreAttestation: [
+    { name: "borrower", type: "address" },
+    { name: "score", type: "uint256" },
+    { name: "riskLevel", type: "uint8" },
+    { name: "expiry", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+  ],
+} as const;
+
+export interface ScoreAttestation {
+  borrower: Address;
+  score: bigint;
+  riskLevel: number;
+  expiry: bigint;
+  nonce: bigint;
+}
+
+// JSON-safe shape returned by the attestation API
+export interface SignedScoreAttestationResponse {
+  attestation: {
+    borrower: Address;
+    score: string;
+    riskLevel: number;
+    expiry: string;
+    nonce: string;
+  };
+  signature: Hex;
+  signer: Address;
+  chainId: number;
+  verifyingContract: Address;
+}
+
+function getAttestationDomain() {
+  const chainId = scaffoldConfig.targetNetworks[0].id;
+  const loanMaster = (deployedContracts as Record<number, { LoanMaster?: { address: Address } }>)[chainId]?.LoanMaster;
+
+  if (!loanMaster) {
+    throw new Error(`LoanMaster is not deployed on chain ${chainId}`);
+  }
+
+  return {
+    name: "LoanMaster",
+    version: "1",
+    chainId,
+    verifyingContract: loanMaster.address,
+  } as const;
+}
+
+function getAttestationSigner() {
+  const privateKey = process.env.ATTESTATION_SIGNER_PRIVATE_KEY;
+  if (!privateKey) {
+    throw new Error("Attestation signer is not configured");
+  }
+
+  return privateKeyToAccount(privateKey as Hex);
+}
+
+function randomNonce(): bigint {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return BigInt(`0x${Buffer.from(bytes).toString("hex")}`);
+}
+
+export async function signScoreAttestation(
+  borrower: Address,
+  reputationScore: ReputationScore,
+): Promise<SignedScoreAttestationResponse> {
+  const signer = getAttestationSigner();
+  const domain = getAttestationDomain();
+
+  const attestation: ScoreAttestation = {
+    borrower,
+    score: BigInt(reputationScore.overall),
+    riskLevel: reputationScore.riskLevel,
+    expiry: BigInt(Math.floor(Date.now() / 1000) + ATTESTATION_TTL_SECONDS),
+    nonce: randomNonce(),
+  };
+
+  const signature = await signer.signTypedData({
+    domain,
+    types: SCORE_ATTESTATION_TYPES,
+    primaryType: "ScoreAttestation",
+    message: attestation,
+  });
+
+  return {
+    attestation: {
+      borrower: attestation.borrower,
+      score: attestation.score.toString(),
+      riskLevel: attestation.riskLevel,
+      expiry: attestation.expiry.toString(),
+      nonce: attestation.nonce.toString(),
+    },
+    signature,
+    signer: signer.address,
+    chainId: domain.chainId,
+    verifyingContract: domain.verifyingContract,
+  };
+}
+
+// ------------------ Reputation Credentials ------------------
+
+// Credentials are carried to partner protocols, long enough to be reused, short enough for the score to stay current
+export const REPUTATION_CREDENTIAL_TTL_SECONDS = 24 * 60 * 60;
+
+export interface IssuedReputationCredential {
+  credential: string; // VC-JWT, verify it with utils/reputationCredential
+  issuer: Address;
+  issuedAt: string;
+  expiresAt: string;
+}
+
+// The address partners trust credentials from
+export function getCredentialIssuer(): Address {
+  return getAttestationSigner().address;
+}
+
+// Issues a W3C Verifiable Credential of the score, signed by the attestation signer
+export async function issueReputationCredential(
+  address: Address,
+  reputationScore: ReputationScore,
+  modelVersion: string,
+): Promise<IssuedReputationCredential> {
+  const signer = getAttestationSigner();
+  const subject = addressToDid(address);
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const expiresAt = issuedAt + REPUTATION_CREDENTIAL_TTL_SECONDS;
+
+  const payload: ReputationCredentialPayload = {
+    iss: addressToDid(signer.address),
+    sub: subject,
+    iat: issuedAt,
+    nbf: issuedAt,
+    exp: expiresAt,
+    jti: `urn:uuid:${crypto.randomUUID()}`,
+    vc: {
+      "@context": ["https://www.w3.org/2018/credentials/v1"],
+      type: ["VerifiableCredential", REPUTATION_CREDENTIAL_TYPE],
+      credentialSubject: {
+        id: subject,
+        address: getAddress(address),
+        score: reputationScore.overall,
+        riskLevel: reputationScore.riskLevel,
+        components: { ...reputationScore.components },
+        model: reputationScore.model,
+        modelVersion,
+      },
+    },
+  };
+
+  const signingInput = credentialSigningInput(payload);
+  const { r, s } = parseSignature(await signer.sign({ hash: credentialSigningHash(signingInput) }));
+
+  return {
+    credential: `${signingInput}.${encodeCredentialSignature(r, s)}`,
+    issuer: signer.address,
+    issuedAt: new Date(issuedAt * 1000).toISOString(),
+    expiresAt: new Date(expiresAt * 1000).toISOString(),
+  };
+}
@@ -0,0 +1,210 @@
+import { AddressResponses, BLOCKSCOUT_CHAINS, ChainAddressData, combineAddressData } from "./addressService";
+import { CredentialsData, EMPTY_CREDENTIALS } from "./credentialsService";
+import { EMPTY_GOVERNANCE_ACTIVITY, GovernanceActivity } from "./governanceService";
+import { FloorPriceProvider, createFixtureFloorPriceProvider } from "./nftValuationService";
+import { EMPTY_PROTOCOL_HISTORY, ProtocolHistory } from "./protocolHistoryService";
+import { ScoreInputs, scoreFromInputs } from "./scoreSimulatorService";
+import { ScoringModel } from "./scoringModels";
+import { createFundingGraph } from "./sybilService";
+
+// Offline backtesting: scores labeled addresses from saved Blockscout responses and measures how well
+// the score and the risk level separate borrowers that repaid from those that defaulted
+
+export type Outcome = "good" | "bad";
+
+// An address as it was when it borrowed, and how that loan turned out
+export interface BacktestCase {
+  id: string;
+  outcome: Outcome; // good: repaid on time, bad: defaulted or repaid late
+  note?: string;
+  savedAt: string; // ISO timestamp of when the responses were saved
+  chains: Record<string, AddressResponses>; // keyed by chain id, chains missing here are left out like unreachable ones
+  protocolHistory?: ProtocolHistory;
+  governance?: GovernanceActivity;
+  credentials?: CredentialsData;
+  worldIdVerified?: boolean;
+}
+
+export interface BacktestDataset {
+  description: string;
+  cases: BacktestCase[];
+}
+
+export interface PreparedCase {
+  testCase: BacktestCase;
+  inputs: ScoreInputs;
+}
+
+export interface ScoredCase {
+  id: string;
+  outcome: Outcome;
+  overall: number;
+  riskLevel: number;
+}
+
+export interface CalibrationRow {
+  riskLevel: number;
+  cases: number;
+  good: number;
+  bad: number;
+  badRate: number | null; // share of the level's cases that went bad, null without any
+}
+
+export interface DistributionBucket {
+  from: number;
+  to: number; // inclusive
+  good: number;
+  bad: number;
+}
+
+export interface BacktestReport {
+  model: string;
+  modelVersion: string;
+  cases: number;
+  good: number;
+  bad: number;
+  auc: { overall: number | null; riskLevel: number | null };
+  calibration: CalibrationRow[];
+  distribution: DistributionBucket[];
+  scored: ScoredCase[];
+}
+
+// Moves an ISO timestamp by `offsetMs`, keeping nulls
+const shift = <T extends string | null>(timestamp: T, offsetMs: number): T =>
+  (timestamp === null ? null : new Date(new Date(timestamp).getTime() + offsetMs).toISOString()) as T;
+
+// Scoring compares timestamps with the current time, shifting them by the time since the responses were
+// saved scores every case as of its savedAt no matter when the backtest runs
+function shiftResponses(responses: AddressResponses, offsetMs: number): AddressResponses {
+  return {
+    ...responses,
+    transactions: {
+      ...responses.transactions,
+      items: responses.transactions.items.map(item => ({ ...item, timestamp: shift(item.timestamp, offsetMs) })),
+    },
+    firstTransaction: responses.firstTransaction && {
+      ...responses.firstTransaction,
+      timestamp: shift(responses.firstTransaction.timestamp, offsetMs),
+    },
+  };
+}
+
+// Builds the scoring inputs of every case once, they are shared by all the models being compared
+export async function prepareCases(
+  dataset: BacktestDataset,
+  floorPriceProvider: FloorPriceProvider = createFixtureFloorPriceProvider(),
+): Promise<PreparedCase[]> {
+  const prepared = await Promise.all(
+    dataset.cases.map(async testCase => {
+      const offsetMs = Date.now() - new Date(testCase.savedAt).getTime();
+      const chainData: ChainAddressData[] = await Promise.all(
+        BLOCKSCOUT_CHAINS.filter(chain => testCase.chains[chain.id]).map(async chain => ({
+          chain,
+          data: await combineAddressData(
+            chain,
+            shiftResponses(testCase.chains[chain.id], offsetMs),
+            floorPriceProvider,
+          ),
+        })),
+      );
+      if (chainData.length === 0) {
+        throw new Error(`Invalid backtest case ${testCase.id}: no responses of a known chain`);
+      }
+
+      const governance = testCase.governance ?? EMPTY_GOVERNANCE_ACTIVITY;
+      return {
+        testCase,
+        inputs: {
+          chainData,
+          protocolHistory: testCase.protocolHistory ?? EMPTY_PROTOCOL_HISTORY,
+          governance: {
+            ...governance,
+            votes: governance.votes.map(vote => ({ ...vote, votedAt: shift(vote.votedAt, offsetMs) })),
+          },
+          credentials: testCase.credentials ?? EMPTY_CREDENTIALS,
+          worldIdVerified: testCase.worldIdVerified ?? false,
+          fundingClusters: {},
+        },
+      };
+    }),
+  );
+
+  // The dataset gets a funding graph of its own, holding every case, so each case sees its whole cluster
+  const fundingGraph = createFundingGraph();
+  prepared.forEach(({ inputs }) => fundingGraph.record(inputs.chainData));
+
+  return prepared.map(({ testCase, inputs }) => ({
+    testCase,
+    inputs: { ...inputs, fundingClusters: fundingGraph.clustersOf(inputs.chainData) },
+  }));
+}
+
+// Probability that a random good case ranks above a random bad one, ties count half. 0.5 is a coin flip.
+export function auc(samples: { value: number; outcome: Outcome }[]): number | null {
+  const good = samples.filter(sample => sample.outcome === "good").map(sample => sample.value);
+  const bad = samples.filter(sample => sample.outcome === "bad").map(sample => sample.value);
+  if (good.length === 0 || bad.length === 0) return null;
+
+  const wins = good.reduce(
+    (sum, goodValue) =>
+      sum + bad.reduce((pairs, badValue) => pairs + (goodValue > badValue ? 1 : goodValue === badValue ? 0.5 : 0), 0),
+    0,
+  );
+  return wins / (good.length * bad.length);
+}
+
+// How often each risk level actually went bad, a useful risk level has fewer bad cases the higher it goes
+export function calibrationTable(scored: ScoredCase[]): CalibrationRow[] {
+  return Array.from({ length: 10 }, (_, index) => {
+    const riskLevel = index + 1;
+    const atLevel = scored.filter(scoredCase => scoredCase.riskLevel === riskLevel);
+    const bad = atLevel.filter(scoredCase => scoredCase.outcome === "bad").length;
+    return {
+      riskLevel,
+      cases: atLevel.length,
+      good: atLevel.length - bad,
+      bad,
+      badRate: atLevel.length > 0 ? bad / atLevel.length : null,
+    };
+  });
+}
+
+// Overall scores of good and bad cases in buckets of `bucketSize` points, the last bucket also holds a perfect 100
+export function scoreDistribution(scored: ScoredCase[], bucketSize = 10): DistributionBucket[] {
+  const bucketCount = Math.ceil(100 / bucketSize);
+  const buckets: DistributionBucket[] = Array.from({ length: bucketCount }, (_, index) => ({
+    from: index * bucketSize,
+    to: index === bucketCount - 1 ? 100 : (index + 1) * bucketSize - 1,
+    good: 0,
+    bad: 0,
+  }));
+
+  scored.forEach(scoredCase => {
+    const bucket = buckets[Math.min(Math.floor(scoredCase.overall / bucketSize), bucketCount - 1)];
+    bucket[scoredCase.outcome]++;
+  });
+  return buckets;
+}
+
+export function backtestModel(prepared: PreparedCase[], model: ScoringModel): BacktestReport {
+  const scored: ScoredCase[] = prepared.map(({ testCase, inputs }) => {
+    const score = scoreFromInputs(inputs, model);
+    return { id: testCase.id, outcome: testCase.outcome, overall: score.overall, riskLevel: score.riskLevel };
+  });
+
+  const bad = scored.filter(scoredCase => scoredCase.outcome === "bad").length;
+  return {
+    model: model.id,
+    modelVersion: model.version,
+    cases: scored.length,
+    good: scored.length - bad,
+    bad,
+    auc: {
+      overall: auc(scored.map(scoredCase => ({ value: scoredCase.overall, outcome: scoredCase.outcome }))),
+      riskLevel: auc(scored.map(scoredCase => ({ value: scoredCase.riskLevel, outcome: scoredCase.outcome }))),
+    },
+    calibration: calibrationTable(scored),
+    distribution: scoreDistribution(scored),
+    scored,
+  };
+}
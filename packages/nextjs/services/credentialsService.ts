@@ -0,0 +1,158 @@
+import { DEFAULT_PAGINATION, NFTItem, PaginationOptions, fetchAllPages } from "./addressService";
+import { Hex, getAddress } from "viem";
+
+// Verifiable credentials about an address: POAPs it collected and attestations trusted issuers made about it
+export type CredentialType = "poap" | "coinbaseVerifiedAccount" | "gitcoinPassport";
+
+export const CREDENTIAL_NAMES: Record<CredentialType, string> = {
+  poap: "POAPs",
+  coinbaseVerifiedAccount: "Coinbase Verified Account attestations",
+  gitcoinPassport: "Gitcoin Passport attestations",
+};
+
+export interface Credential {
+  type: CredentialType;
+  id: string; // POAP token id or attestation uid
+  name: string;
+  issuer: string;
+}
+
+export interface CredentialsData {
+  credentials: Credential[];
+  truncated: boolean; // the POAP list hit the pagination limits, the count is a lower bound
+  failedSources: string[]; // sources that could not be reached, their credentials are missing
+}
+
+export const EMPTY_CREDENTIALS: CredentialsData = { credentials: [], truncated: false, failedSources: [] };
+
+// An EAS schema whose attestations count as a credential, only when made by one of its attesters
+export interface TrustedAttestation {
+  type: CredentialType;
+  graphqlUrl: string; // EAS indexer of the chain the schema lives on
+  schemaId: Hex;
+  attesters: string[];
+}
+
+export const TRUSTED_ATTESTATIONS: TrustedAttestation[] = [
+  {
+    type: "coinbaseVerifiedAccount",
+    graphqlUrl: "https://base.easscan.org/graphql",
+    schemaId: "0xf8b05c79f090979bf4a80270aba232dff11a10d9ca55c4f88de95317970f0de9",
+    attesters: ["0x357458739F90461b99789350868CD7CF330Dd7EE"],
+  },
+  {
+    type: "gitcoinPassport",
+    graphqlUrl: "https://optimism.easscan.org/graphql",
+    schemaId: "0x6ab5d34260fca0cfcf0e76e96d439cace6aa7c3c019d7c4580ed52c6845e9c89",
+    attesters: ["0x843829986e895facd330486a61Ebee9E1f1adB1a"],
+  },
+];
+
+// POAPs are minted on Gnosis Chain by the official POAP contract, tokens from any other contract are ignored
+const POAP_API_URL = "https://gnosis.blockscout.com/api/v2";
+const POAP_CONTRACT = "0x22c1f6050e56d2876009903609a2cc3fef83b415";
+
+async function fetchPoaps(
+  address: string,
+  pagination: PaginationOptions,
+): Promise<Omit<CredentialsData, "failedSources">> {
+  const nfts = await fetchAllPages<NFTItem>(
+    `${POAP_API_URL}/addresses/${address}/nft?type=ERC-721`,
+    item => `${item.token?.address_hash ?? item.token?.address}-${item.id}`,
+    pagination,
+    Date.now() + pagination.timeBudgetMs,
+  );
+  if (!nfts.ok) {
+    throw new Error("Failed to fetch POAPs from Gnosis Blockscout API");
+  }
+
+  const credentials = nfts.items
+    .filter(item => (item.token?.address_hash ?? item.token?.address ?? "").toLowerCase() === POAP_CONTRACT)
+    .map(item => ({
+      type: "poap" as const,
+      id: item.id,
+      name: item.metadata?.name ?? `POAP #${item.id}`,
+      issuer: POAP_CONTRACT,
+    }));
+
+  return { credentials, truncated: nfts.truncated };
+}
+
+const ATTESTATIONS_QUERY = `query Attestations($where: AttestationWhereInput) {
+  attestations(where: $where, take: 100) {
+    id
+    attester
+    expirationTime
+  }
+}`;
+
+async function fetchAttestations(address: string, trusted: TrustedAttestation): Promise<Credential[]> {
+  const response = await fetch(trusted.graphqlUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", accept: "application/json" },
+    body: JSON.stringify({
+      query: ATTESTATIONS_QUERY,
+      variables: {
+        where: {
+          recipient: { equals: getAddress(address) },
+          schemaId: { equals: trusted.schemaId },
+          attester: { in: trusted.attesters.map(attester => getAddress(attester)) },
+          revoked: { equals: false },
+        },
+      },
+    }),
+    next: { revalidate: 3600 },
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch attestations from ${trusted.graphqlUrl}`);
+  }
+
+  const body = (await response.json()) as {
+    data?: { attestations: { id: string; attester: string; expirationTime: number }[] };
+  };
+  const now = Math.floor(Date.now() / 1000);
+
+  return (body.data?.attestations ?? [])
+    .filter(attestation => attestation.expirationTime === 0 || attestation.expirationTime > now)
+    .map(attestation => ({
+      type: trusted.type,
+      id: attestation.id,
+      name: CREDENTIAL_NAMES[trusted.type],
+      issuer: attestation.attester.toLowerCase(),
+    }));
+}
+
+// Collects POAPs and allowlisted attestations, a source that is down is reported rather than failing the score
+export async function fetchCredentials(
+  address: string,
+  trustedAttestations: TrustedAttestation[] = TRUSTED_ATTESTATIONS,
+  pagination: PaginationOptions = DEFAULT_PAGINATION,
+): Promise<CredentialsData> {
+  const [poaps, ...attestations] = await Promise.allSettled([
+    fetchPoaps(address, pagination),
+    ...trustedAttestations.map(trusted => fetchAttestations(address, trusted)),
+  ]);
+
+  const credentials: Credential[] = [];
+  const failedSources: string[] = [];
+  let truncated = false;
+
+  if (poaps.status === "fulfilled") {
+    credentials.push(...poaps.value.credentials);
+    truncated = poaps.value.truncated;
+  } else {
+    console.error("Error fetching POAPs:", poaps.reason);
+    failedSources.push(CREDENTIAL_NAMES.poap);
+  }
+
+  attestations.forEach((result, index) => {
+    if (result.status === "fulfilled") {
+      credentials.push(...(result.value as Credential[]));
+    } else {
+      console.error(`Error fetching ${CREDENTIAL_NAMES[trustedAttestations[index].type]}:`, result.reason);
+      failedSources.push(CREDENTIAL_NAMES[trustedAttestations[index].type]);
+    }
+  });
+
+  return { credentials, truncated, failedSources };
+}
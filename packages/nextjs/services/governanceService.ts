@@ -0,0 +1,180 @@
+import { BLOCKSCOUT_CHAINS, BlockscoutChain } from "./addressService";
+import { Hex, decodeEventLog, encodeEventTopics, pad, parseAbi } from "viem";
+
+// A vote the address cast in a DAO, on-chain through a Governor contract or off-chain on Snapshot
+export interface GovernanceVote {
+  source: string; // name of the provider that reported it
+  dao: string; // "chainId:governor" for on-chain votes, "snapshot:space" for Snapshot votes
+  proposalId: string;
+  votedAt: string; // ISO timestamp
+}
+
+export interface GovernanceActivity {
+  votes: GovernanceVote[];
+  truncated: boolean; // a provider returned as many votes as it was asked for, counts are a lower bound
+  failedSources: string[]; // providers that could not be reached, their votes are missing
+}
+
+export const EMPTY_GOVERNANCE_ACTIVITY: GovernanceActivity = { votes: [], truncated: false, failedSources: [] };
+
+// Source of votes for an address, Blockscout logs and Snapshot ship with the app
+export interface GovernanceVoteProvider {
+  name: string;
+  fetchVotes(address: string): Promise<{ votes: GovernanceVote[]; truncated: boolean }>;
+}
+
+// Most votes read from a single provider
+const MAX_VOTES = 1000;
+
+// OpenZeppelin Governor (and Compound Bravo compatible) vote event, the voter is indexed
+const GOVERNOR_ABI = parseAbi([
+  "event VoteCast(address indexed voter, uint256 proposalId, uint8 support, uint256 weight, string reason)",
+]);
+const VOTE_CAST_TOPIC = encodeEventTopics({ abi: GOVERNOR_ABI, eventName: "VoteCast" })[0];
+
+export interface TrustedGovernor {
+  name: string;
+  address: string;
+}
+
+// Governor contracts whose votes count, keyed by chain id. Any contract can emit a VoteCast event, so votes
+// reported by contracts missing here are ignored.
+export const TRUSTED_GOVERNORS: Record<number, TrustedGovernor[]> = {
+  1: [
+    { name: "Uniswap", address: "0x408ED6354d4973f66138C91495F2f2FCbd8724C3" },
+    { name: "Compound", address: "0xc0Da02939E1441F497fd74F78cE7Decb17B66529" },
+    { name: "ENS", address: "0x323A76393544d5ecca80cd6ef2A560C6a395b7E3" },
+    { name: "Gitcoin", address: "0x9D4C63565D5618310271bF3F3c01b2954C1D1639" },
+  ],
+  10: [{ name: "Optimism", address: "0xcDF27F107725988f2261Ce2256bDfCdE8B382B10" }],
+};
+
+// Reads VoteCast logs emitted for the voter on one chain through Blockscout's RPC-style logs API,
+// keeping those of the chain's trusted governors
+export function createBlockscoutVoteProvider(
+  chain: BlockscoutChain,
+  governors: TrustedGovernor[] = TRUSTED_GOVERNORS[chain.id] ?? [],
+): GovernanceVoteProvider {
+  const rpcApiUrl = chain.apiUrl.replace(/\/v2$/, "");
+  const name = `${chain.name} Governor votes`;
+  const governorAddresses = new Set(governors.map(governor => governor.address.toLowerCase()));
+
+  return {
+    name,
+    async fetchVotes(address) {
+      if (governorAddresses.size === 0) {
+        return { votes: [], truncated: false };
+      }
+
+      const voterTopic = pad(address.toLowerCase() as Hex);
+      const response = await fetch(
+        `${rpcApiUrl}?module=logs&action=getLogs&fromBlock=0&toBlock=latest` +
+          `&topic0=${VOTE_CAST_TOPIC}&topic1=${voterTopic}&topic0_1_opr=and`,
+        { headers: { accept: "application/json" }, next: { revalidate: 3600 } },
+      );
+      if (!response.ok) {
+        throw new Error(`Failed to fetch governance votes from ${chain.name} Blockscout API`);
+      }
+
+      const body = (await response.json()) as {
+        result?: { address: string; topics: (Hex | null)[]; data: Hex; timeStamp: Hex }[] | string | null;
+      };
+      const logs = Array.isArray(body.result) ? body.result : [];
+
+      const votes = logs.flatMap(log => {
+        if (!governorAddresses.has(log.address.toLowerCase())) return [];
+        try {
+          const { args } = decodeEventLog({
+            abi: GOVERNOR_ABI,
+            data: log.data,
+            // Blockscout pads the topic list with nulls up to four entries
+            topics: log.topics.filter(Boolean) as [Hex, ...Hex[]],
+          });
+          return [
+            {
+              source: name,
+              dao: `${chain.id}:${log.address.toLowerCase()}`,
+              proposalId: args.proposalId.toString(),
+              votedAt: new Date(Number(log.timeStamp) * 1000).toISOString(),
+            },
+          ];
+        } catch {
+          // Another contract's event with the same signature but a different layout
+          return [];
+        }
+      });
+
+      return { votes, truncated: logs.length >= MAX_VOTES };
+    },
+  };
+}
+
+// Reads off-chain votes from a Snapshot hub's GraphQL API
+export function createSnapshotVoteProvider(hubUrl = "https://hub.snapshot.org/graphql"): GovernanceVoteProvider {
+  const query = `query Votes($voter: String!, $first: Int!) {
+    votes(first: $first, where: { voter: $voter }, orderBy: "created", orderDirection: desc) {
+      created
+      space { id }
+      proposal { id }
+    }
+  }`;
+
+  return {
+    name: "Snapshot",
+    async fetchVotes(address) {
+      const response = await fetch(hubUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", accept: "application/json" },
+        body: JSON.stringify({ query, variables: { voter: address, first: MAX_VOTES } }),
+        next: { revalidate: 3600 },
+      });
+      if (!response.ok) {
+        throw new Error("Failed to fetch governance votes from Snapshot");
+      }
+
+      const body = (await response.json()) as {
+        data?: { votes: { created: number; space: { id: string } | null; proposal: { id: string } | null }[] };
+      };
+      const votes = (body.data?.votes ?? []).map(vote => ({
+        source: "Snapshot",
+        dao: `snapshot:${vote.space?.id ?? "unknown"}`,
+        proposalId: vote.proposal?.id ?? "",
+        votedAt: new Date(vote.created * 1000).toISOString(),
+      }));
+
+      return { votes, truncated: votes.length >= MAX_VOTES };
+    },
+  };
+}
+
+export const DEFAULT_GOVERNANCE_PROVIDERS: GovernanceVoteProvider[] = [
+  ...BLOCKSCOUT_CHAINS.filter(chain => TRUSTED_GOVERNORS[chain.id]?.length).map(chain =>
+    createBlockscoutVoteProvider(chain),
+  ),
+  createSnapshotVoteProvider(),
+];
+
+// Collects votes from every provider, a provider that is down is reported rather than failing the score
+export async function fetchGovernanceActivity(
+  address: string,
+  providers: GovernanceVoteProvider[] = DEFAULT_GOVERNANCE_PROVIDERS,
+): Promise<GovernanceActivity> {
+  const results = await Promise.allSettled(providers.map(provider => provider.fetchVotes(address)));
+
+  const votes = new Map<string, GovernanceVote>();
+  const failedSources: string[] = [];
+  let truncated = false;
+
+  results.forEach((result, index) => {
+    if (result.status === "rejected") {
+      console.error(`Error fetching ${providers[index].name}:`, result.reason);
+      failedSources.push(providers[index].name);
+      return;
+    }
+    // Snapshot lets voters change their vote, only one vote per proposal counts
+    result.value.votes.forEach(vote => votes.set(`${vote.dao}-${vote.proposalId}`, vote));
+    truncated ||= result.value.truncated;
+  });
+
+  return { votes: Array.from(votes.values()), truncated, failedSources };
+}
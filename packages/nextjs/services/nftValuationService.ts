@@ -0,0 +1,191 @@
+import type { NFTItem } from "./addressService";
+import fixtureFloorPrices from "./fixtures/nftFloorPrices.json";
+import scaffoldConfig from "~~/scaffold.config";
+import { RPC_CHAIN_NAMES } from "~~/utils/scaffold-eth";
+
+// What an address' NFTs are worth once spam is filtered out, in the chain's native coin
+export interface NftValuation {
+  value: number;
+  pricedNfts: number; // NFTs of collections with a known floor price
+  unpricedNfts: number; // NFTs that passed the filter but have no floor price, counted as worthless
+  spamNfts: number; // NFTs left out by the spam filter
+}
+
+export const EMPTY_NFT_VALUATION: NftValuation = { value: 0, pricedNfts: 0, unpricedNfts: 0, spamNfts: 0 };
+
+// Floor prices in the chain's native coin keyed by lowercase collection address, missing collections have none
+export interface FloorPriceProvider {
+  name: string;
+  getFloorPrices(chainId: number, collections: string[]): Promise<Record<string, number>>;
+}
+
+// Alchemy only reports floor prices of Ethereum mainnet collections
+const ALCHEMY_FLOOR_PRICE_CHAINS = [1];
+
+export function createAlchemyFloorPriceProvider(apiKey: string = scaffoldConfig.alchemyApiKey): FloorPriceProvider {
+  return {
+    name: "Alchemy",
+    async getFloorPrices(chainId, collections) {
+      if (!ALCHEMY_FLOOR_PRICE_CHAINS.includes(chainId)) return {};
+
+      const prices = await Promise.all(
+        collections.map(async collection => {
+          const response = await fetch(
+            `https://${RPC_CHAIN_NAMES[chainId]}.g.alchemy.com/nft/v3/${apiKey}/getFloorPrice?contractAddress=${collection}`,
+            { headers: { accept: "application/json" }, next: { revalidate: 3600 } },
+          );
+          if (!response.ok) return [collection, undefined] as const;
+
+          const body = (await response.json()) as Record<string, { floorPrice?: number; priceCurrency?: string }>;
+          const marketplace = [body.openSea, body.looksRare].find(
+            market => market?.priceCurrency === "ETH" && typeof market.floorPrice === "number",
+          );
+          return [collection, marketplace?.floorPrice] as const;
+        }),
+      );
+
+      return Object.fromEntries(prices.filter(([, price]) => price !== undefined)) as Record<string, number>;
+    },
+  };
+}
+
+// Serves floor prices from services/fixtures/nftFloorPrices.json, for tests and local development
+export function createFixtureFloorPriceProvider(
+  fixture: Record<string, Record<string, number>> = fixtureFloorPrices,
+): FloorPriceProvider {
+  return {
+    name: "Fixture",
+    async getFloorPrices(chainId, collections) {
+      const prices = fixture[chainId] ?? {};
+      return Object.fromEntries(
+        collections
+          .filter(collection => prices[collection] !== undefined)
+          .map(collection => [collection, prices[collection]]),
+      );
+    },
+  };
+}
+
+// Remembers floor prices, including collections without one, so rescoring doesn't refetch them
+export function createCachedFloorPriceProvider(
+  provider: FloorPriceProvider,
+  ttlMs = 10 * 60 * 1000,
+): FloorPriceProvider {
+  const cache = new Map<string, { price: number | undefined; fetchedAt: number }>();
+
+  return {
+    name: `Cached ${provider.name}`,
+    async getFloorPrices(chainId, collections) {
+      const key = (collection: string) => `${chainId}:${collection}`;
+      const isFresh = (collection: string) => {
+        const entry = cache.get(key(collection));
+        return !!entry && Date.now() - entry.fetchedAt < ttlMs;
+      };
+
+      const missing = collections.filter(collection => !isFresh(collection));
+      if (missing.length > 0) {
+        const fetched = await provider.getFloorPrices(chainId, missing);
+        missing.forEach(collection =>
+          cache.set(key(collection), { price: fetched[collection], fetchedAt: Date.now() }),
+        );
+      }
+
+      const prices: Record<string, number> = {};
+      collections.forEach(collection => {
+        const price = cache.get(key(collection))?.price;
+        if (price !== undefined) prices[collection] = price;
+      });
+      return prices;
+    },
+  };
+}
+
+let defaultProvider: FloorPriceProvider | null = null;
+
+// NEXT_PUBLIC_FLOOR_PRICE_PROVIDER=fixture swaps the Alchemy provider for the fixture-backed stub
+export function getFloorPriceProvider(): FloorPriceProvider {
+  if (!defaultProvider) {
+    defaultProvider = createCachedFloorPriceProvider(
+      process.env.NEXT_PUBLIC_FLOOR_PRICE_PROVIDER === "fixture"
+        ? createFixtureFloorPriceProvider()
+        : createAlchemyFloorPriceProvider(),
+    );
+  }
+  return defaultProvider;
+}
+
+// ------------------ Spam Filter ------------------
+
+export interface NftFilterOptions {
+  allowlist: string[]; // collections that always count, whatever Blockscout says about them
+  denylist: string[]; // collections that never count
+  minHolders: number; // collections held by fewer addresses have no market to speak of
+}
+
+export const DEFAULT_NFT_FILTER: NftFilterOptions = {
+  allowlist: [
+    "0xbc4ca0eda7647a8ab7c2061c2e118a18a936f13d", // Bored Ape Yacht Club
+    "0x60e4d786628fea6478f785a6d7e704777c86a7c6", // Mutant Ape Yacht Club
+    "0xbd3531da5cf5857e7cfaa92426877b022e612cf8", // Pudgy Penguins
+    "0x57f1887a8bf19b14fc0df6fd9b2acc9af147ea85", // ENS names
+  ],
+  denylist: [],
+  minHolders: 25,
+};
+
+// Most collections priced per chain, the largest ones by NFTs held go first
+const MAX_PRICED_COLLECTIONS = 25;
+
+const collectionOf = (item: NFTItem) => (item.token?.address_hash ?? item.token?.address ?? "").toLowerCase();
+
+export function isSpamCollection(token: NFTItem["token"], filter: NftFilterOptions = DEFAULT_NFT_FILTER): boolean {
+  const collection = (token?.address_hash ?? token?.address ?? "").toLowerCase();
+  if (!collection || filter.denylist.includes(collection)) return true;
+  if (filter.allowlist.includes(collection)) return false;
+  if (token.is_scam) return true;
+
+  // Without a holder count there is nothing more to judge the collection by
+  const holders = token.holders_count ?? token.holders;
+  return holders !== null && holders !== undefined && parseInt(holders, 10) < filter.minHolders;
+}
+
+export async function valueNftHoldings(
+  chainId: number,
+  nfts: NFTItem[],
+  provider: FloorPriceProvider = getFloorPriceProvider(),
+  filter: NftFilterOptions = DEFAULT_NFT_FILTER,
+): Promise<NftValuation> {
+  const counted = nfts.filter(item => !isSpamCollection(item.token, filter));
+  const spamNfts = nfts.length - counted.length;
+
+  // NFTs held per collection, ERC-1155 items count every copy
+  const holdings = new Map<string, number>();
+  counted.forEach(item => {
+    const amount = item.token_type === "ERC-1155" ? parseInt(item.value || "1", 10) : 1;
+    holdings.set(collectionOf(item), (holdings.get(collectionOf(item)) ?? 0) + amount);
+  });
+
+  const collections = Array.from(holdings.keys())
+    .sort((a, b) => (holdings.get(b) ?? 0) - (holdings.get(a) ?? 0))
+    .slice(0, MAX_PRICED_COLLECTIONS);
+
+  let floorPrices: Record<string, number> = {};
+  try {
+    floorPrices = await provider.getFloorPrices(chainId, collections);
+  } catch (error) {
+    // Without prices the NFTs are worth nothing to the score, the rest of it still counts
+    console.error(`Error fetching NFT floor prices from ${provider.name}:`, error);
+  }
+
+  let value = 0;
+  let pricedNfts = 0;
+  holdings.forEach((amount, collection) => {
+    const floorPrice = floorPrices[collection];
+    if (floorPrice === undefined) return;
+    value += floorPrice * amount;
+    pricedNfts += amount;
+  });
+
+  const heldNfts = Array.from(holdings.values()).reduce((sum, amount) => sum + amount, 0);
+  return { value, pricedNfts, unpricedNfts: heldNfts - pricedNfts, spamNfts };
+}
@@ -0,0 +1,165 @@
+import { Address, createPublicClient, fallback, http } from "viem";
+import deployedContracts from "~~/contracts/deployedContracts";
+import scaffoldConfig, { ScaffoldConfig } from "~~/scaffold.config";
+import { getAlchemyHttpUrl } from "~~/utils/scaffold-eth";
+import { Contract, GenericContractsDeclaration } from "~~/utils/scaffold-eth/contract";
+
+// How an address has used Unlloo's own LoanMaster pools, rebuilt from the contract's events
+export interface ProtocolHistory {
+  borrowCount: number;
+  repaymentCount: number;
+  onTimeRepayments: number;
+  lateRepayments: number; // repaid after the due date, including loans repaid after a default
+  defaults: number;
+  outstandingLoans: number;
+  overdueLoans: number; // outstanding loans that are past due or defaulted right now
+  lpTenureDays: number; // total time spent with a liquidity position, summed over pools
+}
+
+export const EMPTY_PROTOCOL_HISTORY: ProtocolHistory = {
+  borrowCount: 0,
+  repaymentCount: 0,
+  onTimeRepayments: 0,
+  lateRepayments: 0,
+  defaults: 0,
+  outstandingLoans: 0,
+  overdueLoans: 0,
+  lpTenureDays: 0,
+};
+
+// Indexes of the LoanMaster LoanState enum
+const LOAN_STATE = { None: 0, Active: 1, Overdue: 2, Defaulted: 3, Repaid: 4 } as const;
+
+const SECONDS_PER_DAY = 86400;
+
+const targetNetwork = scaffoldConfig.targetNetworks[0];
+const rpcOverrideUrl = (scaffoldConfig.rpcOverrides as ScaffoldConfig["rpcOverrides"])?.[targetNetwork.id];
+const alchemyHttpUrl = getAlchemyHttpUrl(targetNetwork.id);
+const rpcFallbacks = rpcOverrideUrl
+  ? [http(rpcOverrideUrl), http()]
+  : alchemyHttpUrl
+    ? [http(alchemyHttpUrl), http()]
+    : [http()];
+
+const publicClient = createPublicClient({
+  chain: targetNetwork,
+  transport: fallback(rpcFallbacks),
+});
+
+const loanMaster = (deployedContracts as GenericContractsDeclaration)[targetNetwork.id]?.LoanMaster as
+  Contract<"LoanMaster"> | undefined;
+
+export function hasProtocolHistory(history: ProtocolHistory): boolean {
+  return history.borrowCount > 0 || history.lpTenureDays > 0;
+}
+
+export async function fetchProtocolHistory(address: Address): Promise<ProtocolHistory> {
+  // Nobody can have used Unlloo on a network it isn't deployed on
+  if (!loanMaster) return EMPTY_PROTOCOL_HISTORY;
+
+  const query = {
+    address: loanMaster.address,
+    abi: loanMaster.abi,
+    args: { user: address },
+    fromBlock: BigInt(loanMaster.deployedOnBlock ?? 0),
+  } as const;
+
+  const [borrowed, repaid, stateChanges, added, removed, emergencyWithdrawn] = await Promise.all([
+    publicClient.getContractEvents({ ...query, eventName: "Borrowed" }),
+    publicClient.getContractEvents({ ...query, eventName: "BorrowRepaid" }),
+    publicClient.getContractEvents({ ...query, eventName: "LoanStateChanged" }),
+    publicClient.getContractEvents({ ...query, eventName: "LiquidityAdded" }),
+    publicClient.getContractEvents({ ...query, eventName: "LiquidityRemoved" }),
+    publicClient.getContractEvents({ ...query, eventName: "EmergencyWithdrawn" }),
+  ]);
+
+  // Repayments record the state the loan was in when it was paid back, Active means before the due date
+  const repayments = stateChanges.filter(event => event.args.to === LOAN_STATE.Repaid);
+  const onTimeRepayments = repayments.filter(event => event.args.from === LOAN_STATE.Active).length;
+  const defaults = stateChanges.filter(event => event.args.to === LOAN_STATE.Defaulted).length;
+
+  // A loan is outstanding from its Borrowed event until the next BorrowRepaid in the same pool
+  const openLoans = new Set<bigint>();
+  [...borrowed.map(event => ({ event, isBorrow: true })), ...repaid.map(event => ({ event, isBorrow: false }))]
+    .sort((a, b) => compareLogs(a.event, b.event))
+    .forEach(({ event, isBorrow }) => {
+      const poolId = event.args.poolId as bigint;
+      if (isBorrow) openLoans.add(poolId);
+      else openLoans.delete(poolId);
+    });
+
+  const outstandingStates = await Promise.all(
+    Array.from(openLoans).map(
+      poolId =>
+        publicClient.readContract({
+          address: loanMaster.address,
+          abi: loanMaster.abi,
+          functionName: "getLoanState",
+          args: [poolId, address],
+        }) as Promise<number>,
+    ),
+  );
+  const overdueLoans = outstandingStates.filter(
+    state => state === LOAN_STATE.Overdue || state === LOAN_STATE.Defaulted,
+  ).length;
+
+  return {
+    borrowCount: borrowed.length,
+    repaymentCount: repaid.length,
+    onTimeRepayments,
+    lateRepayments: repayments.length - onTimeRepayments,
+    defaults,
+    outstandingLoans: openLoans.size,
+    overdueLoans,
+    lpTenureDays: await calculateLpTenureDays([
+      ...added.map(event => ({ event, shares: event.args.shares as bigint })),
+      ...removed.map(event => ({ event, shares: -(event.args.shares as bigint) })),
+      ...emergencyWithdrawn.map(event => ({ event, shares: -(event.args.shares as bigint) })),
+    ]),
+  };
+}
+
+type LogPosition = { blockNumber: bigint; logIndex: number };
+
+function compareLogs(a: LogPosition, b: LogPosition): number {
+  if (a.blockNumber !== b.blockNumber) return a.blockNumber < b.blockNumber ? -1 : 1;
+  return a.logIndex - b.logIndex;
+}
+
+// Sums, per pool, the time between the share balance turning positive and going back to zero
+async function calculateLpTenureDays(
+  changes: { event: LogPosition & { args: { poolId?: bigint } }; shares: bigint }[],
+): Promise<number> {
+  if (changes.length === 0) return 0;
+
+  const blockNumbers = Array.from(new Set(changes.map(({ event }) => event.blockNumber)));
+  const blocks = await Promise.all(blockNumbers.map(blockNumber => publicClient.getBlock({ blockNumber })));
+  const timestamps = new Map(blocks.map(block => [block.number, Number(block.timestamp)]));
+
+  const balances = new Map<bigint, bigint>();
+  const positionOpenedAt = new Map<bigint, number>();
+  let tenureSeconds = 0;
+
+  for (const { event, shares } of changes.sort((a, b) => compareLogs(a.event, b.event))) {
+    const poolId = event.args.poolId as bigint;
+    const timestamp = timestamps.get(event.blockNumber) ?? 0;
+    const previousBalance = balances.get(poolId) ?? 0n;
+    const balance = previousBalance + shares;
+    balances.set(poolId, balance);
+
+    if (previousBalance <= 0n && balance > 0n) {
+      positionOpenedAt.set(poolId, timestamp);
+    } else if (previousBalance > 0n && balance <= 0n) {
+      tenureSeconds += timestamp - (positionOpenedAt.get(poolId) ?? timestamp);
+      positionOpenedAt.delete(poolId);
+    }
+  }
+
+  // Positions that are still open count up to now
+  const now = Math.floor(Date.now() / 1000);
+  positionOpenedAt.forEach(openedAt => {
+    tenureSeconds += now - openedAt;
+  });
+
+  return tenureSeconds / SECONDS_PER_DAY;
+}
@@ -1,4 +1,11 @@
-import { CombinedData } from "./addressService";
+import { ChainAddressData, CombinedData, TokenItem, hasChainActivity } from "./addressService";
+import { CREDENTIAL_NAMES, CredentialType, CredentialsData, EMPTY_CREDENTIALS } from "./credentialsService";
+import { EMPTY_GOVERNANCE_ACTIVITY, GovernanceActivity } from "./governanceService";
+import { EMPTY_NFT_VALUATION, NftValuation } from "./nftValuationService";
+import { EMPTY_PROTOCOL_HISTORY, ProtocolHistory, hasProtocolHistory } from "./protocolHistoryService";
+import { ScoringModel, getScoringModel } from "./scoringModels";
+import { FundingClusters, NO_SYBIL_RISK, SybilRisk, assessSybilRisk } from "./sybilService";
+import { EMPTY_TOKEN_CLASSIFICATION, TokenClassification, tokensInCategory } from "./tokenClassificationService";
 
 export interface ReputationScore {
   overall: number; // 0-100
@@ -8,46 +15,171 @@ export interface ReputationScore {
     defiReputation: number;
     daoActivity: number;
     financialCapacity: number; // bags
+    protocolHistory: number; // borrowing and lending on Unlloo itself
+    longevity: number; // account age and how steadily it has been used
+    credentials: number; // POAPs and attestations from trusted issuers
   };
+  breakdown: Record<ScoreComponent, ComponentBreakdown>; // why each component scored what it did
+  chains: ChainScore[]; // sub-scores of every chain the aggregate was built from
+  sybilRisk: SybilRisk; // the most suspicious chain's wallet-cluster assessment
   ens: boolean;
   wordId: boolean;
   riskLevel: number; // number 1-10 (10 is best)
+  model: string; // id of the scoring model that produced the score
   recommendations?: string[];
 }
 
-export function calculateReputationScore(addressData: CombinedData): ReputationScore {
+export type ScoreComponent = keyof ReputationScore["components"];
+
+// Components the model weights into the on-chain score, Unlloo's own history is blended in separately
+type WeightedComponent = Exclude<ScoreComponent, "protocolHistory">;
+
+// Components scored from a chain's Blockscout data, credentials are collected for the address as a whole
+type ChainComponent = Exclude<WeightedComponent, "credentials">;
+
+const CHAIN_COMPONENTS: ChainComponent[] = [
+  "networkTrust",
+  "transactionBehavior",
+  "defiReputation",
+  "daoActivity",
+  "financialCapacity",
+  "longevity",
+];
+
+const WEIGHTED_COMPONENTS: WeightedComponent[] = [...CHAIN_COMPONENTS, "credentials"];
+
+// One input that moved a component score, e.g. { label: "ENS", points: 15 }
+export interface ScoreSignal {
+  label: string;
+  points: number;
+}
+
+export interface ComponentBreakdown {
+  score: number;
+  signals: ScoreSignal[];
+  capsHit: string[]; // limits that cut points off, e.g. "DeFi tokens capped at +60"
+}
+
+export interface ChainScore {
+  chainId: number;
+  name: string;
+  active: boolean; // whether the address has any activity on the chain
+  truncated: boolean; // token or NFT lists hit the pagination limits, the sub-score is a lower bound
+  weight: number; // share of the aggregate, 0 for chains left out of it
+  overall: number; // score of this chain alone, without Unlloo history
+  components: Record<ChainComponent, number>;
+}
+
+export function calculateReputationScore(
+  chainData: ChainAddressData[],
+  protocolHistory: ProtocolHistory = EMPTY_PROTOCOL_HISTORY,
+  governance: GovernanceActivity = EMPTY_GOVERNANCE_ACTIVITY,
+  credentials: CredentialsData = EMPTY_CREDENTIALS,
+  worldIdVerified = false, // only from a proof checked by the World ID route
+  fundingClusters: FundingClusters = {}, // wallets sharing the address' first funder, from the funding graph
+  model: ScoringModel = getScoringModel(),
+): ReputationScore {
   try {
-    // Calculate individual component scores
-    const financialScore = calculateFinancialScore(addressData);
-    const transactionScore = calculateTransactionBehaviorScore(addressData);
-    const defiScore = calculateDeFiReputationScore(addressData);
-    const daoScore = calculateDAOActivityScore(addressData);
-    const trustScore = calculateNetworkTrustScore(addressData);
+    // Votes are collected for the address as a whole, models without governance scoring look at tokens per chain
+    const governanceBreakdown = model.governance ? calculateGovernanceScore(governance, model.governance) : null;
+
+    // Models from before multi-chain scoring only read the first chain, models from before pagination only the
+    // first page of its tokens and NFTs
+    const modelChainData = (model.multiChain ? chainData : chainData.slice(0, 1)).map(({ chain, data }) => ({
+      chain,
+      data: model.allPages ? data : firstPageOnly(data),
+    }));
+
+    // Calculate individual component scores on every chain
+    const chainBreakdowns = modelChainData.map(({ chain, data }) => {
+      const sybilRisk = assessSybilRisk(data, fundingClusters[chain.id]);
+      const breakdown = calculateChainBreakdown(data, model.sybilPenalty ? sybilRisk : NO_SYBIL_RISK, model);
+      return {
+        chain,
+        data,
+        sybilRisk,
+        active: hasChainActivity(data),
+        breakdown: governanceBreakdown ? { ...breakdown, daoActivity: governanceBreakdown } : breakdown,
+      };
+    });
+
+    // Chains where the address never did anything would only drag the average down
+    const activeChains = chainBreakdowns.filter(({ active }) => active);
+    const scoredChains = activeChains.length > 0 ? activeChains : chainBreakdowns.slice(0, 1);
+    const totalWeight = scoredChains.reduce((sum, { chain }) => sum + chain.weight, 0);
+    const shareOf = (chainBreakdown: (typeof chainBreakdowns)[number]) =>
+      scoredChains.includes(chainBreakdown) ? chainBreakdown.chain.weight / totalWeight : 0;
+
+    const breakdown: Record<ScoreComponent, ComponentBreakdown> = {
+      ...mergeChainBreakdowns(
+        scoredChains.map(chainBreakdown => ({
+          name: chainBreakdown.chain.name,
+          share: shareOf(chainBreakdown),
+          breakdown: chainBreakdown.breakdown,
+        })),
+      ),
+      protocolHistory: calculateProtocolHistoryScore(protocolHistory, model),
+      credentials: model.credentials ? calculateCredentialsScore(credentials, model.credentials) : emptyBreakdown(),
+    };
+    if (governanceBreakdown) breakdown.daoActivity = governanceBreakdown;
+
+    // Check for identity verification, ENS on any chain and a verified World ID proof
+    const hasENS = modelChainData.some(({ data }) => !!data.ens_domain_name);
+    const hasWorldID = worldIdVerified;
 
-    // Check for identity verification
-    const hasENS = !!addressData.ens_domain_name;
-    const hasWorldID = checkWorldIDVerification(addressData);
+    // Apply the model's weighting to calculate overall score
+    const onchainScore = weightComponents(breakdown, model);
 
-    // Apply weighting to calculate overall score
-    const overallScore =
-      financialScore * 0.25 + transactionScore * 0.25 + defiScore * 0.2 + daoScore * 0.15 + trustScore * 0.15;
+    // How the address actually repaid on Unlloo outweighs any single mainnet signal
+    const overallScore = hasProtocolHistory(protocolHistory)
+      ? onchainScore * (1 - model.protocolHistoryWeight) + breakdown.protocolHistory.score * model.protocolHistoryWeight
+      : onchainScore;
 
     // Calculate risk level on a scale of 1-10 (10 being best/lowest risk)
-    const riskLevel = calculateRiskLevel(overallScore, hasENS, hasWorldID);
+    const riskLevel = calculateRiskLevel(overallScore, hasENS, hasWorldID, protocolHistory, model);
 
     return {
       overall: Math.round(overallScore),
       components: {
-        networkTrust: Math.round(trustScore),
-        transactionBehavior: Math.round(transactionScore),
-        defiReputation: Math.round(defiScore),
-        daoActivity: Math.round(daoScore),
-        financialCapacity: Math.round(financialScore),
+        networkTrust: Math.round(breakdown.networkTrust.score),
+        transactionBehavior: Math.round(breakdown.transactionBehavior.score),
+        defiReputation: Math.round(breakdown.defiReputation.score),
+        daoActivity: Math.round(breakdown.daoActivity.score),
+        financialCapacity: Math.round(breakdown.financialCapacity.score),
+        protocolHistory: Math.round(breakdown.protocolHistory.score),
+        longevity: Math.round(breakdown.longevity.score),
+        credentials: Math.round(breakdown.credentials.score),
       },
+      breakdown,
+      chains: chainBreakdowns.map(chainBreakdown => ({
+        chainId: chainBreakdown.chain.id,
+        name: chainBreakdown.chain.name,
+        active: chainBreakdown.active,
+        truncated: !!(chainBreakdown.data.tokens?.truncated || chainBreakdown.data.nfts?.truncated),
+        weight: shareOf(chainBreakdown),
+        overall: Math.round(
+          weightComponents({ ...chainBreakdown.breakdown, credentials: breakdown.credentials }, model),
+        ),
+        components: Object.fromEntries(
+          CHAIN_COMPONENTS.map(component => [component, Math.round(chainBreakdown.breakdown[component].score)]),
+        ) as Record<ChainComponent, number>,
+      })),
+      sybilRisk: mostSuspiciousChain(chainBreakdowns),
       ens: hasENS,
       wordId: hasWorldID,
       riskLevel,
-      recommendations: generateRecommendations(addressData, overallScore, hasENS, hasWorldID),
+      model: model.id,
+      // Recommendations look at the most heavily weighted chain the address uses
+      recommendations: generateRecommendations(
+        scoredChains[0].data,
+        overallScore,
+        hasENS,
+        hasWorldID,
+        protocolHistory,
+        governance,
+        credentials,
+        model,
+      ),
     };
   } catch (error) {
     console.error("Error calculating reputation score:", error);
@@ -60,32 +192,237 @@ export function calculateReputationScore(addressData: CombinedData): ReputationS
         defiReputation: 0,
         daoActivity: 0,
         financialCapacity: 0,
+        protocolHistory: 0,
+        longevity: 0,
+        credentials: 0,
       },
+      breakdown: {
+        networkTrust: emptyBreakdown(),
+        transactionBehavior: emptyBreakdown(),
+        defiReputation: emptyBreakdown(),
+        daoActivity: emptyBreakdown(),
+        financialCapacity: emptyBreakdown(),
+        protocolHistory: emptyBreakdown(),
+        longevity: emptyBreakdown(),
+        credentials: emptyBreakdown(),
+      },
+      chains: [],
+      sybilRisk: NO_SYBIL_RISK,
       ens: false,
       wordId: false,
       riskLevel: 1,
+      model: model.id,
       recommendations: ["Unable to calculate reputation score. Please try again."],
     };
   }
 }
 
+// ------------------ Chain Aggregation ------------------
+
+function calculateChainBreakdown(
+  data: CombinedData,
+  sybilRisk: SybilRisk,
+  model: ScoringModel,
+): Record<ChainComponent, ComponentBreakdown> {
+  return {
+    financialCapacity: calculateFinancialScore(data, model),
+    transactionBehavior: calculateTransactionBehaviorScore(data),
+    defiReputation: calculateDeFiReputationScore(data, model),
+    daoActivity: calculateDAOActivityScore(data, model),
+    networkTrust: calculateNetworkTrustScore(data, model, sybilRisk),
+    longevity: calculateLongevityScore(data),
+  };
+}
+
+// Reports the highest sybil risk over all chains, reasons name the chain once there are several
+function mostSuspiciousChain(chains: { chain: { name: string }; sybilRisk: SybilRisk }[]): SybilRisk {
+  const riskiest = chains.reduce<(typeof chains)[number] | null>(
+    (highest, current) => (!highest || current.sybilRisk.score > highest.sybilRisk.score ? current : highest),
+    null,
+  );
+  if (!riskiest) return NO_SYBIL_RISK;
+
+  return {
+    ...riskiest.sybilRisk,
+    reasons: riskiest.sybilRisk.reasons.map(reason =>
+      chains.length > 1 ? `${riskiest.chain.name}: ${reason}` : reason,
+    ),
+  };
+}
+
+function weightComponents(breakdown: Record<WeightedComponent, ComponentBreakdown>, model: ScoringModel): number {
+  return WEIGHTED_COMPONENTS.reduce((sum, component) => sum + breakdown[component].score * model.weights[component], 0);
+}
+
+// Weighted average of each component over the chains, signals are scaled by the chain's share and
+// prefixed with its name once more than one chain contributes
+function mergeChainBreakdowns(
+  chains: { name: string; share: number; breakdown: Record<ChainComponent, ComponentBreakdown> }[],
+): Record<ChainComponent, ComponentBreakdown> {
+  const label = (chainName: string, text: string) => (chains.length > 1 ? `${chainName}: ${text}` : text);
+
+  return Object.fromEntries(
+    CHAIN_COMPONENTS.map(component => [
+      component,
+      {
+        score: chains.reduce((sum, { share, breakdown }) => sum + breakdown[component].score * share, 0),
+        signals: chains.flatMap(({ name, share, breakdown }) =>
+          breakdown[component].signals.map(signal => ({
+            label: label(name, signal.label),
+            points: Math.round(signal.points * share * 10) / 10,
+          })),
+        ),
+        capsHit: chains.flatMap(({ name, breakdown }) => breakdown[component].capsHit.map(cap => label(name, cap))),
+      },
+    ]),
+  ) as Record<ChainComponent, ComponentBreakdown>;
+}
+
+// Blockscout lists 50 tokens or NFTs per page
+const BLOCKSCOUT_PAGE_SIZE = 50;
+
+// The token and NFT lists cut to the first page, flagged as truncated when more was fetched
+function firstPageOnly(data: CombinedData): CombinedData {
+  const tokens = data.tokens?.items || [];
+  const nfts = data.nfts?.items || [];
+  return {
+    ...data,
+    tokens: {
+      items: tokens.slice(0, BLOCKSCOUT_PAGE_SIZE),
+      truncated: !!data.tokens?.truncated || tokens.length > BLOCKSCOUT_PAGE_SIZE,
+    },
+    nfts: {
+      items: nfts.slice(0, BLOCKSCOUT_PAGE_SIZE),
+      truncated: !!data.nfts?.truncated || nfts.length > BLOCKSCOUT_PAGE_SIZE,
+    },
+  };
+}
+
 // ------------------ Risk Level Calculation ------------------
 
-function calculateRiskLevel(score: number, hasENS: boolean, hasWorldID: boolean): number {
-  // Base risk level from score (1-8 scale)
-  let riskLevel = Math.round((score / 100) * 8);
+function calculateRiskLevel(
+  score: number,
+  hasENS: boolean,
+  hasWorldID: boolean,
+  protocolHistory: ProtocolHistory,
+  model: ScoringModel,
+): number {
+  const { scoreSteps, ensBonus, worldIdBonus, defaultPenalty, overduePenalty } = model.riskLevel;
+
+  // Base risk level from score (1-8 scale in the current models)
+  let riskLevel = Math.round((score / 100) * scoreSteps);
 
   // Bonus points for identity verification
-  if (hasENS) riskLevel += 1;
-  if (hasWorldID) riskLevel += 1;
+  if (hasENS) riskLevel += ensBonus;
+  if (hasWorldID) riskLevel += worldIdBonus;
+
+  // Defaults and loans that are late right now cost tiers directly, a good wallet can't outweigh them
+  riskLevel -= protocolHistory.defaults * defaultPenalty;
+  riskLevel -= protocolHistory.overdueLoans * overduePenalty;
 
   // Ensure we stay within 1-10 range
   return Math.max(1, Math.min(10, riskLevel));
 }
 
+// ------------------ Score Breakdown Helpers ------------------
+
+function emptyBreakdown(): ComponentBreakdown {
+  return { score: 0, signals: [], capsHit: [] };
+}
+
+// Records a signal's points, at most `cap` of them, and notes the cap when it cut points off
+function addSignal(breakdown: ComponentBreakdown, label: string, points: number, cap?: number): void {
+  let counted = points;
+  if (cap !== undefined && points > cap) {
+    counted = cap;
+    breakdown.capsHit.push(`${label} capped at +${cap}`);
+  }
+  if (counted !== 0) {
+    breakdown.signals.push({ label, points: Math.round(counted * 10) / 10 });
+  }
+}
+
+// Sums the signals into the component score, kept within 0-100
+function finishBreakdown(breakdown: ComponentBreakdown): ComponentBreakdown {
+  const total = breakdown.signals.reduce((sum, signal) => sum + signal.points, 0);
+  if (total > 100) breakdown.capsHit.push("Score capped at 100");
+  if (total < 0) breakdown.capsHit.push("Score floored at 0");
+  breakdown.score = Math.max(0, Math.min(total, 100));
+  return breakdown;
+}
+
+const formatUsd = (value: number) => `$${Math.round(value).toLocaleString("en-US")}`;
+
+// Counts taken from a list Blockscout had more pages of are lower bounds, shown as "500+"
+const formatCount = (count: number, truncated?: boolean) => `${count}${truncated ? "+" : ""}`;
+
+// Large wallets hit the pagination limits, their scores are a floor rather than a small portfolio
+function noteTruncation(breakdown: ComponentBreakdown, data: CombinedData, lists: ("tokens" | "nfts")[]): void {
+  if (lists.includes("tokens") && data.tokens?.truncated) {
+    breakdown.capsHit.push("Token list truncated, counts are a lower bound");
+  }
+  if (lists.includes("nfts") && data.nfts?.truncated) {
+    breakdown.capsHit.push("NFT list truncated, counts are a lower bound");
+  }
+}
+
+// Tokens resolved against the registry, scam and impersonating tokens never reach a scoring function
+const classificationOf = (data: CombinedData): TokenClassification =>
+  data.tokenClassification ?? EMPTY_TOKEN_CLASSIFICATION;
+
+function noteSpamTokens(breakdown: ComponentBreakdown, data: CombinedData, model: ScoringModel): void {
+  const { spamTokens } = classificationOf(data);
+  if (model.tokenRegistry && spamTokens > 0) breakdown.capsHit.push(`${spamTokens} spam tokens ignored`);
+}
+
+// Token items a model scores, models from before the registry count spam too
+const scoredTokenItems = (data: CombinedData, model: ScoringModel): TokenItem[] =>
+  model.tokenRegistry ? classificationOf(data).tokens.map(token => token.item) : data.tokens?.items || [];
+
+// Models from before the registry recognize tokens by their name or symbol
+const LEGACY_DEFI_NAMES = [
+  "Aave",
+  "Compound",
+  "Uniswap",
+  "SushiSwap",
+  "Curve",
+  "Yearn",
+  "Maker",
+  "Balancer",
+  "Synthetix",
+  "Bancor",
+  "1inch",
+  "WETH",
+  "DAI",
+  "USDC",
+  "USDT",
+];
+const LEGACY_STABLECOIN_SYMBOLS = ["DAI", "USDC", "USDT", "BUSD", "FRAX", "LUSD"];
+const LEGACY_GOVERNANCE_NAMES = ["DAO", "Governance", "Vote", "ENS", "Gitcoin", "GTC", "UNI", "COMP", "AAVE", "MKR"];
+const LEGACY_RECOMMENDED_DEFI_NAMES = ["Aave", "Compound", "Uniswap", "WETH", "DAI"];
+
+const nameMatches = (tokenItem: TokenItem, names: string[]) =>
+  names.some(name => tokenItem?.token?.name?.includes(name) || tokenItem?.token?.symbol?.includes(name));
+
+const isLegacyLpToken = (tokenItem: TokenItem) =>
+  !!(
+    tokenItem?.token?.name?.includes("LP") ||
+    tokenItem?.token?.symbol?.includes("LP") ||
+    tokenItem?.token?.name?.includes("Pool")
+  );
+
 // ------------------ Component Scoring Functions ------------------
 
-function calculateFinancialScore(data: CombinedData): number {
+// Models from before floor prices assume every NFT is worth 0.1 ETH
+const FLAT_NFT_VALUE = 0.1;
+
+function flatNftValuation(data: CombinedData): NftValuation {
+  const nftCount = (data.nfts?.items || []).length;
+  return { value: nftCount * FLAT_NFT_VALUE, pricedNfts: nftCount, unpricedNfts: 0, spamNfts: 0 };
+}
+
+function calculateFinancialScore(data: CombinedData, model: ScoringModel): ComponentBreakdown {
+  const breakdown = emptyBreakdown();
   try {
     // Calculate ETH value in USD
     const ethBalance = parseFloat(data.coin_balance || "0");
@@ -93,8 +430,8 @@ function calculateFinancialScore(data: CombinedData): number {
     const ethPrice = parseFloat(data.exchange_rate || "0");
     const ethValue = ethInWei * ethPrice;
 
-    // Calculate token values using the new structure
-    const tokenValues = (data.tokens?.items || []).reduce((sum, tokenItem) => {
+    // Calculate token values, spam tokens often report made-up exchange rates
+    const tokenValues = scoredTokenItems(data, model).reduce((sum, tokenItem) => {
       if (tokenItem?.token?.type === "ERC-20" && tokenItem?.token?.exchange_rate) {
         const tokenDecimals = parseInt(tokenItem.token.decimals || "18", 10);
         const tokenAmount = parseFloat(tokenItem.value || "0") / 10 ** tokenDecimals;
@@ -104,118 +441,103 @@ function calculateFinancialScore(data: CombinedData): number {
       return sum;
     }, 0);
 
-    // Calculate NFT floor value (estimated) using the new structure
-    const nftCount = (data.nfts?.items || []).length;
-    const estimatedNftValue = nftCount * 0.1 * ethPrice; // Assume average 0.1 ETH floor
+    // NFTs at their collection's floor price, spam and collections without a market count for nothing
+    const nftValuation = model.nftFloorPrices ? (data.nftValuation ?? EMPTY_NFT_VALUATION) : flatNftValuation(data);
+    const nftValue = nftValuation.value * ethPrice;
 
     // Total portfolio value
-    const totalValue = ethValue + tokenValues + estimatedNftValue;
+    const totalValue = ethValue + tokenValues + nftValue;
 
     // Logarithmic scale for score (capped at 100)
     // $100 = ~30 points, $1,000 = ~50 points, $10,000 = ~70 points, $100,000+ = ~90+ points
-    return Math.min(Math.max(Math.log10(totalValue + 1) * 23, 0), 100);
+    const isTruncated = data.tokens?.truncated || data.nfts?.truncated;
+    addSignal(
+      breakdown,
+      `${isTruncated ? "At least " : ""}${formatUsd(totalValue)} portfolio (ETH ${formatUsd(ethValue)}, tokens ${formatUsd(tokenValues)}, ${formatCount(nftValuation.pricedNfts, data.nfts?.truncated)} NFTs ${formatUsd(nftValue)})`,
+      Math.max(Math.log10(totalValue + 1) * 23, 0),
+      100,
+    );
+    if (nftValuation.spamNfts > 0) {
+      breakdown.capsHit.push(`${nftValuation.spamNfts} NFTs filtered as spam`);
+    }
+    if (nftValuation.unpricedNfts > 0) {
+      breakdown.capsHit.push(`${nftValuation.unpricedNfts} NFTs without a floor price`);
+    }
+    noteSpamTokens(breakdown, data, model);
+    noteTruncation(breakdown, data, ["tokens", "nfts"]);
+
+    return finishBreakdown(breakdown);
   } catch (error) {
     console.error("Error calculating financial score:", error);
-    return 0;
+    return emptyBreakdown();
   }
 }
 
-function calculateTransactionBehaviorScore(data: CombinedData): number {
+function calculateTransactionBehaviorScore(data: CombinedData): ComponentBreakdown {
+  const breakdown = emptyBreakdown();
   try {
     const txCount = parseInt(data.transactions_count || "0", 10);
     const transferCount = parseInt(data.token_transfers_count || "0", 10);
 
     // Score based on transaction history
     // 10 tx = ~25 points, 100 tx = ~50 points, 1000+ tx = ~90+ points
-    const txHistoryScore = Math.min(Math.log10(txCount + 1) * 30, 70);
+    addSignal(breakdown, `${txCount} transactions`, Math.log10(txCount + 1) * 30, 70);
 
     // Score based on token transfers (shows engagement with ecosystem)
-    const transferScore = Math.min(Math.log10(transferCount + 1) * 15, 30);
+    addSignal(breakdown, `${transferCount} token transfers`, Math.log10(transferCount + 1) * 15, 30);
 
-    return Math.min(txHistoryScore + transferScore, 100);
+    return finishBreakdown(breakdown);
   } catch (error) {
     console.error("Error calculating transaction behavior score:", error);
-    return 0;
+    return emptyBreakdown();
   }
 }
 
-function calculateDeFiReputationScore(data: CombinedData): number {
+function calculateDeFiReputationScore(data: CombinedData, model: ScoringModel): ComponentBreakdown {
+  const breakdown = emptyBreakdown();
   try {
-    // Check for key DeFi protocol tokens
-    const defiProtocols: string[] = [
-      "Aave",
-      "Compound",
-      "Uniswap",
-      "SushiSwap",
-      "Curve",
-      "Yearn",
-      "Maker",
-      "Balancer",
-      "Synthetix",
-      "Bancor",
-      "1inch",
-      "WETH",
-      "DAI",
-      "USDC",
-      "USDT",
-    ];
-
-    // Identify DeFi tokens using the new structure
-    const defiTokens = (data.tokens?.items || []).filter(tokenItem =>
-      defiProtocols.some(
-        protocol => tokenItem?.token?.name?.includes(protocol) || tokenItem?.token?.symbol?.includes(protocol),
-      ),
-    );
-
-    // Calculate base score from number of DeFi tokens
-    let baseScore = Math.min(defiTokens.length * 15, 60);
+    // DeFi protocol tokens and stablecoins from the registry, matched by contract address rather than name
+    const classification = classificationOf(data);
+    const tokenItems = data.tokens?.items || [];
+    const defiTokenCount = model.tokenRegistry
+      ? classification.tokens.filter(
+          token => token.categories.includes("defi") || token.categories.includes("stablecoin"),
+        ).length
+      : tokenItems.filter(tokenItem => nameMatches(tokenItem, LEGACY_DEFI_NAMES)).length;
+
+    // Base score from number of DeFi tokens
+    addSignal(breakdown, `${formatCount(defiTokenCount, data.tokens?.truncated)} DeFi tokens`, defiTokenCount * 15, 60);
 
     // Bonus for holding LP tokens (liquidity provider)
-    const hasLPTokens = (data.tokens?.items || []).some(
-      tokenItem =>
-        tokenItem?.token?.name?.includes("LP") ||
-        tokenItem?.token?.symbol?.includes("LP") ||
-        tokenItem?.token?.name?.includes("Pool"),
-    );
+    const hasLPTokens = model.tokenRegistry
+      ? tokensInCategory(classification, "lp").length > 0
+      : tokenItems.some(isLegacyLpToken);
 
     // Bonus for holding stablecoin positions
-    const hasStables = (data.tokens?.items || []).some(tokenItem =>
-      ["DAI", "USDC", "USDT", "BUSD", "FRAX", "LUSD"].includes(tokenItem?.token?.symbol || ""),
-    );
+    const hasStables = model.tokenRegistry
+      ? tokensInCategory(classification, "stablecoin").length > 0
+      : tokenItems.some(tokenItem => LEGACY_STABLECOIN_SYMBOLS.includes(tokenItem?.token?.symbol || ""));
 
     // Add bonuses
-    if (hasLPTokens) baseScore += 20;
-    if (hasStables) baseScore += 20;
+    if (hasLPTokens) addSignal(breakdown, "LP tokens", 20);
+    if (hasStables) addSignal(breakdown, "Stablecoins", 20);
+    noteSpamTokens(breakdown, data, model);
+    noteTruncation(breakdown, data, ["tokens"]);
 
-    return Math.min(baseScore, 100);
+    return finishBreakdown(breakdown);
   } catch (error) {
     console.error("Error calculating DeFi reputation score:", error);
-    return 0;
+    return emptyBreakdown();
   }
 }
 
-function calculateDAOActivityScore(data: CombinedData): number {
+function calculateDAOActivityScore(data: CombinedData, model: ScoringModel): ComponentBreakdown {
+  const breakdown = emptyBreakdown();
   try {
-    // Check for governance tokens
-    const governanceProtocols: string[] = [
-      "DAO",
-      "Governance",
-      "Vote",
-      "ENS",
-      "Gitcoin",
-      "GTC",
-      "UNI",
-      "COMP",
-      "AAVE",
-      "MKR",
-    ];
-
-    // Identify governance tokens using the new structure
-    const govTokens = (data.tokens?.items || []).filter(tokenItem =>
-      governanceProtocols.some(
-        protocol => tokenItem?.token?.name?.includes(protocol) || tokenItem?.token?.symbol?.includes(protocol),
-      ),
-    );
+    // Governance tokens from the registry
+    const govTokenCount = model.tokenRegistry
+      ? tokensInCategory(classificationOf(data), "governance").length
+      : (data.tokens?.items || []).filter(tokenItem => nameMatches(tokenItem, LEGACY_GOVERNANCE_NAMES)).length;
 
     // Check for NFTs that might be related to DAOs using the new structure
     const daoNfts = (data.nfts?.items || []).filter(
@@ -225,77 +547,276 @@ function calculateDAOActivityScore(data: CombinedData): number {
         nftItem?.token?.name?.includes("Governance"),
     );
 
-    // Base score from identified tokens and NFTs
-    const baseScore = Math.min(govTokens.length * 15 + daoNfts.length * 10, 70);
+    // Base score from identified tokens and NFTs, 70 points between them
+    const govTokenPoints = Math.min(govTokenCount * 15, 70);
+    addSignal(
+      breakdown,
+      `${formatCount(govTokenCount, data.tokens?.truncated)} governance tokens`,
+      govTokenCount * 15,
+      70,
+    );
+    addSignal(
+      breakdown,
+      `${formatCount(daoNfts.length, data.nfts?.truncated)} DAO NFTs`,
+      daoNfts.length * 10,
+      70 - govTokenPoints,
+    );
 
     // Bonus for ENS ownership (often used for DAO voting)
-    const ensBonus = data.ens_domain_name ? 30 : 0;
+    if (data.ens_domain_name) addSignal(breakdown, "ENS", 30);
+    noteTruncation(breakdown, data, ["tokens", "nfts"]);
 
-    return Math.min(baseScore + ensBonus, 100);
+    return finishBreakdown(breakdown);
   } catch (error) {
     console.error("Error calculating DAO activity score:", error);
-    return 0;
+    return emptyBreakdown();
+  }
+}
+
+function calculateGovernanceScore(
+  governance: GovernanceActivity,
+  config: NonNullable<ScoringModel["governance"]>,
+): ComponentBreakdown {
+  const breakdown = emptyBreakdown();
+  try {
+    const { votes, truncated } = governance;
+
+    // How often the address votes and in how many different DAOs
+    addSignal(
+      breakdown,
+      `${formatCount(votes.length, truncated)} governance votes`,
+      votes.length * config.pointsPerVote,
+      config.maxVotePoints,
+    );
+    const daoCount = new Set(votes.map(vote => vote.dao)).size;
+    addSignal(
+      breakdown,
+      `Voted in ${formatCount(daoCount, truncated)} DAOs`,
+      daoCount * config.pointsPerDao,
+      config.maxDaoPoints,
+    );
+
+    // Recent votes show the address still takes part
+    const lastVoteAt = Math.max(0, ...votes.map(vote => new Date(vote.votedAt).getTime()));
+    const daysSinceLastVote = (Date.now() - lastVoteAt) / MS_PER_DAY;
+    if (daysSinceLastVote <= config.recentVoteDays) {
+      addSignal(breakdown, `Voted in the last ${config.recentVoteDays} days`, config.recentVotePoints);
+    } else if (daysSinceLastVote <= 365) {
+      addSignal(breakdown, "Voted in the last year", config.pastYearVotePoints);
+    }
+
+    if (truncated) breakdown.capsHit.push("Vote history truncated, counts are a lower bound");
+    if (governance.failedSources.length > 0) {
+      breakdown.capsHit.push(`Votes missing from ${governance.failedSources.join(", ")}`);
+    }
+
+    return finishBreakdown(breakdown);
+  } catch (error) {
+    console.error("Error calculating governance score:", error);
+    return emptyBreakdown();
   }
 }
 
-function calculateNetworkTrustScore(data: CombinedData): number {
+function calculateNetworkTrustScore(
+  data: CombinedData,
+  model: ScoringModel,
+  sybilRisk: SybilRisk = NO_SYBIL_RISK,
+): ComponentBreakdown {
+  const breakdown = emptyBreakdown();
   try {
-    let score = 50; // Start at neutral
+    addSignal(breakdown, "Neutral start", 50);
 
     // Major penalties
-    if (data.is_scam) score -= 40;
+    if (data.is_scam) addSignal(breakdown, "is_scam", -40);
+    if (sybilRisk.level === "high") addSignal(breakdown, "Suspected wallet cluster", -40);
+    else if (sybilRisk.level === "medium") addSignal(breakdown, "Possible wallet cluster", -20);
 
     // Bonuses
-    if (data.is_verified) score += 20;
-    if (data.ens_domain_name) score += 15;
-    if (data.has_validated_blocks) score += 25;
+    if (data.is_verified) addSignal(breakdown, "is_verified", 20);
+    if (data.ens_domain_name) addSignal(breakdown, "ENS", 15);
+    if (data.has_validated_blocks) addSignal(breakdown, "has_validated_blocks", 25);
 
     // Bonus for account activity
     const txCount = parseInt(data.transactions_count || "0", 10);
-    if (txCount > 500) score += 15;
-    else if (txCount > 50) score += 10;
+    if (txCount > 500) addSignal(breakdown, "500+ transactions", 15);
+    else if (txCount > 50) addSignal(breakdown, "50+ transactions", 10);
 
-    // Reputation from token diversity using the new structure
-    const uniqueTokens = new Set((data.tokens?.items || []).map(tokenItem => tokenItem?.token?.address)).size;
-    score += Math.min(uniqueTokens * 2, 15);
+    // Reputation from token diversity, airdropped spam adds nothing
+    const uniqueTokens = model.tokenRegistry
+      ? new Set(classificationOf(data).tokens.map(token => token.address)).size
+      : new Set((data.tokens?.items || []).map(tokenItem => tokenItem?.token?.address)).size;
+    addSignal(breakdown, `${formatCount(uniqueTokens, data.tokens?.truncated)} unique tokens`, uniqueTokens * 2, 15);
+    noteSpamTokens(breakdown, data, model);
+    noteTruncation(breakdown, data, ["tokens"]);
 
     // Bonus for contract interaction (if it's a contract)
-    if (data.is_contract) score += 10;
+    if (data.is_contract) addSignal(breakdown, "is_contract", 10);
 
     // Bonus for having logs (shows active usage)
-    if (data.has_logs) score += 5;
+    if (data.has_logs) addSignal(breakdown, "has_logs", 5);
 
     // Cap at 0-100
-    return Math.max(0, Math.min(score, 100));
+    return finishBreakdown(breakdown);
   } catch (error) {
     console.error("Error calculating network trust score:", error);
-    return 50;
+    return { score: 50, signals: [{ label: "Neutral start", points: 50 }], capsHit: [] };
   }
 }
 
-// ------------------ Helper Functions ------------------
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Months are counted as "YYYY-MM" buckets, a gap is the number of whole months between two active ones
+const monthIndex = (date: Date) => date.getUTCFullYear() * 12 + date.getUTCMonth();
 
-function checkWorldIDVerification(data: CombinedData): boolean {
+function calculateLongevityScore(data: CombinedData): ComponentBreakdown {
+  const breakdown = emptyBreakdown();
   try {
-    // Check for WorldID related tokens using the new structure
-    return (data.tokens?.items || []).some(
-      tokenItem =>
-        tokenItem?.token?.name?.includes("World") ||
-        tokenItem?.token?.name?.includes("Proof") ||
-        tokenItem?.token?.symbol?.includes("WLD"),
+    const activity = data.activity;
+    if (!activity?.firstTransactionAt) return finishBreakdown(breakdown);
+
+    const now = new Date();
+    const firstTransactionAt = new Date(activity.firstTransactionAt);
+    const ageYears = (now.getTime() - firstTransactionAt.getTime()) / (365 * MS_PER_DAY);
+
+    // Account age, 10 points per year up to 4 years
+    addSignal(breakdown, `First transaction ${firstTransactionAt.toISOString().slice(0, 10)}`, ageYears * 10, 40);
+
+    // Distinct months with activity, 2 points each up to 20 months
+    const activeMonths = Array.from(
+      new Set(activity.transactionTimestamps.map(timestamp => monthIndex(new Date(timestamp)))),
+    ).sort((a, b) => a - b);
+    addSignal(
+      breakdown,
+      `${formatCount(activeMonths.length, activity.truncated)} active months`,
+      activeMonths.length * 2,
+      40,
+    );
+
+    // Steady use, the longest stretch without any transaction, counting up to now
+    const monthsSinceLastActivity =
+      activeMonths.length > 0 ? monthIndex(now) - activeMonths[activeMonths.length - 1] : 0;
+    const longestGap = activeMonths.reduce(
+      (gap, month, index) => (index === 0 ? gap : Math.max(gap, month - activeMonths[index - 1] - 1)),
+      monthsSinceLastActivity,
     );
+    // A few months are needed before use can be called steady, long silences always count
+    const gapLabel = `Longest gap ${longestGap} months`;
+    if (longestGap > 12) addSignal(breakdown, gapLabel, -10);
+    else if (activeMonths.length >= 3 && longestGap <= 3) addSignal(breakdown, gapLabel, 20);
+    else if (activeMonths.length >= 3 && longestGap <= 6) addSignal(breakdown, gapLabel, 10);
+
+    if (activity.truncated) {
+      breakdown.capsHit.push("Transaction history truncated, active months are a lower bound");
+    }
+
+    return finishBreakdown(breakdown);
   } catch (error) {
-    console.error("Error checking WorldID verification:", error);
-    return false;
+    console.error("Error calculating longevity score:", error);
+    return emptyBreakdown();
+  }
+}
+
+function calculateProtocolHistoryScore(history: ProtocolHistory, model: ScoringModel): ComponentBreakdown {
+  const breakdown = emptyBreakdown();
+  try {
+    // Nothing to judge yet, the component is left out of the overall score
+    if (!hasProtocolHistory(history)) return breakdown;
+
+    const config = model.protocolHistory;
+    addSignal(breakdown, "Neutral start", config.neutralScore);
+
+    // Repaying on time is the strongest signal, the count shows it wasn't a one-off
+    addSignal(
+      breakdown,
+      `${history.onTimeRepayments} on-time repayments`,
+      history.onTimeRepayments * config.onTimeRepaymentPoints,
+      config.maxOnTimeRepaymentPoints,
+    );
+    addSignal(
+      breakdown,
+      `${history.repaymentCount} repayments`,
+      history.repaymentCount * config.repaymentPoints,
+      config.maxRepaymentPoints,
+    );
+
+    // Providing liquidity, points per month of tenure
+    addSignal(
+      breakdown,
+      `${Math.floor(history.lpTenureDays)} days providing liquidity`,
+      (history.lpTenureDays / 30) * config.lpPointsPerMonth,
+      config.maxLpPoints,
+    );
+
+    // Penalties for late repayments, defaults and debt that is still open
+    addSignal(breakdown, `${history.lateRepayments} late repayments`, -history.lateRepayments * config.latePenalty);
+    addSignal(breakdown, `${history.defaults} defaults`, -history.defaults * config.defaultPenalty);
+    addSignal(breakdown, `${history.overdueLoans} overdue loans`, -history.overdueLoans * config.overduePenalty);
+    addSignal(
+      breakdown,
+      `${history.outstandingLoans} outstanding loans`,
+      -history.outstandingLoans * config.outstandingPenalty,
+    );
+
+    // Cap at 0-100
+    return finishBreakdown(breakdown);
+  } catch (error) {
+    console.error("Error calculating protocol history score:", error);
+    return emptyBreakdown();
+  }
+}
+
+function calculateCredentialsScore(
+  data: CredentialsData,
+  config: NonNullable<ScoringModel["credentials"]>,
+): ComponentBreakdown {
+  const breakdown = emptyBreakdown();
+  try {
+    // Points per credential held, each type capped by the model
+    (Object.keys(config) as CredentialType[]).forEach(type => {
+      const count = data.credentials.filter(credential => credential.type === type).length;
+      const truncated = type === "poap" && data.truncated;
+      addSignal(
+        breakdown,
+        `${formatCount(count, truncated)} ${CREDENTIAL_NAMES[type]}`,
+        count * config[type].points,
+        config[type].maxPoints,
+      );
+    });
+
+    if (data.truncated) breakdown.capsHit.push("POAP list truncated, counts are a lower bound");
+    if (data.failedSources.length > 0) {
+      breakdown.capsHit.push(`Credentials missing from ${data.failedSources.join(", ")}`);
+    }
+
+    return finishBreakdown(breakdown);
+  } catch (error) {
+    console.error("Error calculating credentials score:", error);
+    return emptyBreakdown();
   }
 }
 
 // ------------------ Recommendations Generator ------------------
 
-function generateRecommendations(data: CombinedData, score: number, hasENS: boolean, hasWorldID: boolean): string[] {
+function generateRecommendations(
+  data: CombinedData,
+  score: number,
+  hasENS: boolean,
+  hasWorldID: boolean,
+  protocolHistory: ProtocolHistory,
+  governance: GovernanceActivity,
+  credentials: CredentialsData,
+  model: ScoringModel,
+): string[] {
   const recommendations: string[] = [];
 
   try {
+    // Unlloo history recommendations come first, they move the score the most
+    if (protocolHistory.overdueLoans > 0) {
+      recommendations.push("Repay your overdue Unlloo loans, late and defaulted loans lower your risk level.");
+    } else if (protocolHistory.repaymentCount === 0 && protocolHistory.borrowCount === 0) {
+      recommendations.push("Borrow a small amount on Unlloo and repay it on time to build protocol history.");
+    }
+
     // Financial recommendations
     const ethBalance = parseFloat(data.coin_balance || "0") / 10 ** 18;
     if (ethBalance < 0.1) {
@@ -309,32 +830,27 @@ function generateRecommendations(data: CombinedData, score: number, hasENS: bool
     }
 
     // DeFi reputation recommendations
-    const defiTokenCount = (data.tokens?.items || []).filter(tokenItem =>
-      ["Aave", "Compound", "Uniswap", "WETH", "DAI"].some(
-        name => tokenItem?.token?.name?.includes(name) || tokenItem?.token?.symbol?.includes(name),
-      ),
-    ).length;
+    const defiTokenCount = model.tokenRegistry
+      ? tokensInCategory(classificationOf(data), "defi").length
+      : (data.tokens?.items || []).filter(tokenItem => nameMatches(tokenItem, LEGACY_RECOMMENDED_DEFI_NAMES)).length;
+
+    // Missing tokens in a truncated list may just be on a page that wasn't read
+    const tokensTruncated = !!data.tokens?.truncated;
 
-    if (defiTokenCount < 2) {
+    if (defiTokenCount < 2 && !tokensTruncated) {
       recommendations.push(
         "Participate in reputable DeFi protocols (like Uniswap, Aave, or Compound) to build financial reputation.",
       );
     }
 
-    // DAO activity recommendations
-    const hasGovTokens = (data.tokens?.items || []).some(tokenItem =>
-      ["DAO", "Governance", "Vote", "UNI", "COMP", "AAVE"].some(
-        term => tokenItem?.token?.name?.includes(term) || tokenItem?.token?.symbol?.includes(term),
-      ),
-    );
-
-    if (!hasGovTokens) {
-      recommendations.push("Participate in DAOs or governance protocols to demonstrate community involvement.");
+    // DAO activity recommendations, only when every vote source answered
+    if (governance.votes.length === 0 && governance.failedSources.length === 0) {
+      recommendations.push("Vote in DAO governance, on-chain or on Snapshot, to demonstrate community involvement.");
     }
 
     // Token diversity recommendations
-    const tokenCount = (data.tokens?.items || []).length;
-    if (tokenCount < 5) {
+    const tokenCount = scoredTokenItems(data, model).length;
+    if (tokenCount < 5 && !tokensTruncated) {
       recommendations.push("Diversify your token portfolio to show broader ecosystem engagement.");
     }
 
@@ -347,6 +863,23 @@ function generateRecommendations(data: CombinedData, score: number, hasENS: bool
       recommendations.push("Consider verifying your identity with WorldID to increase trust signals.");
     }
 
+    // Credential recommendations, only for sources that answered
+    const holds = (type: CredentialType) => credentials.credentials.some(credential => credential.type === type);
+    const answered = (type: CredentialType) => !credentials.failedSources.includes(CREDENTIAL_NAMES[type]);
+    if (!holds("poap") && answered("poap")) {
+      recommendations.push("Collect POAPs at events and community calls to show your participation.");
+    }
+    if (
+      !holds("coinbaseVerifiedAccount") &&
+      !holds("gitcoinPassport") &&
+      answered("coinbaseVerifiedAccount") &&
+      answered("gitcoinPassport")
+    ) {
+      recommendations.push(
+        "Get a Coinbase Verified Account or Gitcoin Passport attestation to add verified credentials.",
+      );
+    }
+
     // Trust recommendations
     if (data.is_scam) {
       recommendations.push("Address any scam flags on your account by contacting relevant platforms.");
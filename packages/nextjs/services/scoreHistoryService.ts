@@ -0,0 +1,196 @@
+import type { ReputationScore } from "./reputationService";
+import { promises as fs } from "fs";
+import path from "path";
+
+// A computed score as it was at one point in time, enough to chart it and spot sudden changes
+export interface ScoreSnapshot {
+  address: string; // lowercase
+  overall: number;
+  components: ReputationScore["components"];
+  riskLevel: number;
+  model: string;
+  modelVersion: string;
+  computedAt: string; // ISO timestamp
+}
+
+export interface ScoreHistoryQuery {
+  from?: Date;
+  to?: Date;
+  limit?: number; // most recent snapshots kept when there are more
+  model?: string; // only snapshots of this scoring model
+}
+
+// Where snapshots are kept, the file store is meant for local use, production plugs in a database
+export interface ScoreHistoryStore {
+  append(snapshot: ScoreSnapshot): Promise<void>;
+  query(address: string, query?: ScoreHistoryQuery): Promise<ScoreSnapshot[]>;
+}
+
+// Snapshots matching the query, oldest first
+function selectSnapshots(snapshots: ScoreSnapshot[], address: string, query: ScoreHistoryQuery): ScoreSnapshot[] {
+  const from = query.from?.getTime() ?? -Infinity;
+  const to = query.to?.getTime() ?? Infinity;
+
+  const matching = snapshots
+    .filter(snapshot => snapshot.address === address.toLowerCase())
+    .filter(snapshot => query.model === undefined || snapshot.model === query.model)
+    .filter(snapshot => {
+      const computedAt = new Date(snapshot.computedAt).getTime();
+      return computedAt >= from && computedAt <= to;
+    })
+    .sort((a, b) => a.computedAt.localeCompare(b.computedAt));
+
+  return query.limit !== undefined ? matching.slice(-query.limit) : matching;
+}
+
+// Stores keep the most recent snapshots up to this many, over all addresses
+const MAX_STORED_SNAPSHOTS = 100_000;
+
+export function createMemoryScoreHistoryStore(maxSnapshots: number = MAX_STORED_SNAPSHOTS): ScoreHistoryStore {
+  const snapshots: ScoreSnapshot[] = [];
+
+  return {
+    async append(snapshot) {
+      snapshots.push(snapshot);
+      if (snapshots.length > maxSnapshots) snapshots.splice(0, snapshots.length - maxSnapshots);
+    },
+    async query(address, query = {}) {
+      return selectSnapshots(snapshots, address, query);
+    },
+  };
+}
+
+// One JSON snapshot per line. Appends are cheap, once the file holds more than `maxSnapshots` it is rewritten
+// with the newest 90% of them. Parsed snapshots are reused until the file changes.
+export function createFileScoreHistoryStore(
+  filePath: string,
+  maxSnapshots: number = MAX_STORED_SNAPSHOTS,
+): ScoreHistoryStore {
+  const storePath = path.resolve(filePath);
+  let cache: { mtimeMs: number; size: number; snapshots: ScoreSnapshot[] } | null = null;
+  let storedCount: number | null = null; // lines in the file, counted on the first append
+  let writeLock: Promise<unknown> = Promise.resolve();
+
+  async function readSnapshots(): Promise<ScoreSnapshot[]> {
+    let stats: { mtimeMs: number; size: number };
+    try {
+      stats = await fs.stat(storePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+    if (cache && cache.mtimeMs === stats.mtimeMs && cache.size === stats.size) {
+      return cache.snapshots;
+    }
+
+    const snapshots = (await fs.readFile(storePath, "utf8"))
+      .split("\n")
+      .filter(Boolean)
+      .map(line => JSON.parse(line) as ScoreSnapshot);
+    cache = { mtimeMs: stats.mtimeMs, size: stats.size, snapshots };
+    return snapshots;
+  }
+
+  async function append(snapshot: ScoreSnapshot): Promise<void> {
+    if (storedCount === null) {
+      storedCount = (await readSnapshots()).length;
+    }
+
+    await fs.appendFile(storePath, `${JSON.stringify(snapshot)}\n`);
+    storedCount++;
+
+    if (storedCount > maxSnapshots) {
+      const kept = (await readSnapshots()).slice(-Math.floor(maxSnapshots * 0.9));
+      const tempPath = `${storePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, kept.map(stored => `${JSON.stringify(stored)}\n`).join(""));
+      await fs.rename(tempPath, storePath);
+      storedCount = kept.length;
+    }
+  }
+
+  return {
+    // Appends run one after the other so none is lost while the file is being rewritten
+    append(snapshot) {
+      const result = writeLock.then(() => append(snapshot));
+      writeLock = result.catch(() => undefined);
+      return result;
+    },
+    async query(address, query = {}) {
+      return selectSnapshots(await readSnapshots(), address, query);
+    },
+  };
+}
+
+let defaultStore: ScoreHistoryStore | null = null;
+
+// SCORE_HISTORY_STORE=memory keeps snapshots for the life of the process, anything else is a file path
+export function getScoreHistoryStore(): ScoreHistoryStore {
+  if (!defaultStore) {
+    const store = process.env.SCORE_HISTORY_STORE || ".score-history.jsonl";
+    defaultStore = store === "memory" ? createMemoryScoreHistoryStore() : createFileScoreHistoryStore(store);
+  }
+  return defaultStore;
+}
+
+// Scores are served to anyone who asks, at most one snapshot per address and model is kept per interval
+export const SNAPSHOT_INTERVAL_MS = 60 * 60 * 1000;
+const MAX_TRACKED_ADDRESSES = 10_000;
+const lastSnapshotAt = new Map<string, number>(); // keyed by "model:address"
+
+// Saves a snapshot of the score unless one was saved within the interval, failing to save never fails
+// the request that computed it
+export async function recordScoreSnapshot(
+  address: string,
+  score: ReputationScore,
+  modelVersion: string,
+  store: ScoreHistoryStore = getScoreHistoryStore(),
+): Promise<void> {
+  const key = `${score.model}:${address.toLowerCase()}`;
+  const now = Date.now();
+  if (now - (lastSnapshotAt.get(key) ?? -Infinity) < SNAPSHOT_INTERVAL_MS) {
+    return;
+  }
+
+  // Forget the address recorded longest ago once the map is full
+  lastSnapshotAt.delete(key);
+  if (lastSnapshotAt.size >= MAX_TRACKED_ADDRESSES) {
+    const oldest = lastSnapshotAt.keys().next().value;
+    if (oldest !== undefined) lastSnapshotAt.delete(oldest);
+  }
+  lastSnapshotAt.set(key, now);
+
+  try {
+    await store.append({
+      address: address.toLowerCase(),
+      overall: score.overall,
+      components: score.components,
+      riskLevel: score.riskLevel,
+      model: score.model,
+      modelVersion,
+      computedAt: new Date(now).toISOString(),
+    });
+  } catch (error) {
+    lastSnapshotAt.delete(key);
+    console.error("Error recording score snapshot:", error);
+  }
+}
+
+export interface ScoreJump {
+  from: ScoreSnapshot;
+  to: ScoreSnapshot;
+  change: number;
+}
+
+// Consecutive snapshots of the same model whose overall score moved by at least `threshold` points, scores of
+// different models aren't comparable
+export function findScoreJumps(snapshots: ScoreSnapshot[], threshold = 15): ScoreJump[] {
+  const previousByModel = new Map<string, ScoreSnapshot>();
+  return snapshots.flatMap(snapshot => {
+    const previous = previousByModel.get(snapshot.model);
+    previousByModel.set(snapshot.model, snapshot);
+    if (!previous) return [];
+
+    const change = snapshot.overall - previous.overall;
+    return Math.abs(change) >= threshold ? [{ from: previous, to: snapshot, change }] : [];
+  });
+}
@@ -0,0 +1,218 @@
+import { ChainAddressData, CombinedData, hasChainActivity } from "./addressService";
+import { CredentialsData } from "./credentialsService";
+import { GovernanceActivity } from "./governanceService";
+import { ProtocolHistory } from "./protocolHistoryService";
+import { ReputationScore, calculateReputationScore } from "./reputationService";
+import { ScoringModel, getScoringModel } from "./scoringModels";
+import { FundingClusters } from "./sybilService";
+import { EMPTY_TOKEN_CLASSIFICATION, classifyTokens } from "./tokenClassificationService";
+import { TOKEN_REGISTRY } from "./tokenRegistry";
+import { parseEther } from "viem";
+
+// What-if scoring: applies hypothetical changes to the data a score was built from and scores it again
+
+// Everything calculateReputationScore takes besides the model
+export interface ScoreInputs {
+  chainData: ChainAddressData[];
+  protocolHistory: ProtocolHistory;
+  governance: GovernanceActivity;
+  credentials: CredentialsData;
+  worldIdVerified: boolean;
+  fundingClusters: FundingClusters;
+}
+
+export type WhatIfActionId = "registerEns" | "holdStablecoin" | "voteInDao" | "addEth" | "verifyWorldId";
+
+interface WhatIfAction {
+  label: string;
+  description: string;
+  applies(inputs: ScoreInputs): boolean; // false when the address already did it
+  apply(inputs: ScoreInputs): ScoreInputs;
+}
+
+// Amounts the hypothetical holdings are given
+const WHAT_IF_ETH = parseEther("0.5");
+const WHAT_IF_STABLECOIN_USD = 100;
+
+// Changes land on the chain recommendations look at, the most heavily weighted one the address uses
+function primaryChain(inputs: ScoreInputs): ChainAddressData | undefined {
+  return inputs.chainData.find(({ data }) => hasChainActivity(data)) ?? inputs.chainData[0];
+}
+
+function updatePrimaryChain(inputs: ScoreInputs, update: (chainData: ChainAddressData) => CombinedData): ScoreInputs {
+  const primary = primaryChain(inputs);
+  return {
+    ...inputs,
+    chainData: inputs.chainData.map(chainData =>
+      chainData === primary ? { ...chainData, data: update(chainData) } : chainData,
+    ),
+  };
+}
+
+// First stablecoin the registry knows on the chain, as a lowercase address
+function registeredStablecoin(chainId: number): string | undefined {
+  return Object.entries(TOKEN_REGISTRY.chains[chainId] ?? {}).find(([, token]) =>
+    token.categories.includes("stablecoin"),
+  )?.[0];
+}
+
+export const WHAT_IF_ACTIONS: Record<WhatIfActionId, WhatIfAction> = {
+  registerEns: {
+    label: "Register an ENS name",
+    description: "A primary ENS name for your address.",
+    applies: inputs => !inputs.chainData.some(({ data }) => !!data.ens_domain_name),
+    apply: inputs => updatePrimaryChain(inputs, ({ data }) => ({ ...data, ens_domain_name: "what-if.eth" })),
+  },
+  holdStablecoin: {
+    label: "Hold a stablecoin",
+    description: `$${WHAT_IF_STABLECOIN_USD} in a stablecoin from the token registry.`,
+    applies: inputs => {
+      const primary = primaryChain(inputs);
+      return (
+        !!primary &&
+        !!registeredStablecoin(primary.chain.id) &&
+        !(primary.data.tokenClassification ?? EMPTY_TOKEN_CLASSIFICATION).tokens.some(token =>
+          token.categories.includes("stablecoin"),
+        )
+      );
+    },
+    apply: inputs =>
+      updatePrimaryChain(inputs, ({ chain, data }) => {
+        const address = registeredStablecoin(chain.id) as string;
+        const symbol = TOKEN_REGISTRY.chains[chain.id][address].symbol;
+        const items = [
+          ...data.tokens.items,
+          {
+            token: {
+              address,
+              address_hash: address,
+              circulating_market_cap: null,
+              decimals: "18",
+              exchange_rate: "1",
+              holders: "1000000",
+              holders_count: "1000000",
+              icon_url: null,
+              name: symbol,
+              symbol,
+              total_supply: null,
+              type: "ERC-20",
+              volume_24h: null,
+            },
+            token_id: null,
+            token_instance: null,
+            value: parseEther(WHAT_IF_STABLECOIN_USD.toString()).toString(),
+          },
+        ];
+        return {
+          ...data,
+          tokens: { ...data.tokens, items },
+          tokenClassification: classifyTokens(chain.id, items),
+        };
+      }),
+  },
+  voteInDao: {
+    label: "Vote in a DAO",
+    description: "One governance vote, on-chain or on Snapshot.",
+    applies: inputs => inputs.governance.votes.length === 0,
+    apply: inputs => ({
+      ...inputs,
+      governance: {
+        ...inputs.governance,
+        votes: [
+          ...inputs.governance.votes,
+          { source: "What-if", dao: "snapshot:what-if.eth", proposalId: "what-if", votedAt: new Date().toISOString() },
+        ],
+      },
+    }),
+  },
+  addEth: {
+    label: "Add 0.5 ETH",
+    description: "0.5 ETH more in your wallet.",
+    applies: inputs => !!primaryChain(inputs),
+    apply: inputs =>
+      updatePrimaryChain(inputs, ({ data }) => ({
+        ...data,
+        coin_balance: (BigInt(data.coin_balance || "0") + WHAT_IF_ETH).toString(),
+      })),
+  },
+  verifyWorldId: {
+    label: "Verify with World ID",
+    description: "A World ID proof that you are a unique human.",
+    applies: inputs => !inputs.worldIdVerified,
+    apply: inputs => ({ ...inputs, worldIdVerified: true }),
+  },
+};
+
+export function scoreFromInputs(inputs: ScoreInputs, model: ScoringModel = getScoringModel()): ReputationScore {
+  return calculateReputationScore(
+    inputs.chainData,
+    inputs.protocolHistory,
+    inputs.governance,
+    inputs.credentials,
+    inputs.worldIdVerified,
+    inputs.fundingClusters,
+    model,
+  );
+}
+
+// Scores the inputs as if every one of the actions had been taken
+export function simulateActions(
+  inputs: ScoreInputs,
+  actionIds: WhatIfActionId[],
+  model: ScoringModel = getScoringModel(),
+): ReputationScore {
+  const simulated = actionIds.reduce((current, id) => WHAT_IF_ACTIONS[id].apply(current), inputs);
+  return scoreFromInputs(simulated, model);
+}
+
+export interface SimulatedImprovement {
+  id: WhatIfActionId;
+  label: string;
+  description: string;
+  score: number;
+  scoreGain: number;
+  riskLevel: number;
+  riskLevelGain: number; // tiers, on-chain borrow caps are set per risk level
+  borrowLimit: number;
+  borrowLimitGain: number;
+}
+
+export interface SimulationOptions {
+  model?: ScoringModel;
+  borrowLimitOf?: (score: ReputationScore) => number; // how the caller turns a score into a borrow limit
+}
+
+// Every action the address hasn't taken yet, scored on its own and ranked by the points it adds,
+// then by how much it raises the borrow limit
+export function rankImprovements(
+  inputs: ScoreInputs,
+  options: SimulationOptions = {},
+): { baseline: ReputationScore; improvements: SimulatedImprovement[] } {
+  const model = options.model ?? getScoringModel();
+  const borrowLimitOf = options.borrowLimitOf ?? (() => 0);
+  const baseline = scoreFromInputs(inputs, model);
+  const baselineBorrowLimit = borrowLimitOf(baseline);
+
+  const improvements = (Object.keys(WHAT_IF_ACTIONS) as WhatIfActionId[])
+    .filter(id => WHAT_IF_ACTIONS[id].applies(inputs))
+    .map(id => {
+      const simulated = simulateActions(inputs, [id], model);
+      const borrowLimit = borrowLimitOf(simulated);
+      return {
+        id,
+        label: WHAT_IF_ACTIONS[id].label,
+        description: WHAT_IF_ACTIONS[id].description,
+        score: simulated.overall,
+        scoreGain: simulated.overall - baseline.overall,
+        riskLevel: simulated.riskLevel,
+        riskLevelGain: simulated.riskLevel - baseline.riskLevel,
+        borrowLimit,
+        borrowLimitGain: borrowLimit - baselineBorrowLimit,
+      };
+    })
+    .sort(
+      (a, b) => b.scoreGain - a.scoreGain || b.borrowLimitGain - a.borrowLimitGain || b.riskLevelGain - a.riskLevelGain,
+    );
+
+  return { baseline, improvements };
+}
@@ -0,0 +1,208 @@
+import { CredentialType } from "./credentialsService";
+
+// Registry of reputation scoring models. A model is a declarative config of weights and thresholds that
+// calculateReputationScore applies, so new models can be rolled out next to old ones instead of replacing them.
+// Published models must never change once partners use them: add a new version instead.
+
+export interface ScoringModel {
+  id: string;
+  version: string; // reported as calculationVersion
+  description: string;
+  // Weights of the mainnet components, they should add up to 1
+  weights: {
+    financialCapacity: number;
+    transactionBehavior: number;
+    defiReputation: number;
+    daoActivity: number;
+    networkTrust: number;
+    longevity: number;
+    credentials: number;
+  };
+  // Share of the overall score taken by Unlloo's own history once the address has any, 0 ignores it
+  protocolHistoryWeight: number;
+  // Scores every Blockscout chain the address is active on, false scores the first one (Ethereum) alone
+  multiChain: boolean;
+  // Reads every token and NFT page fetched, false only the first page of each
+  allPages: boolean;
+  // Network trust penalty for addresses in a suspected wallet cluster, the risk is reported either way
+  sybilPenalty: boolean;
+  // NFTs at their collection's floor price with spam collections left out, false counts every NFT as 0.1 ETH
+  nftFloorPrices: boolean;
+  // Tokens matched by contract address against the token registry with spam left out, false matches the names
+  // and symbols of every token held
+  tokenRegistry: boolean;
+  riskLevel: {
+    scoreSteps: number; // risk levels the overall score alone can reach
+    ensBonus: number;
+    worldIdBonus: number;
+    defaultPenalty: number; // per defaulted Unlloo loan
+    overduePenalty: number; // per Unlloo loan that is overdue right now
+  };
+  protocolHistory: {
+    neutralScore: number;
+    onTimeRepaymentPoints: number;
+    maxOnTimeRepaymentPoints: number;
+    repaymentPoints: number;
+    maxRepaymentPoints: number;
+    lpPointsPerMonth: number;
+    maxLpPoints: number;
+    latePenalty: number;
+    defaultPenalty: number;
+    overduePenalty: number;
+    outstandingPenalty: number;
+  };
+  // DAO activity from votes the address cast, null scores governance-looking tokens instead
+  governance: {
+    pointsPerVote: number;
+    maxVotePoints: number;
+    pointsPerDao: number; // per distinct DAO voted in
+    maxDaoPoints: number;
+    recentVoteDays: number;
+    recentVotePoints: number; // last vote within recentVoteDays
+    pastYearVotePoints: number; // last vote within a year
+  } | null;
+  // Points per POAP or trusted attestation held and the most each credential type can add, null skips credentials
+  credentials: Record<CredentialType, { points: number; maxPoints: number }> | null;
+}
+
+const V1: ScoringModel = {
+  id: "v1",
+  version: "1.0",
+  description: "Mainnet activity only",
+  weights: {
+    financialCapacity: 0.25,
+    transactionBehavior: 0.25,
+    defiReputation: 0.2,
+    daoActivity: 0.15,
+    networkTrust: 0.15,
+    longevity: 0,
+    credentials: 0,
+  },
+  protocolHistoryWeight: 0,
+  multiChain: false,
+  allPages: false,
+  sybilPenalty: false,
+  nftFloorPrices: false,
+  tokenRegistry: false,
+  riskLevel: {
+    scoreSteps: 8,
+    ensBonus: 1,
+    worldIdBonus: 1,
+    defaultPenalty: 0,
+    overduePenalty: 0,
+  },
+  protocolHistory: {
+    neutralScore: 50,
+    onTimeRepaymentPoints: 10,
+    maxOnTimeRepaymentPoints: 30,
+    repaymentPoints: 2,
+    maxRepaymentPoints: 10,
+    lpPointsPerMonth: 5,
+    maxLpPoints: 15,
+    latePenalty: 10,
+    defaultPenalty: 40,
+    overduePenalty: 25,
+    outstandingPenalty: 5,
+  },
+  governance: null,
+  credentials: null,
+};
+
+const V2: ScoringModel = {
+  ...V1,
+  id: "v2",
+  version: "1.1",
+  description: "Mainnet activity plus repayment and liquidity history on Unlloo",
+  protocolHistoryWeight: 0.3,
+  riskLevel: {
+    ...V1.riskLevel,
+    defaultPenalty: 3,
+    overduePenalty: 2,
+  },
+};
+
+const V3: ScoringModel = {
+  ...V2,
+  id: "v3",
+  version: "1.2",
+  description: "V2 plus account age and activity consistency",
+  multiChain: true,
+  allPages: true,
+  weights: {
+    financialCapacity: 0.2,
+    transactionBehavior: 0.2,
+    defiReputation: 0.2,
+    daoActivity: 0.1,
+    networkTrust: 0.15,
+    longevity: 0.15,
+    credentials: 0,
+  },
+};
+
+const V4: ScoringModel = {
+  ...V3,
+  id: "v4",
+  version: "1.3",
+  description: "V3 with DAO activity from on-chain Governor and Snapshot votes",
+  sybilPenalty: true,
+  governance: {
+    pointsPerVote: 4,
+    maxVotePoints: 40,
+    pointsPerDao: 10,
+    maxDaoPoints: 30,
+    recentVoteDays: 90,
+    recentVotePoints: 30,
+    pastYearVotePoints: 15,
+  },
+};
+
+const V5: ScoringModel = {
+  ...V4,
+  id: "v5",
+  version: "1.4",
+  description: "V4 plus POAPs and attestations from trusted issuers",
+  weights: {
+    financialCapacity: 0.2,
+    transactionBehavior: 0.15,
+    defiReputation: 0.2,
+    daoActivity: 0.1,
+    networkTrust: 0.1,
+    longevity: 0.15,
+    credentials: 0.1,
+  },
+  credentials: {
+    poap: { points: 3, maxPoints: 30 },
+    coinbaseVerifiedAccount: { points: 40, maxPoints: 40 },
+    gitcoinPassport: { points: 30, maxPoints: 30 },
+  },
+};
+
+const V6: ScoringModel = {
+  ...V5,
+  id: "v6",
+  version: "1.5",
+  description: "V5 with NFTs valued at their collection's floor price and spam tokens left out",
+  nftFloorPrices: true,
+  tokenRegistry: true,
+};
+
+export const SCORING_MODELS: Record<string, ScoringModel> = {
+  [V1.id]: V1,
+  [V2.id]: V2,
+  [V3.id]: V3,
+  [V4.id]: V4,
+  [V5.id]: V5,
+  [V6.id]: V6,
+};
+
+export const DEFAULT_SCORING_MODEL_ID = V6.id;
+
+export function getScoringModel(id?: string | null): ScoringModel {
+  const modelId = id ?? DEFAULT_SCORING_MODEL_ID;
+  // Own keys only, "toString" or "constructor" would otherwise resolve to Object.prototype
+  const model = Object.hasOwn(SCORING_MODELS, modelId) ? SCORING_MODELS[modelId] : undefined;
+  if (!model) {
+    throw new Error(`Invalid scoring model "${id}", available models: ${Object.keys(SCORING_MODELS).join(", ")}`);
+  }
+  return model;
+}
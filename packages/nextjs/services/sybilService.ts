@@ -0,0 +1,175 @@
+import { ChainAddressData, CombinedData } from "./addressService";
+
+// Borrowing is uncollateralized, so the cheapest attack is many fresh wallets funded from one source that
+// each borrow up to their cap. The detector links addresses through their first funder and compares them.
+
+export type SybilRiskLevel = "low" | "medium" | "high";
+
+export interface SybilRisk {
+  level: SybilRiskLevel;
+  score: number; // 0-100
+  reasons: string[];
+  cluster: string[]; // other addresses funded by the same source
+}
+
+export const NO_SYBIL_RISK: SybilRisk = { level: "low", score: 0, reasons: [], cluster: [] };
+
+// Another wallet known to have received its first funds from the same funder
+export interface FundingSibling {
+  address: string;
+  tokens: string[];
+}
+
+// Siblings of an address on every chain it was funded on, keyed by chain id
+export type FundingClusters = Record<number, FundingSibling[]>;
+
+// Funders shared by countless unrelated wallets, a common first funder says nothing about these.
+// Exchange hot wallets use the same address on every chain, bridges are listed per deployment.
+export const KNOWN_FUNDERS: Record<string, string> = {
+  "0x28c6c06298d514db089934071355e5743bf21d60": "Binance 14",
+  "0x21a31ee1afc51d94c2efccaa2092ad1028285549": "Binance 15",
+  "0xdfd5293d8e347dfe59e90efd55b2956a1343963d": "Binance 16",
+  "0x71660c4005ba85c37ccec55d0c4493e66fe775d3": "Coinbase 1",
+  "0xa9d1e08c7793af67e9d92fe308d5697fb81d3e43": "Coinbase 10",
+  "0x267be1c1d684f78cb4f6a176c4911b741e4ffdc0": "Kraken 4",
+  "0x6cc5f688a315f3dc28a7781717a9a798a59fda7b": "OKX",
+  "0xf89d7b9c864f589bbf53a82105107622b35eaa40": "Bybit",
+  "0x5c7bcd6e7de5423a257d81b442095a1a6ced35c5": "Across (Ethereum)",
+  "0x6f26bf09b1c792e3228e5467807a900a503c0281": "Across (Optimism)",
+  "0xe35e9842fceaca96570b734083f4a58e8f7c5f2a": "Across (Arbitrum)",
+  "0x09aea4b2242abc8bb4bb78d537a67a245a7bec64": "Across (Base)",
+  "0x9295ee1d8c5b022be115a2ad3c30c72e34e7f096": "Across (Polygon)",
+  "0x80c67432656d59144ceff962e8faf8926599bcf8": "Orbiter Finance",
+};
+
+export const isKnownFunder = (funder: string): boolean => funder.toLowerCase() in KNOWN_FUNDERS;
+
+// Wallets seen by whoever records into it, grouped by their first funder
+export interface FundingGraph {
+  record(chainData: ChainAddressData[]): void;
+  clustersOf(chainData: ChainAddressData[]): FundingClusters;
+}
+
+const FRESH_WALLET_DAYS = 30;
+const TOKEN_SET_SIMILARITY = 0.8;
+const MAX_FUNDERS = 10_000;
+
+// Spam is airdropped to everyone alike, only the tokens that survived classification say anything about a wallet
+function tokenSet(data: CombinedData): string[] {
+  return Array.from(new Set((data.tokenClassification?.tokens || []).map(token => token.address).filter(Boolean)));
+}
+
+// Funder the address is linked through on a chain, null when it has none or it is a known shared one
+function linkingFunder(data: CombinedData): string | null {
+  const funder = data.activity?.firstFunder;
+  return funder && !isKnownFunder(funder) ? funder.toLowerCase() : null;
+}
+
+// Keeps at most `maxFunders` funders, forgetting the one seen longest ago once full
+export function createFundingGraph(maxFunders: number = MAX_FUNDERS): FundingGraph {
+  const funded = new Map<string, Map<string, FundingSibling>>(); // keyed by "chainId:funder"
+
+  return {
+    record(chainData) {
+      chainData.forEach(({ chain, data }) => {
+        const funder = linkingFunder(data);
+        if (!funder || !data.hash) return;
+
+        const key = `${chain.id}:${funder}`;
+        let wallets = funded.get(key);
+        if (!wallets) {
+          if (funded.size >= maxFunders) {
+            const oldest = funded.keys().next().value;
+            if (oldest !== undefined) funded.delete(oldest);
+          }
+          wallets = new Map();
+          funded.set(key, wallets);
+        }
+        const address = data.hash.toLowerCase();
+        wallets.set(address, { address, tokens: tokenSet(data) });
+      });
+    },
+    clustersOf(chainData) {
+      const clusters: FundingClusters = {};
+      chainData.forEach(({ chain, data }) => {
+        const funder = linkingFunder(data);
+        if (!funder || !data.hash) return;
+
+        const address = data.hash.toLowerCase();
+        const siblings = Array.from(funded.get(`${chain.id}:${funder}`)?.values() ?? []).filter(
+          sibling => sibling.address !== address,
+        );
+        if (siblings.length > 0) clusters[chain.id] = siblings;
+      });
+      return clusters;
+    },
+  };
+}
+
+let serverFundingGraph: FundingGraph | null = null;
+
+// The graph shared by every score this server process computes, scoring every wallet of a cluster builds it up.
+// The edges live as long as the process.
+export function getFundingGraph(): FundingGraph {
+  if (!serverFundingGraph) {
+    serverFundingGraph = createFundingGraph();
+  }
+  return serverFundingGraph;
+}
+
+// Jaccard similarity of two token sets, empty sets are not considered similar
+function similarity(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const setB = new Set(b);
+  const shared = a.filter(token => setB.has(token)).length;
+  return shared / (a.length + b.length - shared);
+}
+
+// Only looks at the address itself and the siblings it is given, so the same inputs always get the same risk
+export function assessSybilRisk(data: CombinedData, siblings: FundingSibling[] = []): SybilRisk {
+  try {
+    const funder = linkingFunder(data);
+    const firstTransactionAt = data.activity?.firstTransactionAt ?? null;
+    const reasons: string[] = [];
+    let score = 0;
+
+    const isFresh =
+      !!firstTransactionAt &&
+      Date.now() - new Date(firstTransactionAt).getTime() < FRESH_WALLET_DAYS * 24 * 60 * 60 * 1000;
+    if (isFresh) {
+      score += 25;
+      reasons.push(`Created less than ${FRESH_WALLET_DAYS} days ago`);
+    }
+
+    if (!funder || siblings.length === 0) {
+      return { level: levelOf(score), score, reasons, cluster: [] };
+    }
+
+    if (siblings.length >= 3) {
+      score += 45;
+      reasons.push(`Shares its first funder ${funder} with ${siblings.length} other wallets`);
+    } else {
+      score += 30;
+      reasons.push(`Shares its first funder ${funder} with ${siblings.length} other wallet`);
+    }
+
+    const tokens = tokenSet(data);
+    const lookalikes = siblings.filter(sibling => similarity(tokens, sibling.tokens) >= TOKEN_SET_SIMILARITY);
+    if (lookalikes.length > 0) {
+      score += 30;
+      reasons.push(`Holds nearly the same tokens as ${lookalikes.length} wallet(s) with the same funder`);
+    }
+
+    score = Math.min(score, 100);
+    return { level: levelOf(score), score, reasons, cluster: siblings.map(sibling => sibling.address) };
+  } catch (error) {
+    console.error("Error assessing sybil risk:", error);
+    return NO_SYBIL_RISK;
+  }
+}
+
+function levelOf(score: number): SybilRiskLevel {
+  if (score >= 70) return "high";
+  if (score >= 40) return "medium";
+  return "low";
+}
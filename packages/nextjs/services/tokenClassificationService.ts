@@ -0,0 +1,69 @@
+import type { TokenItem } from "./addressService";
+import { TOKEN_REGISTRY, TokenCategory, TokenRegistry } from "./tokenRegistry";
+
+// A token the address holds that survived spam filtering, with what the registry knows about it
+export interface ClassifiedToken {
+  item: TokenItem;
+  address: string; // lowercase contract address
+  registered: boolean;
+  categories: TokenCategory[]; // empty for tokens missing from the registry
+}
+
+export interface TokenClassification {
+  registryVersion: string;
+  tokens: ClassifiedToken[];
+  spamTokens: number; // tokens dropped as scams, impersonations or with too few holders
+}
+
+export const EMPTY_TOKEN_CLASSIFICATION: TokenClassification = {
+  registryVersion: TOKEN_REGISTRY.version,
+  tokens: [],
+  spamTokens: 0,
+};
+
+// Tokens held by fewer addresses than this are mostly airdropped spam, registered tokens are always kept
+const MIN_TOKEN_HOLDERS = 50;
+
+const tokenAddress = (item: TokenItem) => (item?.token?.address_hash ?? item?.token?.address ?? "").toLowerCase();
+
+function isSpamToken(item: TokenItem, registeredSymbols: Set<string>, minHolders: number): boolean {
+  if (item?.token?.is_scam) return true;
+
+  // An unregistered token borrowing a registered symbol, e.g. a fake "UNI" airdrop
+  if (registeredSymbols.has((item?.token?.symbol ?? "").toUpperCase())) return true;
+
+  // Without a holder count there is nothing more to judge the token by
+  const holders = item?.token?.holders_count ?? item?.token?.holders;
+  return holders !== null && holders !== undefined && parseInt(holders, 10) < minHolders;
+}
+
+export function classifyTokens(
+  chainId: number,
+  items: TokenItem[],
+  registry: TokenRegistry = TOKEN_REGISTRY,
+  minHolders = MIN_TOKEN_HOLDERS,
+): TokenClassification {
+  const registered = registry.chains[chainId] ?? {};
+  const registeredSymbols = new Set(Object.values(registered).map(token => token.symbol.toUpperCase()));
+
+  const tokens: ClassifiedToken[] = [];
+  let spamTokens = 0;
+
+  items.forEach(item => {
+    const address = tokenAddress(item);
+    const entry = registered[address];
+    if (entry) {
+      tokens.push({ item, address, registered: true, categories: entry.categories });
+    } else if (isSpamToken(item, registeredSymbols, minHolders)) {
+      spamTokens++;
+    } else {
+      tokens.push({ item, address, registered: false, categories: [] });
+    }
+  });
+
+  return { registryVersion: registry.version, tokens, spamTokens };
+}
+
+export function tokensInCategory(classification: TokenClassification, category: TokenCategory): ClassifiedToken[] {
+  return classification.tokens.filter(token => token.categories.includes(category));
+}
@@ -0,0 +1,67 @@
+// Curated token contracts per chain that scoring trusts by address instead of by name. Bump the version
+// whenever entries change, classifications report the version they were made with.
+
+export type TokenCategory = "defi" | "stablecoin" | "lp" | "governance";
+
+export interface RegisteredToken {
+  symbol: string;
+  categories: TokenCategory[];
+}
+
+export interface TokenRegistry {
+  version: string;
+  chains: Record<number, Record<string, RegisteredToken>>; // keyed by chain id, then lowercase address
+}
+
+export const TOKEN_REGISTRY: TokenRegistry = {
+  version: "1.0.0",
+  chains: {
+    // Ethereum
+    1: {
+      "0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2": { symbol: "WETH", categories: ["defi"] },
+      "0x6b175474e89094c44da98b954eedeac495271d0f": { symbol: "DAI", categories: ["stablecoin"] },
+      "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48": { symbol: "USDC", categories: ["stablecoin"] },
+      "0xdac17f958d2ee523a2206206994597c13d831ec7": { symbol: "USDT", categories: ["stablecoin"] },
+      "0x853d955acef822db058eb8505911ed77f175b99e": { symbol: "FRAX", categories: ["stablecoin"] },
+      "0x5f98805a4e8be255a32880fdec7f6728c6568ba0": { symbol: "LUSD", categories: ["stablecoin"] },
+      "0xae7ab96520de3a18e5e111b5eaab095312d7fe84": { symbol: "stETH", categories: ["defi"] },
+      "0x4d5f47fa6a74757f35c14fd3a6ef8e3c9bc514e8": { symbol: "aEthWETH", categories: ["defi"] },
+      "0x1f9840a85d5af5bf1d1762f925bdaddc4201f984": { symbol: "UNI", categories: ["defi", "governance"] },
+      "0x7fc66500c84a76ad7e9c93437bfc5ac33e2ddae9": { symbol: "AAVE", categories: ["defi", "governance"] },
+      "0xc00e94cb662c3520282e6f5717214004a7f26888": { symbol: "COMP", categories: ["defi", "governance"] },
+      "0x9f8f72aa9304c8b593d555f12ef6589cc3a579a2": { symbol: "MKR", categories: ["defi", "governance"] },
+      "0xd533a949740bb3306d119cc777fa900ba034cd52": { symbol: "CRV", categories: ["defi", "governance"] },
+      "0x0bc529c00c6401aef6d220be8c6ea1667f6ad93e": { symbol: "YFI", categories: ["defi", "governance"] },
+      "0xba100000625a3754423978a60c9317c58a424e3d": { symbol: "BAL", categories: ["defi", "governance"] },
+      "0xc011a73ee8576fb46f5e1c5751ca3b9fe0af2a6f": { symbol: "SNX", categories: ["defi", "governance"] },
+      "0x6b3595068778dd592e39a122f4f5a5cf09c90fe2": { symbol: "SUSHI", categories: ["defi", "governance"] },
+      "0x111111111117dc0aa78b770fa6a738034120c302": { symbol: "1INCH", categories: ["defi", "governance"] },
+      "0xc18360217d8f7ab5e7c516566761ea12ce7f9d72": { symbol: "ENS", categories: ["governance"] },
+      "0xde30da39c46104798bb5aa3fe8b9e0e1f348163f": { symbol: "GTC", categories: ["governance"] },
+      "0xc36442b4a4522e871399cd717abdd847ab11fe88": { symbol: "UNI-V3-POS", categories: ["lp"] },
+      "0x6c3f90f043a72fa612cbac8115ee7e52bde6e490": { symbol: "3Crv", categories: ["lp"] },
+    },
+    // Optimism
+    10: {
+      "0x4200000000000000000000000000000000000006": { symbol: "WETH", categories: ["defi"] },
+      "0x0b2c639c533813f4aa9d7837caf62653d097ff85": { symbol: "USDC", categories: ["stablecoin"] },
+      "0x94b008aa00579c1307b0ef2c499ad98a8ce58e58": { symbol: "USDT", categories: ["stablecoin"] },
+      "0xda10009cbd5d07dd0cecc66161fc93d7c9000da1": { symbol: "DAI", categories: ["stablecoin"] },
+      "0x4200000000000000000000000000000000000042": { symbol: "OP", categories: ["governance"] },
+      "0x9560e827af36c94d2ac33a39bce1fe78631088db": { symbol: "VELO", categories: ["defi", "governance"] },
+      "0xc36442b4a4522e871399cd717abdd847ab11fe88": { symbol: "UNI-V3-POS", categories: ["lp"] },
+    },
+    // Flow EVM
+    747: {
+      "0xd3bf53dac106a0290b0483ecbc89d40fcc961f3e": { symbol: "WFLOW", categories: ["defi"] },
+    },
+    // Base
+    8453: {
+      "0x4200000000000000000000000000000000000006": { symbol: "WETH", categories: ["defi"] },
+      "0x833589fcd6edb6e08f4c7c32d4f71b54bda02913": { symbol: "USDC", categories: ["stablecoin"] },
+      "0x50c5725949a6f0c72e6c4a641f24049a917db0cb": { symbol: "DAI", categories: ["stablecoin"] },
+      "0x940181a94a35a4569e4529a3cdfb74e38fd98631": { symbol: "AERO", categories: ["defi", "governance"] },
+      "0x03a520b32c04bf3beef7beb72e919cf822ed34f1": { symbol: "UNI-V3-POS", categories: ["lp"] },
+    },
+  },
+};
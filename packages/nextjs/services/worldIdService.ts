@@ -0,0 +1,161 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { Hex, isHex, keccak256, toBytes } from "viem";
+
+// Proof as returned by the World ID widget (IDKit's ISuccessResult), the signal is the wallet address
+export interface WorldIdProof {
+  merkle_root: string;
+  nullifier_hash: string;
+  proof: string;
+  verification_level: string;
+}
+
+export interface WorldIdVerificationResult {
+  success: boolean;
+  detail?: string;
+}
+
+// Checks a proof for the given signal, swapped for a local stub in tests and local development
+export interface WorldIdVerifier {
+  verify(proof: WorldIdProof, signal: string): Promise<WorldIdVerificationResult>;
+}
+
+export interface WorldIdVerification {
+  address: string;
+  nullifierHash: string;
+  verificationLevel: string;
+  verifiedAt: string;
+}
+
+// Same as IDKit's hashToField: keccak256 of the signal shifted into the SNARK scalar field
+function hashToField(signal: string): Hex {
+  const hash = BigInt(keccak256(isHex(signal) ? signal : toBytes(signal))) >> 8n;
+  return `0x${hash.toString(16).padStart(64, "0")}`;
+}
+
+// Verifies proofs with the World ID Developer Portal
+export function createCloudWorldIdVerifier(appId: string, action: string): WorldIdVerifier {
+  return {
+    async verify(proof, signal) {
+      const response = await fetch(`https://developer.worldcoin.org/api/v2/verify/${appId}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...proof, action, signal_hash: hashToField(signal) }),
+      });
+
+      if (response.ok) {
+        return { success: true };
+      }
+
+      const body = (await response.json().catch(() => ({}))) as { detail?: string; code?: string };
+      return { success: false, detail: body.detail ?? body.code ?? `HTTP ${response.status}` };
+    },
+  };
+}
+
+// Accepts any well-formed proof, never use it in production
+export function createLocalWorldIdVerifier(): WorldIdVerifier {
+  return {
+    async verify(proof) {
+      const isWellFormed = [proof.merkle_root, proof.nullifier_hash, proof.proof].every(value => isHex(value));
+      return isWellFormed ? { success: true } : { success: false, detail: "Malformed proof" };
+    },
+  };
+}
+
+export function getWorldIdVerifier(): WorldIdVerifier {
+  if (process.env.WORLD_ID_VERIFIER === "local") {
+    return createLocalWorldIdVerifier();
+  }
+
+  const appId = process.env.WORLD_ID_APP_ID;
+  const action = process.env.WORLD_ID_ACTION;
+  if (!appId || !action) {
+    throw new Error("World ID verification is not configured");
+  }
+  return createCloudWorldIdVerifier(appId, action);
+}
+
+// ------------------ Nullifier Store ------------------
+
+// Verified nullifiers on disk, one human (nullifier) can only ever back one wallet
+const STORE_PATH = path.resolve(process.env.WORLD_ID_NULLIFIER_STORE || ".world-id-nullifiers.json");
+
+async function readVerifications(): Promise<WorldIdVerification[]> {
+  try {
+    return JSON.parse(await fs.readFile(STORE_PATH, "utf8")) as WorldIdVerification[];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw error;
+  }
+}
+
+// Written next to the store and renamed over it, readers never see a half-written file
+async function writeVerifications(verifications: WorldIdVerification[]): Promise<void> {
+  const tempPath = `${STORE_PATH}.${process.pid}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(verifications, null, 2));
+  await fs.rename(tempPath, STORE_PATH);
+}
+
+// Store updates of this process run one after the other, so two proofs with the same nullifier can't
+// both pass the check before either is written
+let storeLock: Promise<unknown> = Promise.resolve();
+
+function withStoreLock<T>(task: () => Promise<T>): Promise<T> {
+  const result = storeLock.then(task);
+  storeLock = result.catch(() => undefined);
+  return result;
+}
+
+function findExisting(verifications: WorldIdVerification[], nullifierHash: string, address: string) {
+  const existing = verifications.find(verification => verification.nullifierHash === nullifierHash);
+  if (existing && existing.address !== address) {
+    throw new Error("World ID already used to verify another wallet");
+  }
+  return existing ?? null;
+}
+
+export async function getWorldIdVerification(address: string): Promise<WorldIdVerification | null> {
+  const verifications = await readVerifications();
+  return verifications.find(verification => verification.address === address.toLowerCase()) ?? null;
+}
+
+export async function verifyWorldIdProof(
+  address: string,
+  proof: WorldIdProof,
+  verifier: WorldIdVerifier = getWorldIdVerifier(),
+): Promise<WorldIdVerification> {
+  const normalizedAddress = address.toLowerCase();
+  const nullifierHash = proof.nullifier_hash?.toLowerCase();
+  if (!nullifierHash) {
+    throw new Error("Invalid World ID proof: missing nullifier hash");
+  }
+
+  // Cheap check before calling the verifier, repeated under the lock before anything is written
+  const existing = findExisting(await readVerifications(), nullifierHash, normalizedAddress);
+  if (existing) {
+    return existing;
+  }
+
+  const result = await verifier.verify(proof, normalizedAddress);
+  if (!result.success) {
+    throw new Error(`Invalid World ID proof: ${result.detail ?? "verification failed"}`);
+  }
+
+  return withStoreLock(async () => {
+    const verifications = await readVerifications();
+    const stored = findExisting(verifications, nullifierHash, normalizedAddress);
+    if (stored) {
+      return stored;
+    }
+
+    const verification: WorldIdVerification = {
+      address: normalizedAddress,
+      nullifierHash,
+      verificationLevel: proof.verification_level,
+      verifiedAt: new Date().toISOString(),
+    };
+    await writeVerifications([...verifications, verification]);
+    return verification;
+  });
+}
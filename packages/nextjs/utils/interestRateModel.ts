@@ -0,0 +1,96 @@
+// TypeScript port of the LoanMaster interest rate model. Keep in sync with the contract's
+// _utilization, _borrowRate and _supplyRate so previews match what the pool will charge.
+
+export const BASIS_POINTS = 10000n;
+
+// Kinked utilization model, all rates are yearly and in basis points like the utilization and kink
+export interface InterestRateModel {
+  baseRate: bigint;
+  slope1: bigint;
+  slope2: bigint;
+  kink: bigint;
+  reserveFactor: bigint;
+}
+
+export interface PoolRateState {
+  liquidity: bigint;
+  totalBorrows: bigint;
+  reserves: bigint;
+  rateModel: InterestRateModel;
+}
+
+export interface PoolRates {
+  utilization: bigint;
+  borrowAPR: bigint;
+  depositAPR: bigint;
+}
+
+const min = (a: bigint, b: bigint) => (a < b ? a : b);
+
+export function utilization(liquidity: bigint, totalBorrows: bigint, reserves: bigint): bigint {
+  if (totalBorrows === 0n || liquidity + totalBorrows <= reserves) {
+    return 0n;
+  }
+  return min((totalBorrows * BASIS_POINTS) / (liquidity + totalBorrows - reserves), BASIS_POINTS);
+}
+
+export function borrowRate(model: InterestRateModel, utilizationBps: bigint): bigint {
+  if (utilizationBps <= model.kink) {
+    return model.baseRate + (model.slope1 * utilizationBps) / model.kink;
+  }
+  return model.baseRate + model.slope1 + (model.slope2 * (utilizationBps - model.kink)) / (BASIS_POINTS - model.kink);
+}
+
+// What depositors earn: the borrow rate spread over all assets, minus the reserve cut
+export function supplyRate(model: InterestRateModel, utilizationBps: bigint): bigint {
+  return (
+    (borrowRate(model, utilizationBps) * utilizationBps * (BASIS_POINTS - model.reserveFactor)) /
+    (BASIS_POINTS * BASIS_POINTS)
+  );
+}
+
+export function poolRates(pool: PoolRateState): PoolRates {
+  const currentUtilization = utilization(pool.liquidity, pool.totalBorrows, pool.reserves);
+  return {
+    utilization: currentUtilization,
+    borrowAPR: borrowRate(pool.rateModel, currentUtilization),
+    depositAPR: supplyRate(pool.rateModel, currentUtilization),
+  };
+}
+
+// Rates the pool would have right after a deposit (adds liquidity) or a borrow (moves liquidity into borrows)
+export function previewRates(
+  pool: PoolRateState,
+  change: { deposit?: bigint; borrow?: bigint },
+): { before: PoolRates; after: PoolRates } {
+  const deposit = change.deposit ?? 0n;
+  const borrow = min(change.borrow ?? 0n, pool.liquidity + deposit);
+
+  return {
+    before: poolRates(pool),
+    after: poolRates({
+      ...pool,
+      liquidity: pool.liquidity + deposit - borrow,
+      totalBorrows: pool.totalBorrows + borrow,
+    }),
+  };
+}
+
+// 1000% yearly, same limit as LoanMaster.MAX_BORROW_RATE
+export const MAX_BORROW_RATE = 100000n;
+
+// Same checks as LoanMaster._validateRateModel, returns the reason the contract would reject the model
+// (the contract takes unsigned values, negative ones can't even be encoded)
+export function validateRateModel(model: InterestRateModel): string | null {
+  if (model.baseRate < 0n || model.slope1 < 0n || model.slope2 < 0n) return "Rates can't be negative";
+  if (model.kink <= 0n || model.kink >= BASIS_POINTS) return "Kink must be between 0% and 100%";
+  if (model.reserveFactor < 0n || model.reserveFactor > BASIS_POINTS)
+    return "Reserve factor must be between 0% and 100%";
+  if (model.baseRate + model.slope1 + model.slope2 > MAX_BORROW_RATE) return "Borrow rate can be at most 1000%";
+  return null;
+}
+
+// Percent strings from forms ("2.5") to basis points (250n) and back
+export const percentToBasisPoints = (percent: string): bigint => BigInt(Math.round((parseFloat(percent) || 0) * 100));
+
+export const basisPointsToPercent = (basisPoints: bigint): string => (Number(basisPoints) / 100).toString();
@@ -0,0 +1,179 @@
+// Unlloo reputation credentials, W3C Verifiable Credentials encoded as JWTs (VC-JWT) and signed with ES256K.
+// Self-contained so partner protocols can copy it into their own code base, it only depends on viem
+// and runs in browsers as well as in Node.
+import {
+  Address,
+  Hex,
+  bytesToHex,
+  bytesToString,
+  getAddress,
+  hexToBytes,
+  isAddress,
+  recoverAddress,
+  serializeSignature,
+  sha256,
+  stringToBytes,
+} from "viem";
+
+export const REPUTATION_CREDENTIAL_TYPE = "UnllooReputationCredential";
+
+// Issuers and subjects are identified by their Ethereum address, see https://github.com/w3c-ccg/did-pkh
+const DID_PKH_PREFIX = "did:pkh:eip155:1:";
+
+// Tolerated difference between the issuer's clock and the verifier's
+const CLOCK_SKEW_SECONDS = 60;
+
+export interface ReputationCredentialSubject {
+  id: string; // did:pkh of the scored address
+  address: Address;
+  score: number; // 0-100
+  riskLevel: number;
+  components: Record<string, number>;
+  model: string;
+  modelVersion: string;
+}
+
+export interface ReputationCredentialPayload {
+  iss: string;
+  sub: string;
+  iat: number;
+  nbf: number;
+  exp: number;
+  jti: string;
+  vc: {
+    "@context": string[];
+    type: string[];
+    credentialSubject: ReputationCredentialSubject;
+  };
+}
+
+export interface VerifyReputationCredentialOptions {
+  trustedIssuers: Address[]; // addresses whose credentials are accepted
+  subject?: Address; // when set the credential must have been issued to this address
+  now?: number; // unix seconds, defaults to the current time
+}
+
+export type ReputationCredentialVerification =
+  { valid: true; issuer: Address; payload: ReputationCredentialPayload } | { valid: false; reason: string };
+
+export function addressToDid(address: Address): string {
+  return `${DID_PKH_PREFIX}${getAddress(address)}`;
+}
+
+export function didToAddress(did: string): Address | null {
+  if (!did.startsWith(DID_PKH_PREFIX)) return null;
+  const address = did.slice(DID_PKH_PREFIX.length);
+  return isAddress(address) ? getAddress(address) : null;
+}
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach(byte => (binary += String.fromCharCode(byte)));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, "+").replace(/_/g, "/");
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, "="));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+const JWT_HEADER = { alg: "ES256K", typ: "JWT" };
+
+// The part of the JWT covered by the signature, ES256K signs its SHA-256 hash
+export function credentialSigningInput(payload: ReputationCredentialPayload): string {
+  const header = base64UrlEncode(stringToBytes(JSON.stringify(JWT_HEADER)));
+  return `${header}.${base64UrlEncode(stringToBytes(JSON.stringify(payload)))}`;
+}
+
+export function credentialSigningHash(signingInput: string): Hex {
+  return sha256(stringToBytes(signingInput));
+}
+
+// ES256K signatures are r || s without the recovery bit
+export function encodeCredentialSignature(r: Hex, s: Hex): string {
+  return base64UrlEncode(new Uint8Array([...hexToBytes(r), ...hexToBytes(s)]));
+}
+
+// Reads the payload without checking anything, use verifyReputationCredential before trusting it
+export function decodeReputationCredential(jwt: string): ReputationCredentialPayload {
+  const parts = jwt.split(".");
+  if (parts.length !== 3) {
+    throw new Error("Invalid credential, expected a JWT");
+  }
+  return JSON.parse(bytesToString(base64UrlDecode(parts[1]))) as ReputationCredentialPayload;
+}
+
+// The signer's address is recovered from the signature and must be both the credential's issuer and a trusted one
+export async function verifyReputationCredential(
+  jwt: string,
+  options: VerifyReputationCredentialOptions,
+): Promise<ReputationCredentialVerification> {
+  const parts = jwt.split(".");
+  if (parts.length !== 3) {
+    return { valid: false, reason: "Malformed credential, expected a JWT" };
+  }
+
+  let header: { alg?: string };
+  let payload: ReputationCredentialPayload;
+  let signature: Uint8Array;
+  try {
+    header = JSON.parse(bytesToString(base64UrlDecode(parts[0])));
+    payload = JSON.parse(bytesToString(base64UrlDecode(parts[1])));
+    signature = base64UrlDecode(parts[2]);
+  } catch {
+    return { valid: false, reason: "Malformed credential, the JWT could not be decoded" };
+  }
+
+  if (header.alg !== JWT_HEADER.alg) {
+    return { valid: false, reason: `Unsupported signature algorithm ${header.alg}` };
+  }
+  if (signature.length !== 64) {
+    return { valid: false, reason: "Malformed signature" };
+  }
+  if (!payload.vc?.type?.includes(REPUTATION_CREDENTIAL_TYPE) || !payload.vc.credentialSubject) {
+    return { valid: false, reason: "Not an Unlloo reputation credential" };
+  }
+
+  const issuer = typeof payload.iss === "string" ? didToAddress(payload.iss) : null;
+  if (!issuer || !options.trustedIssuers.some(trusted => getAddress(trusted) === issuer)) {
+    return { valid: false, reason: "Credential issuer is not trusted" };
+  }
+
+  // The recovery bit is not part of an ES256K signature, the signature is valid if either candidate is the issuer
+  const hash = credentialSigningHash(`${parts[0]}.${parts[1]}`);
+  const r = bytesToHex(signature.slice(0, 32));
+  const s = bytesToHex(signature.slice(32));
+  let signedByIssuer = false;
+  for (const yParity of [0, 1]) {
+    try {
+      const signer = await recoverAddress({ hash, signature: serializeSignature({ r, s, yParity }) });
+      if (signer === issuer) {
+        signedByIssuer = true;
+        break;
+      }
+    } catch {
+      // Not a point on the curve for this recovery bit
+    }
+  }
+  if (!signedByIssuer) {
+    return { valid: false, reason: "Invalid signature" };
+  }
+
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  if (typeof payload.exp !== "number" || payload.exp + CLOCK_SKEW_SECONDS < now) {
+    return { valid: false, reason: "Credential has expired" };
+  }
+  if (typeof payload.nbf === "number" && payload.nbf - CLOCK_SKEW_SECONDS > now) {
+    return { valid: false, reason: "Credential is not valid yet" };
+  }
+
+  if (payload.vc.credentialSubject.id !== payload.sub) {
+    return { valid: false, reason: "Credential subject does not match" };
+  }
+  if (options.subject && payload.sub !== addressToDid(options.subject)) {
+    return { valid: false, reason: "Credential was issued to another address" };
+  }
+
+  return { valid: true, issuer, payload };
+}